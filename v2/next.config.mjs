@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Loaded at runtime from node_modules rather than bundled (PDF.js)
+    serverComponentsExternalPackages: ['unpdf'],
+  },
+};
 
 export default nextConfig;
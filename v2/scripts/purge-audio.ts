@@ -0,0 +1,19 @@
+/**
+ * Delete stored turn audio older than AUDIO_RETENTION_DAYS (default 30).
+ * Usage: npm run purge:audio  (e.g. from cron when not relying on server.ts)
+ */
+import { loadEnvConfig } from '@next/env';
+
+async function main() {
+  loadEnvConfig(process.cwd());
+  // Imported after the env is loaded: db.ts reads MONGODB_URI at import time
+  const { purgeExpiredAudio } = await import('../src/lib/audio-assets');
+  const deleted = await purgeExpiredAudio();
+  console.log(`Deleted ${deleted} audio assets`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
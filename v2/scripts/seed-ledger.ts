@@ -0,0 +1,55 @@
+/**
+ * Seed the MongoDB mock ledger used by the agent's finance tools.
+ * Usage: npm run seed:ledger -- <orgId>  (replaces that organization's
+ * ledger_invoices / ledger_bills)
+ */
+import { loadEnvConfig } from '@next/env';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysFromNow(days: number): Date {
+  return new Date(Date.now() + days * DAY_MS);
+}
+
+async function main() {
+  const orgId = process.argv[2];
+  if (!orgId) {
+    console.error('Usage: npm run seed:ledger -- <orgId>');
+    process.exit(1);
+  }
+  loadEnvConfig(process.cwd());
+  // Imported after the env is loaded: db.ts reads MONGODB_URI at import time
+  const { getDb } = await import('../src/lib/db');
+  const database = await getDb();
+
+  const invoices = [
+    { invoiceNumber: 'INV-1001', customerName: 'Acme Trading Pte Ltd', amount: 12500, amountPaid: 0, currency: 'SGD', issueDate: daysFromNow(-75), dueDate: daysFromNow(-45), status: 'open' },
+    { invoiceNumber: 'INV-1002', customerName: 'Acme Trading Pte Ltd', amount: 4800, amountPaid: 1800, currency: 'SGD', issueDate: daysFromNow(-40), dueDate: daysFromNow(-10), status: 'partially_paid' },
+    { invoiceNumber: 'INV-1003', customerName: 'Acme Trading Pte Ltd', amount: 3200, amountPaid: 3200, currency: 'SGD', issueDate: daysFromNow(-60), dueDate: daysFromNow(-30), status: 'paid' },
+    { invoiceNumber: 'INV-1004', customerName: 'Nusantara Logistics', amount: 98000000, amountPaid: 0, currency: 'IDR', issueDate: daysFromNow(-20), dueDate: daysFromNow(10), status: 'open' },
+    { invoiceNumber: 'INV-1005', customerName: 'Manila Foods Corp', amount: 250000, amountPaid: 0, currency: 'PHP', issueDate: daysFromNow(-50), dueDate: daysFromNow(-20), status: 'open' },
+  ];
+  const bills = [
+    { billNumber: 'BILL-2001', vendorName: 'CloudHost Ltd', amount: 1450, currency: 'USD', dueDate: daysFromNow(5), status: 'scheduled', paymentDate: daysFromNow(4) },
+    { billNumber: 'BILL-2002', vendorName: 'Office Supplies Co', amount: 320, currency: 'SGD', dueDate: daysFromNow(-3), status: 'paid', paymentDate: daysFromNow(-4), paymentReference: 'PAY-88231' },
+    { billNumber: 'BILL-2003', vendorName: 'Saigon Print House', amount: 15600000, currency: 'VND', dueDate: daysFromNow(14), status: 'pending_approval' },
+  ];
+
+  const invoicesCollection = database.collection('ledger_invoices');
+  const billsCollection = database.collection('ledger_bills');
+  await invoicesCollection.deleteMany({ orgId });
+  await billsCollection.deleteMany({ orgId });
+  await invoicesCollection.insertMany(invoices.map((invoice) => ({ orgId, ...invoice })));
+  await billsCollection.insertMany(bills.map((bill) => ({ orgId, ...bill })));
+  await invoicesCollection.createIndex({ orgId: 1, invoiceNumber: 1 }, { unique: true });
+  await invoicesCollection.createIndex({ orgId: 1, customerName: 1, dueDate: 1 });
+  await billsCollection.createIndex({ orgId: 1, billNumber: 1 }, { unique: true });
+
+  console.log(`Seeded ${invoices.length} invoices and ${bills.length} bills for org ${orgId}`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
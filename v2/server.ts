@@ -0,0 +1,52 @@
+import { createServer } from 'http';
+import next from 'next';
+
+const dev = process.env.NODE_ENV !== 'production';
+const port = parseInt(process.env.PORT ?? '3000', 10);
+const app = next({ dev });
+
+async function main() {
+  await app.prepare();
+  // Imported after prepare() so .env.local is loaded before lib modules read process.env
+  const { createVoiceStreamServer } = await import('./src/lib/voice-stream');
+  const { VOICE_STREAM_PATH } = await import('./src/lib/voice-stream-protocol');
+  const { startAudioRetentionJob } = await import('./src/lib/audio-assets');
+  const { startMemoryExtractionJob } = await import('./src/lib/memory');
+  const { startVoiceJobWorker } = await import('./src/lib/voice-jobs');
+  const { startWebhookDeliveryWorker } = await import('./src/lib/webhooks');
+  const { getDb } = await import('./src/lib/db');
+
+  // Connects and creates indexes up front, so a missing required index stops startup
+  if (process.env.MONGODB_URI) await getDb();
+
+  const handle = app.getRequestHandler();
+  const handleUpgrade = app.getUpgradeHandler();
+  const voiceStream = createVoiceStreamServer();
+
+  const server = createServer((req, res) => handle(req, res));
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname === VOICE_STREAM_PATH) {
+      voiceStream.handleUpgrade(req, socket, head, (ws) => {
+        voiceStream.emit('connection', ws, req);
+      });
+      return;
+    }
+    // Next.js dev server uses upgrades for hot reloading
+    handleUpgrade(req, socket, head);
+  });
+
+  server.listen(port, () => {
+    console.log(`> Ready on http://localhost:${port}`);
+  });
+  // Deletes stored audio older than AUDIO_RETENTION_DAYS; run `npm run purge:audio` from cron instead if preferred
+  startAudioRetentionJob();
+  startMemoryExtractionJob();
+  startVoiceJobWorker();
+  startWebhookDeliveryWorker();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
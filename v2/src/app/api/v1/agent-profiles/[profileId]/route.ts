@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import type { AuthUser } from '@/lib/auth';
+import {
+  deleteAgentProfile,
+  getAgentProfile,
+  toAgentProfileInfo,
+  updateAgentProfile,
+  validateAgentProfile,
+  type AgentProfileDoc,
+} from '@/lib/agent-profiles';
+import { isOrgAdmin } from '@/lib/organizations';
+
+function profileNotFound() {
+  return NextResponse.json(
+    { error: 'PROFILE_NOT_FOUND', message: 'Agent profile not found' },
+    { status: 404 }
+  );
+}
+
+// Members may change the profiles they created; owners and admins, any profile
+function canEdit(user: AuthUser, profile: AgentProfileDoc): boolean {
+  return profile.createdBy === user.id || isOrgAdmin(user.orgRole);
+}
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ profileId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    const { profileId } = await context.params;
+    const profile = await getAgentProfile(user.orgId, profileId);
+    if (!profile) return profileNotFound();
+    return NextResponse.json({ profile: toAgentProfileInfo(profile) });
+  }, { scope: 'profiles:read' });
+}
+
+/** Partial update; `llm`, `tts` and `stt` are replaced as a whole when given. */
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ profileId: string }> }
+) {
+  return withAuth(req, async (request, user) => {
+    const { profileId } = await context.params;
+    const existing = await getAgentProfile(user.orgId, profileId);
+    if (!existing) return profileNotFound();
+    if (!canEdit(user, existing)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Only the creator or an organization admin can change this profile' },
+        { status: 403 }
+      );
+    }
+    const body = await request.json().catch(() => null);
+    const validation = validateAgentProfile(body, { partial: true });
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: validation.error },
+        { status: 400 }
+      );
+    }
+    const profile = await updateAgentProfile(user.orgId, profileId, validation.profile);
+    if (!profile) return profileNotFound();
+    return NextResponse.json({ profile: toAgentProfileInfo(profile) });
+  }, { scope: 'profiles:write' });
+}
+
+/** Sessions created with the profile keep working with the organization defaults. */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ profileId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    const { profileId } = await context.params;
+    const existing = await getAgentProfile(user.orgId, profileId);
+    if (!existing) return profileNotFound();
+    if (!canEdit(user, existing)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Only the creator or an organization admin can delete this profile' },
+        { status: 403 }
+      );
+    }
+    await deleteAgentProfile(user.orgId, profileId);
+    return NextResponse.json({ deleted: true, id: profileId });
+  }, { scope: 'profiles:write' });
+}
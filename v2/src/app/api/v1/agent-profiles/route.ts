@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import {
+  createAgentProfile,
+  listAgentProfiles,
+  toAgentProfileInfo,
+  validateAgentProfile,
+} from '@/lib/agent-profiles';
+
+/** Agent profiles of the caller's organization. */
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (_req, user) => {
+    const profiles = await listAgentProfiles(user.orgId);
+    return NextResponse.json({ profiles });
+  }, { scope: 'profiles:read' });
+}
+
+export async function POST(req: NextRequest) {
+  return withAuth(req, async (request, user) => {
+    const body = await request.json().catch(() => null);
+    const validation = validateAgentProfile(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: validation.error },
+        { status: 400 }
+      );
+    }
+    const { name, ...rest } = validation.profile;
+    const profile = await createAgentProfile(user.orgId, user.id, { name: name!, ...rest });
+    return NextResponse.json({ profile: toAgentProfileInfo(profile) }, { status: 201 });
+  }, { scope: 'profiles:write' });
+}
@@ -22,6 +22,9 @@ export async function POST(req: NextRequest) {
       token: apiKey,
       userId: user.id,
       email: user.email,
+      scopes: user.scopes,
+      orgId: user.orgId,
+      orgRole: user.orgRole,
     });
   } catch {
     return NextResponse.json(
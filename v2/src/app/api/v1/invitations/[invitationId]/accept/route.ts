@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { acceptInvitation, getOrganization, toOrganizationInfo } from '@/lib/organizations';
+
+/**
+ * Join the organization that invited the caller; body: `{ token }`, the
+ * invite token the inviter was given. Use `POST /keys` with its `orgId` to get
+ * a key that acts in it.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ invitationId: string }> }
+) {
+  return withAuth(req, async (request, user) => {
+    const { invitationId } = await context.params;
+    const body = await request.json().catch(() => null);
+    const token = body?.token;
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'token is required' },
+        { status: 400 }
+      );
+    }
+    const membership = await acceptInvitation(invitationId, token, user);
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'INVITATION_NOT_FOUND', message: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+    const org = await getOrganization(membership.orgId);
+    return NextResponse.json({
+      organization: org ? { ...toOrganizationInfo(org), role: membership.role } : null,
+      member: { userId: user.id, role: membership.role, joinedAt: membership.createdAt },
+    });
+  }, { scope: 'org:read' });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { declineInvitation } from '@/lib/organizations';
+
+/** Decline an invitation addressed to the caller; body: `{ token }`. */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ invitationId: string }> }
+) {
+  return withAuth(req, async (request, user) => {
+    const { invitationId } = await context.params;
+    const body = await request.json().catch(() => null);
+    const token = body?.token;
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'token is required' },
+        { status: 400 }
+      );
+    }
+    if (!(await declineInvitation(invitationId, token, user.email))) {
+      return NextResponse.json(
+        { error: 'INVITATION_NOT_FOUND', message: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ declined: true, invitationId });
+  }, { scope: 'org:read' });
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { listUserInvitations } from '@/lib/organizations';
+
+/** Pending invitations to other organizations, addressed to the caller's email. */
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (_req, user) => {
+    const invitations = await listUserInvitations(user.email);
+    return NextResponse.json({ invitations });
+  }, { scope: 'org:read' });
+}
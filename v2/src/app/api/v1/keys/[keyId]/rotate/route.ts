@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { getApiKey, rotateApiKey } from '@/lib/api-keys';
+import { canGrantScopes } from '@/lib/auth';
+
+const MAX_GRACE_PERIOD_SECONDS = 7 * 24 * 60 * 60;
+
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ keyId: string }> }
+) {
+  return withAuth(req, async (request, user) => {
+    const { keyId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const grace = body?.gracePeriodSeconds ?? 0;
+    if (typeof grace !== 'number' || grace < 0 || grace > MAX_GRACE_PERIOD_SECONDS) {
+      return NextResponse.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: `gracePeriodSeconds must be between 0 and ${MAX_GRACE_PERIOD_SECONDS}`,
+        },
+        { status: 400 }
+      );
+    }
+    const existing = await getApiKey(user.id, keyId);
+    if (existing && !canGrantScopes(user, existing.scopes)) {
+      return NextResponse.json(
+        {
+          error: 'INSUFFICIENT_SCOPE',
+          message: 'A key cannot rotate keys with scopes it does not have',
+        },
+        { status: 403 }
+      );
+    }
+    const rotated = await rotateApiKey(user.id, keyId, grace);
+    if (!rotated) {
+      return NextResponse.json(
+        { error: 'KEY_NOT_FOUND', message: 'Active API key not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({
+      key: rotated.key,
+      apiKey: rotated.apiKey,
+      message: 'API key rotated. Save the new key securely - it will not be shown again.',
+    });
+  }, { scope: 'keys:manage' });
+}
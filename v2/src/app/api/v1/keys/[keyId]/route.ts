@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { getApiKey, revokeApiKey, toApiKeyInfo } from '@/lib/api-keys';
+import { canGrantScopes } from '@/lib/auth';
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ keyId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    const { keyId } = await context.params;
+    const key = await getApiKey(user.id, keyId);
+    if (!key) {
+      return NextResponse.json(
+        { error: 'KEY_NOT_FOUND', message: 'API key not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ key: toApiKeyInfo(key) });
+  }, { scope: 'keys:manage' });
+}
+
+/** Revoke a key. Revoked keys stay listed but can no longer authenticate. */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ keyId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    const { keyId } = await context.params;
+    const existing = await getApiKey(user.id, keyId);
+    if (existing && !canGrantScopes(user, existing.scopes)) {
+      return NextResponse.json(
+        {
+          error: 'INSUFFICIENT_SCOPE',
+          message: 'A key cannot revoke keys with scopes it does not have',
+        },
+        { status: 403 }
+      );
+    }
+    const key = await revokeApiKey(user.id, keyId);
+    if (!key) {
+      return NextResponse.json(
+        { error: 'KEY_NOT_FOUND', message: 'API key not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ key });
+  }, { scope: 'keys:manage' });
+}
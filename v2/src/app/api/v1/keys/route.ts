@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { createApiKey, DEFAULT_SCOPES, listApiKeys } from '@/lib/api-keys';
+import { canGrantScopes, isScope, SCOPES, WILDCARD_SCOPE } from '@/lib/auth';
+import { getMembership } from '@/lib/organizations';
+
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (_req, user) => {
+    const keys = await listApiKeys(user.id, user.orgId);
+    return NextResponse.json({ keys });
+  }, { scope: 'keys:manage' });
+}
+
+export async function POST(req: NextRequest) {
+  return withAuth(req, async (request, user) => {
+    const body = await request.json().catch(() => null);
+    const name = body?.name;
+    if (!name || typeof name !== 'string' || name.length > 100) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'Key name is required (max 100 characters)' },
+        { status: 400 }
+      );
+    }
+    const scopes: string[] = body?.scopes ?? DEFAULT_SCOPES;
+    if (!Array.isArray(scopes) || !scopes.length || !scopes.every(isScope)) {
+      return NextResponse.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: `scopes must be a non-empty array of: ${[WILDCARD_SCOPE, ...SCOPES].join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+    if (!canGrantScopes(user, scopes)) {
+      return NextResponse.json(
+        {
+          error: 'INSUFFICIENT_SCOPE',
+          message: 'A key cannot create keys with scopes it does not have',
+        },
+        { status: 403 }
+      );
+    }
+    let expiresAt: Date | null = null;
+    if (body?.expiresAt != null) {
+      expiresAt = new Date(body.expiresAt);
+      if (Number.isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+        return NextResponse.json(
+          { error: 'VALIDATION_ERROR', message: 'expiresAt must be a future ISO 8601 date' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Keys act in the caller's current organization unless another one they belong to is given
+    const orgId = body?.orgId ?? user.orgId;
+    if (typeof orgId !== 'string' || (orgId !== user.orgId && !(await getMembership(orgId, user.id)))) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'orgId must be an organization you belong to' },
+        { status: 400 }
+      );
+    }
+
+    const { key, apiKey } = await createApiKey(user.id, { name, orgId, scopes, expiresAt });
+    return NextResponse.json(
+      {
+        key,
+        apiKey,
+        message: 'API key created. Save this key securely - it will not be shown again.',
+      },
+      { status: 201 }
+    );
+  }, { scope: 'keys:manage' });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { isOrgAdmin } from '@/lib/organizations';
+import {
+  deleteKnowledgeDocument,
+  getKnowledgeDocument,
+  toKnowledgeDocumentInfo,
+} from '@/lib/knowledge';
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ documentId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    const { documentId } = await context.params;
+    const document = await getKnowledgeDocument(user.orgId, documentId);
+    if (!document) {
+      return NextResponse.json(
+        { error: 'DOCUMENT_NOT_FOUND', message: 'Document not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ document: toKnowledgeDocumentInfo(document) });
+  }, { scope: 'knowledge:read' });
+}
+
+/** Remove a document and its chunks (owners and admins). */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ documentId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    if (!isOrgAdmin(user.orgRole)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Only organization owners and admins can delete documents' },
+        { status: 403 }
+      );
+    }
+    const { documentId } = await context.params;
+    if (!(await deleteKnowledgeDocument(user.orgId, documentId))) {
+      return NextResponse.json(
+        { error: 'DOCUMENT_NOT_FOUND', message: 'Document not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ deleted: true, documentId });
+  }, { scope: 'knowledge:write' });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { isOrgAdmin } from '@/lib/organizations';
+import {
+  addKnowledgeDocument,
+  listKnowledgeDocuments,
+  maxDocumentBytes,
+  toKnowledgeDocumentInfo,
+} from '@/lib/knowledge';
+
+/** Documents in the caller's organization's knowledge base. */
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (_req, user) => {
+    const documents = await listKnowledgeDocuments(user.orgId);
+    return NextResponse.json({ documents });
+  }, { scope: 'knowledge:read' });
+}
+
+/**
+ * Upload a document (FormData: `file`, optional `title`). Owners and admins
+ * only, since documents shape every member's answers.
+ */
+export async function POST(req: NextRequest) {
+  return withAuth(req, async (request, user) => {
+    if (!isOrgAdmin(user.orgRole)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Only organization owners and admins can add documents' },
+        { status: 403 }
+      );
+    }
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get('file');
+    if (!file || typeof file === 'string' || !file.size) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'A non-empty file is required' },
+        { status: 400 }
+      );
+    }
+    if (file.size > maxDocumentBytes()) {
+      return NextResponse.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: `File too large (max ${Math.round(maxDocumentBytes() / 1024 / 1024)}MB)`,
+        },
+        { status: 400 }
+      );
+    }
+    const title = formData?.get('title');
+    if (typeof title === 'string' && title.length > 200) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'title must be at most 200 characters' },
+        { status: 400 }
+      );
+    }
+
+    const result = await addKnowledgeDocument(user, {
+      filename: file.name || 'document',
+      contentType: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+      title: typeof title === 'string' ? title : undefined,
+    });
+    if (!result.valid) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: result.error },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ document: toKnowledgeDocumentInfo(result.document) }, { status: 201 });
+  }, { scope: 'knowledge:write' });
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { searchKnowledge } from '@/lib/knowledge';
+
+/** What a turn would retrieve for `q`; useful to check uploads and tune KNOWLEDGE_MIN_SCORE. */
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (request, user) => {
+    const params = request.nextUrl.searchParams;
+    const q = params.get('q')?.trim() ?? '';
+    if (!q || q.length > 500) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'q is required (max 500 characters)' },
+        { status: 400 }
+      );
+    }
+    const limit = Math.min(parseInt(params.get('limit') ?? '4', 10) || 4, 20);
+    const results = await searchKnowledge(user.orgId, q, { limit });
+    return NextResponse.json({ results });
+  }, { scope: 'knowledge:read' });
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import {
+  deleteMemory,
+  getMemory,
+  toMemoryInfo,
+  updateMemory,
+  validateMemoryContent,
+} from '@/lib/memory';
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ memoryId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    const { memoryId } = await context.params;
+    const memory = await getMemory(user, memoryId);
+    if (!memory) {
+      return NextResponse.json(
+        { error: 'MEMORY_NOT_FOUND', message: 'Memory not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ memory: toMemoryInfo(memory) });
+  }, { scope: 'memory:read' });
+}
+
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ memoryId: string }> }
+) {
+  return withAuth(req, async (request, user) => {
+    const { memoryId } = await context.params;
+    const body = await request.json().catch(() => null);
+    const validation = validateMemoryContent(body?.content);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: validation.error },
+        { status: 400 }
+      );
+    }
+    const memory = await updateMemory(user, memoryId, validation.content);
+    if (!memory) {
+      return NextResponse.json(
+        { error: 'MEMORY_NOT_FOUND', message: 'Memory not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ memory: toMemoryInfo(memory) });
+  }, { scope: 'memory:write' });
+}
+
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ memoryId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    const { memoryId } = await context.params;
+    if (!(await deleteMemory(user, memoryId))) {
+      return NextResponse.json(
+        { error: 'MEMORY_NOT_FOUND', message: 'Memory not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ deleted: true, memoryId });
+  }, { scope: 'memory:write' });
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import {
+  countMemories,
+  createMemory,
+  deleteAllMemories,
+  listMemories,
+  MAX_MEMORIES_PER_USER,
+  toMemoryInfo,
+  validateMemoryContent,
+} from '@/lib/memory';
+
+/** Everything remembered about the caller in their current organization. */
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (_req, user) => {
+    const memories = await listMemories(user);
+    return NextResponse.json({ memories });
+  }, { scope: 'memory:read' });
+}
+
+/** Tell the agent something to remember. */
+export async function POST(req: NextRequest) {
+  return withAuth(req, async (request, user) => {
+    const body = await request.json().catch(() => null);
+    const validation = validateMemoryContent(body?.content);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: validation.error },
+        { status: 400 }
+      );
+    }
+    if ((await countMemories(user)) >= MAX_MEMORIES_PER_USER) {
+      return NextResponse.json(
+        {
+          error: 'MEMORY_LIMIT_REACHED',
+          message: `At most ${MAX_MEMORIES_PER_USER} memories; delete some first`,
+        },
+        { status: 409 }
+      );
+    }
+    const memory = await createMemory(user, validation.content);
+    return NextResponse.json({ memory: toMemoryInfo(memory) }, { status: 201 });
+  }, { scope: 'memory:write' });
+}
+
+/** Forget everything. */
+export async function DELETE(req: NextRequest) {
+  return withAuth(req, async (_req, user) => {
+    const deleted = await deleteAllMemories(user);
+    return NextResponse.json({ deleted });
+  }, { scope: 'memory:write' });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { searchMessages } from '@/lib/conversation';
+
+const MAX_QUERY_LENGTH = 200;
+
+/** Full-text search over the caller's own sessions, best matches first. */
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (request, user) => {
+    const params = request.nextUrl.searchParams;
+    const q = params.get('q')?.trim() ?? '';
+    if (!q || q.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: `q is required (max ${MAX_QUERY_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+    const limit = Math.min(parseInt(params.get('limit') ?? '20', 10) || 20, 50);
+    const offset = Math.max(parseInt(params.get('offset') ?? '0', 10) || 0, 0);
+
+    const results = await searchMessages(user, q, { limit, offset });
+    return NextResponse.json({
+      query: q,
+      results: results.map((m) => ({
+        id: m.id,
+        sessionId: m.sessionId,
+        role: m.role,
+        content: m.content,
+        createdAt: m.createdAt,
+        score: m.score,
+      })),
+      limit,
+      offset,
+    });
+  }, { scope: 'sessions:read' });
+}
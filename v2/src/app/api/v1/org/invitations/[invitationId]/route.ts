@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { isOrgAdmin, revokeInvitation } from '@/lib/organizations';
+
+/** Withdraw a pending invitation (owners and admins). */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ invitationId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    if (!isOrgAdmin(user.orgRole)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Only organization owners and admins can revoke invitations' },
+        { status: 403 }
+      );
+    }
+    const { invitationId } = await context.params;
+    if (!(await revokeInvitation(user.orgId, invitationId))) {
+      return NextResponse.json(
+        { error: 'INVITATION_NOT_FOUND', message: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ revoked: true, invitationId });
+  }, { scope: 'org:manage' });
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { isOrgAdmin, listOrgInvitations, toInvitationInfo } from '@/lib/organizations';
+
+/** Pending invitations to the organization (owners and admins). */
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (_req, user) => {
+    if (!isOrgAdmin(user.orgRole)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Only organization owners and admins can view invitations' },
+        { status: 403 }
+      );
+    }
+    const invitations = await listOrgInvitations(user.orgId);
+    return NextResponse.json({ invitations: invitations.map(toInvitationInfo) });
+  }, { scope: 'org:read' });
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import {
+  canAssignRole,
+  countOwners,
+  getMembership,
+  isOrgRole,
+  ORG_ROLES,
+  removeMember,
+  setMemberRole,
+} from '@/lib/organizations';
+
+/** Change a member's role. Owners and admins only; only owners can touch owners. */
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ userId: string }> }
+) {
+  return withAuth(req, async (request, user) => {
+    const { userId } = await context.params;
+    const body = await request.json().catch(() => null);
+    const role = body?.role;
+    if (!isOrgRole(role)) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: `role must be one of: ${ORG_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const membership = await getMembership(user.orgId, userId);
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'MEMBER_NOT_FOUND', message: 'Member not found' },
+        { status: 404 }
+      );
+    }
+    if (!canAssignRole(user.orgRole, membership.role) || !canAssignRole(user.orgRole, role)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Your role cannot make this change' },
+        { status: 403 }
+      );
+    }
+    if (membership.role === 'owner' && role !== 'owner' && (await countOwners(user.orgId)) <= 1) {
+      return NextResponse.json(
+        { error: 'LAST_OWNER', message: 'An organization needs at least one owner' },
+        { status: 409 }
+      );
+    }
+
+    const updated = await setMemberRole(user.orgId, userId, role);
+    return NextResponse.json({
+      member: { userId, role: updated?.role ?? role, joinedAt: membership.createdAt },
+    });
+  }, { scope: 'org:manage' });
+}
+
+/** Remove a member (owners and admins), or leave the organization (anyone). */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ userId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    const { userId } = await context.params;
+    const membership = await getMembership(user.orgId, userId);
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'MEMBER_NOT_FOUND', message: 'Member not found' },
+        { status: 404 }
+      );
+    }
+    if (userId !== user.id && !canAssignRole(user.orgRole, membership.role)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Your role cannot remove this member' },
+        { status: 403 }
+      );
+    }
+    if (membership.role === 'owner' && (await countOwners(user.orgId)) <= 1) {
+      return NextResponse.json(
+        { error: 'LAST_OWNER', message: 'An organization needs at least one owner' },
+        { status: 409 }
+      );
+    }
+
+    await removeMember(user.orgId, userId);
+    return NextResponse.json({ removed: true, userId });
+  }, { scope: 'org:manage' });
+}
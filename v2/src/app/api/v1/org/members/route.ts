@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { findUserByEmail } from '@/lib/auth';
+import {
+  canAssignRole,
+  createInvitation,
+  getMembership,
+  isOrgAdmin,
+  isOrgRole,
+  listMembers,
+  ORG_ROLES,
+  toInvitationInfo,
+} from '@/lib/organizations';
+
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (_req, user) => {
+    const members = await listMembers(user.orgId);
+    return NextResponse.json({ members });
+  }, { scope: 'org:read' });
+}
+
+/**
+ * Invite someone to the organization by email (owners and admins). They join
+ * once they accept with the returned `inviteToken`; the response is the same
+ * whether or not the email is registered.
+ */
+export async function POST(req: NextRequest) {
+  return withAuth(req, async (request, user) => {
+    if (!isOrgAdmin(user.orgRole)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Only organization owners and admins can invite members' },
+        { status: 403 }
+      );
+    }
+    const body = await request.json().catch(() => null);
+    const email = body?.email;
+    if (!email || typeof email !== 'string' || !email.trim()) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'Email is required' },
+        { status: 400 }
+      );
+    }
+    const role = body?.role ?? 'member';
+    if (!isOrgRole(role)) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: `role must be one of: ${ORG_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!canAssignRole(user.orgRole, role)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Only owners can invite owners' },
+        { status: 403 }
+      );
+    }
+
+    // Members are listed to the organization anyway, so this reveals nothing new
+    const existing = await findUserByEmail(email);
+    if (existing && (await getMembership(user.orgId, existing.id))) {
+      return NextResponse.json(
+        { error: 'ALREADY_MEMBER', message: 'User is already a member' },
+        { status: 409 }
+      );
+    }
+    const { invitation, token } = await createInvitation(user.orgId, email, role, user.id);
+    return NextResponse.json(
+      {
+        invitation: toInvitationInfo(invitation),
+        inviteToken: token,
+        message: 'Send this token to the invitee; they need it to accept. It will not be shown again.',
+      },
+      { status: 202 }
+    );
+  }, { scope: 'org:manage' });
+}
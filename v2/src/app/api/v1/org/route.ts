@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { validateAgentConfig, type AgentConfig } from '@/lib/llm';
+import {
+  getOrganization,
+  isOrgAdmin,
+  toOrganizationInfo,
+  updateOrganization,
+} from '@/lib/organizations';
+
+/** The organization the API key acts in. */
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (_req, user) => {
+    const org = await getOrganization(user.orgId);
+    if (!org) {
+      return NextResponse.json(
+        { error: 'ORG_NOT_FOUND', message: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ organization: { ...toOrganizationInfo(org), role: user.orgRole } });
+  }, { scope: 'org:read' });
+}
+
+/** Rename the organization or change its shared settings (owners and admins). */
+export async function PATCH(req: NextRequest) {
+  return withAuth(req, async (request, user) => {
+    if (!isOrgAdmin(user.orgRole)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Only organization owners and admins can change settings' },
+        { status: 403 }
+      );
+    }
+    const body = await request.json().catch(() => null);
+    const name = body?.name;
+    if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.length > 100)) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'name must be 1-100 characters' },
+        { status: 400 }
+      );
+    }
+    const shareHistory = body?.settings?.shareHistory;
+    if (shareHistory !== undefined && typeof shareHistory !== 'boolean') {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'settings.shareHistory must be a boolean' },
+        { status: 400 }
+      );
+    }
+    let agent: AgentConfig | undefined;
+    if (body?.settings?.agent !== undefined) {
+      const validation = validateAgentConfig(body.settings.agent);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: 'VALIDATION_ERROR', message: `settings.agent: ${validation.error}` },
+          { status: 400 }
+        );
+      }
+      agent = validation.config;
+    }
+
+    const org = await updateOrganization(user.orgId, { name: name?.trim(), shareHistory, agent });
+    if (!org) {
+      return NextResponse.json(
+        { error: 'ORG_NOT_FOUND', message: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ organization: { ...toOrganizationInfo(org), role: user.orgRole } });
+  }, { scope: 'org:manage' });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import {
+  createOrganization,
+  listUserOrganizations,
+  toOrganizationInfo,
+} from '@/lib/organizations';
+
+/** Organizations the caller belongs to, with their role in each. */
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (_req, user) => {
+    const organizations = await listUserOrganizations(user.id);
+    return NextResponse.json({ organizations, currentOrgId: user.orgId });
+  }, { scope: 'org:read' });
+}
+
+/** Create an organization owned by the caller. Use `POST /keys` with `orgId` to get a key for it. */
+export async function POST(req: NextRequest) {
+  return withAuth(req, async (request, user) => {
+    const body = await request.json().catch(() => null);
+    const name = body?.name;
+    if (!name || typeof name !== 'string' || !name.trim() || name.length > 100) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'Organization name is required (max 100 characters)' },
+        { status: 400 }
+      );
+    }
+    const org = await createOrganization(name.trim(), user.id);
+    return NextResponse.json(
+      { organization: { ...toOrganizationInfo(org), role: 'owner' } },
+      { status: 201 }
+    );
+  }, { scope: 'org:manage' });
+}
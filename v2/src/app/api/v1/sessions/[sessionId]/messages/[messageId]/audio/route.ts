@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { withAuth } from '@/lib/auth-middleware';
+import { getMessage, getSession } from '@/lib/conversation';
+import { getAudioAsset, readAudioAsset } from '@/lib/audio-assets';
+
+function audioNotFound() {
+  return NextResponse.json(
+    { error: 'AUDIO_NOT_FOUND', message: 'No audio stored for this message' },
+    { status: 404 }
+  );
+}
+
+/** The user's recording or the synthesized reply for one message, if it was kept. */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ sessionId: string; messageId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    const { sessionId, messageId } = await context.params;
+    const session = await getSession(sessionId, user);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'SESSION_NOT_FOUND', message: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    const message = await getMessage(sessionId, messageId);
+    if (!message) {
+      return NextResponse.json(
+        { error: 'MESSAGE_NOT_FOUND', message: 'Message not found' },
+        { status: 404 }
+      );
+    }
+    if (!message.audioAssetId) return audioNotFound();
+    const asset = await getAudioAsset(new ObjectId(message.audioAssetId));
+    const audio = asset ? await readAudioAsset(asset) : null;
+    if (!asset || !audio) return audioNotFound();
+
+    return new NextResponse(new Uint8Array(audio), {
+      headers: {
+        'Content-Type': asset.contentType,
+        'Content-Length': String(audio.length),
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  }, { scope: 'sessions:read' });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { getSession, markMessageInterrupted, validateHeardText } from '@/lib/conversation';
+
+/**
+ * Barge-in: the user talked over a spoken reply. Body `{ "heardText": "..." }`,
+ * the part of the reply that was played (optional). Later turns see only that part.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ sessionId: string; messageId: string }> }
+) {
+  return withAuth(req, async (request, user) => {
+    const { sessionId, messageId } = await context.params;
+    const session = await getSession(sessionId, user);
+    if (!session || session.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'SESSION_NOT_FOUND', message: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    const body = await request.json().catch(() => ({}));
+    const heard = validateHeardText(body?.heardText);
+    if (!heard.valid) {
+      return NextResponse.json({ error: 'VALIDATION_ERROR', message: heard.error }, { status: 400 });
+    }
+    const interruption = await markMessageInterrupted(sessionId, messageId, heard.heardText);
+    if (!interruption) {
+      return NextResponse.json(
+        { error: 'MESSAGE_NOT_FOUND', message: 'Assistant message not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ id: messageId, interruption });
+  }, { scope: 'voice:converse' });
+}
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth } from '@/lib/auth-middleware';
-import { getSession, getConversationHistory } from '@/lib/conversation';
+import { getSession, listMessages } from '@/lib/conversation';
+import { enforceRequestLimits } from '@/lib/rate-limit';
+import { applyRateLimitHeaders, rateLimitExceeded } from '@/lib/rate-limit/http';
+import { completeTurn, emitTurnFailed } from '@/lib/turn';
+import { ttsOptionsFromQuery } from '@/lib/tts';
+
+const MAX_TEXT_LENGTH = 4000;
 
 export async function GET(
   req: NextRequest,
@@ -8,21 +14,126 @@ export async function GET(
 ) {
   return withAuth(req, async (request, user) => {
     const { sessionId } = await context.params;
-    const session = await getSession(sessionId, user.id);
+    const session = await getSession(sessionId, user);
     if (!session) {
       return NextResponse.json(
         { error: 'SESSION_NOT_FOUND', message: 'Session not found' },
         { status: 404 }
       );
     }
-    const limitParam = request.nextUrl.searchParams.get('limit');
+    const params = request.nextUrl.searchParams;
     const limit = Math.min(
-      parseInt(limitParam ?? '20', 10) || 20,
+      parseInt(params.get('limit') ?? '20', 10) || 20,
       100
     );
-    const messages = await getConversationHistory(sessionId, limit);
+    const before = params.get('before') ?? undefined;
+    const after = params.get('after') ?? undefined;
+    if (before && after) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'Use either before or after, not both' },
+        { status: 400 }
+      );
+    }
+    const page = await listMessages(sessionId, { limit, before, after });
+    const first = page.messages[0];
+    const last = page.messages[page.messages.length - 1];
     return NextResponse.json({
-      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      messages: page.messages.map((m) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        createdAt: m.createdAt,
+        ...(m.toolCalls ? { toolCalls: m.toolCalls } : {}),
+        ...(m.citations ? { citations: m.citations } : {}),
+        ...(m.language ? { language: m.language } : {}),
+        ...(m.transcript ? { transcript: m.transcript } : {}),
+        ...(m.clarification ? { clarification: true } : {}),
+        ...(m.interruption ? { interruption: m.interruption } : {}),
+        ...(m.audioAssetId
+          ? { audioUrl: `/api/v1/sessions/${sessionId}/messages/${m.id}/audio` }
+          : {}),
+      })),
+      // Pass startCursor as ?before= for older messages, endCursor as ?after= for newer ones
+      pageInfo: {
+        hasOlder: page.hasOlder,
+        hasNewer: page.hasNewer,
+        startCursor: first?.id ?? null,
+        endCursor: last?.id ?? null,
+      },
     });
-  });
+  }, { scope: 'sessions:read' });
+}
+
+/**
+ * Text turn: body `{ "text": "..." }`. Runs the same history, LLM and
+ * persistence path as a voice turn; `?tts=true` also returns the reply as
+ * base64 audio, shaped by `format`, `sampleRate`, `voice`, `speed` and `hd`.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ sessionId: string }> }
+) {
+  return withAuth(req, async (request, user) => {
+    const { sessionId } = await context.params;
+    const session = await getSession(sessionId, user);
+    // Shared history is read-only; only the session's owner can add turns
+    if (!session || session.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'SESSION_NOT_FOUND', message: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    const body = await request.json().catch(() => null);
+    const text = typeof body?.text === 'string' ? body.text.trim() : '';
+    if (!text || text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: `text is required (max ${MAX_TEXT_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    const tts = ttsOptionsFromQuery(request.nextUrl.searchParams);
+    if (!tts.valid) {
+      return NextResponse.json({ error: 'VALIDATION_ERROR', message: tts.error }, { status: 400 });
+    }
+
+    const rateLimit = await enforceRequestLimits(user);
+    if (rateLimit && !rateLimit.allowed) return rateLimitExceeded(rateLimit);
+
+    const speak = request.nextUrl.searchParams.get('tts') === 'true';
+    try {
+      const turn = await completeTurn({
+        user,
+        sessionId,
+        userText: text,
+        channel: 'text',
+        speak,
+        tts: tts.options,
+      });
+      const res = NextResponse.json({
+        sessionId,
+        message: {
+          id: turn.assistantMessageId,
+          role: 'assistant',
+          content: turn.text,
+          ...(turn.toolCalls.length ? { toolCalls: turn.toolCalls } : {}),
+          ...(turn.citations.length ? { citations: turn.citations } : {}),
+        },
+        ...(turn.speech
+          ? {
+              audio: {
+                contentType: turn.speech.contentType,
+                data: turn.speech.audio.toString('base64'),
+              },
+            }
+          : {}),
+      });
+      return applyRateLimitHeaders(res, rateLimit);
+    } catch (error) {
+      console.error('[text] Error:', error instanceof Error ? error.stack : error);
+      const message = error instanceof Error ? error.message : 'Text turn failed';
+      emitTurnFailed(user, sessionId, 'text', { code: 'INTERNAL_SERVER_ERROR', message });
+      return NextResponse.json({ error: 'INTERNAL_SERVER_ERROR', message }, { status: 500 });
+    }
+  }, { scope: 'voice:converse' });
 }
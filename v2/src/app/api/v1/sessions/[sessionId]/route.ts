@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth } from '@/lib/auth-middleware';
-import { getSession } from '@/lib/conversation';
+import { deleteSession, getSession, toSessionSummary, updateSession } from '@/lib/conversation';
+import { isLanguageCode } from '@/lib/languages';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
 
 export async function GET(
   req: NextRequest,
@@ -8,7 +13,7 @@ export async function GET(
 ) {
   return withAuth(req, async (_req, user) => {
     const { sessionId } = await context.params;
-    const session = await getSession(sessionId, user.id);
+    const session = await getSession(sessionId, user);
     if (!session) {
       return NextResponse.json(
         { error: 'SESSION_NOT_FOUND', message: 'Session not found' },
@@ -17,11 +22,97 @@ export async function GET(
     }
     return NextResponse.json({
       session: {
-        id: session._id.toString(),
+        ...toSessionSummary(session),
         userId: session.userId,
-        createdAt: session.createdAt,
-        lastActivityAt: session.lastActivityAt,
+        orgId: session.orgId ?? null,
       },
     });
-  });
+  }, { scope: 'sessions:read' });
+}
+
+type SessionUpdate = { title?: string | null; tags?: string[]; archived?: boolean; language?: string | null };
+
+function validateSessionUpdate(
+  body: unknown
+): { valid: true; update: SessionUpdate } | { valid: false; error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, error: 'Request body must be a JSON object' };
+  }
+  const { title, tags, archived, language } = body as Record<string, unknown>;
+  const update: SessionUpdate = {};
+  if (title !== undefined) {
+    if (title !== null && (typeof title !== 'string' || title.length > MAX_TITLE_LENGTH)) {
+      return { valid: false, error: `title must be a string of at most ${MAX_TITLE_LENGTH} characters, or null` };
+    }
+    update.title = title === null ? null : title.trim();
+  }
+  if (tags !== undefined) {
+    if (
+      !Array.isArray(tags) ||
+      tags.length > MAX_TAGS ||
+      !tags.every((t) => typeof t === 'string' && t.trim() && t.length <= MAX_TAG_LENGTH)
+    ) {
+      return {
+        valid: false,
+        error: `tags must be an array of up to ${MAX_TAGS} non-empty strings (max ${MAX_TAG_LENGTH} characters each)`,
+      };
+    }
+    update.tags = Array.from(new Set(tags.map((t: string) => t.trim())));
+  }
+  if (archived !== undefined) {
+    if (typeof archived !== 'boolean') return { valid: false, error: 'archived must be a boolean' };
+    update.archived = archived;
+  }
+  if (language !== undefined) {
+    if (language !== null && !isLanguageCode(language)) {
+      return { valid: false, error: 'language must be an ISO 639-1 code such as "vi", or null to unlock' };
+    }
+    update.language = language;
+  }
+  if (!Object.keys(update).length) {
+    return { valid: false, error: 'Nothing to update: set title, tags, archived or language' };
+  }
+  return { valid: true, update };
+}
+
+/** Rename, tag, archive or lock the language of one of the caller's own sessions. */
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ sessionId: string }> }
+) {
+  return withAuth(req, async (request, user) => {
+    const { sessionId } = await context.params;
+    const result = validateSessionUpdate(await request.json().catch(() => null));
+    if (!result.valid) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: result.error },
+        { status: 400 }
+      );
+    }
+    const session = await updateSession(sessionId, user.id, result.update);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'SESSION_NOT_FOUND', message: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ session: toSessionSummary(session) });
+  }, { scope: 'sessions:write' });
+}
+
+/** Delete one of the caller's own sessions with its messages and stored audio. */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ sessionId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    const { sessionId } = await context.params;
+    if (!(await deleteSession(sessionId, user.id))) {
+      return NextResponse.json(
+        { error: 'SESSION_NOT_FOUND', message: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ deleted: true, sessionId });
+  }, { scope: 'sessions:write' });
 }
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth } from '@/lib/auth-middleware';
-import { createSession } from '@/lib/conversation';
+import { createSession, listSessions } from '@/lib/conversation';
+import { getAgentProfile } from '@/lib/agent-profiles';
+import { isLanguageCode } from '@/lib/languages';
 
 function isConnectionError(err: unknown): boolean {
   const msg = err instanceof Error ? err.message : String(err);
@@ -9,12 +11,64 @@ function isConnectionError(err: unknown): boolean {
   );
 }
 
+/** The caller's own sessions, most recently active first. */
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (request, user) => {
+    const params = request.nextUrl.searchParams;
+    const limit = Math.min(
+      parseInt(params.get('limit') ?? '20', 10) || 20,
+      100
+    );
+    const archivedParam = params.get('archived') ?? 'false';
+    if (!['true', 'false', 'all'].includes(archivedParam)) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'archived must be true, false or all' },
+        { status: 400 }
+      );
+    }
+    const archived = archivedParam === 'all' ? null : archivedParam === 'true';
+    const page = await listSessions(user, {
+      limit,
+      before: params.get('cursor') ?? undefined,
+      archived,
+    });
+    const last = page.sessions[page.sessions.length - 1];
+    return NextResponse.json({
+      sessions: page.sessions,
+      // Pass nextCursor as ?cursor= for the next page
+      pageInfo: { hasMore: page.hasMore, nextCursor: page.hasMore ? last.id : null },
+    });
+  }, { scope: 'sessions:read' });
+}
+
 export async function POST(req: NextRequest) {
-  return withAuth(req, async (_req, user) => {
+  return withAuth(req, async (request, user) => {
     try {
-      const sessionId = await createSession(user.id);
+      // The body is optional; `profileId` binds the session to an agent profile,
+      // `language` locks it to one language
+      const body = await request.json().catch(() => null);
+      const profileId = body?.profileId ?? null;
+      const language = body?.language ?? null;
+      if (language !== null && !isLanguageCode(language)) {
+        return NextResponse.json(
+          { error: 'VALIDATION_ERROR', message: 'language must be an ISO 639-1 code such as "vi"' },
+          { status: 400 }
+        );
+      }
+      if (profileId !== null) {
+        const profile = typeof profileId === 'string' ? await getAgentProfile(user.orgId, profileId) : null;
+        if (!profile) {
+          return NextResponse.json(
+            { error: 'PROFILE_NOT_FOUND', message: 'Agent profile not found' },
+            { status: 404 }
+          );
+        }
+      }
+      const sessionId = await createSession(user, profileId ? { profileId } : {}, { language });
       return NextResponse.json({
         sessionId,
+        profileId,
+        language,
         createdAt: new Date().toISOString(),
       });
     } catch (err) {
@@ -35,5 +89,5 @@ export async function POST(req: NextRequest) {
         { status: 500 }
       );
     }
-  });
+  }, { scope: 'sessions:write' });
 }
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { isOrgAdmin } from '@/lib/organizations';
+import { getUsageSummary, type UsageGroupBy } from '@/lib/usage';
+
+const GROUP_BY: UsageGroupBy[] = ['day', 'session', 'provider', 'user'];
+const DEFAULT_RANGE_DAYS = 30;
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (request, user) => {
+    const params = request.nextUrl.searchParams;
+    // ?org=true bills the whole organization (owners and admins only)
+    const orgWide = params.get('org') === 'true';
+    if (orgWide && !isOrgAdmin(user.orgRole)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Only organization owners and admins can view organization usage' },
+        { status: 403 }
+      );
+    }
+    const groupBy = (params.get('groupBy') ?? 'day') as UsageGroupBy;
+    if (!GROUP_BY.includes(groupBy)) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: `groupBy must be one of: ${GROUP_BY.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const from = parseDate(params.get('from'));
+    const to = parseDate(params.get('to'));
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'from and to must be ISO 8601 dates' },
+        { status: 400 }
+      );
+    }
+    const end = to ?? new Date();
+    const start = from ?? new Date(end.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    const summary = await getUsageSummary(orgWide ? { orgId: user.orgId } : { userId: user.id }, {
+      from: start,
+      to: end,
+      groupBy,
+    });
+    return NextResponse.json({
+      ...(orgWide ? { orgId: user.orgId } : {}),
+      from: start.toISOString(),
+      to: end.toISOString(),
+      groupBy,
+      ...summary,
+    });
+  }, { scope: 'usage:read' });
+}
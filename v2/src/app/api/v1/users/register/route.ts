@@ -1,19 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createUser } from '@/lib/auth';
+import { normalizeEmail } from '@/lib/email';
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const email = body?.email;
-    if (!email || typeof email !== 'string') {
+    const email = typeof body?.email === 'string' ? normalizeEmail(body.email) : '';
+    if (!email) {
       return NextResponse.json(
         { error: 'VALIDATION_ERROR', message: 'Email is required' },
         { status: 400 }
       );
     }
-    const { userId, apiKey } = await createUser(email);
+    const organizationName = body?.organizationName;
+    if (
+      organizationName !== undefined &&
+      (typeof organizationName !== 'string' || !organizationName.trim() || organizationName.length > 100)
+    ) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'organizationName must be 1-100 characters' },
+        { status: 400 }
+      );
+    }
+    const { userId, orgId, apiKey } = await createUser(email, organizationName?.trim());
     return NextResponse.json({
       userId,
+      orgId,
       apiKey,
       message:
         'API key created. Save this key securely - it will not be shown again.',
@@ -2,15 +2,62 @@ import { NextRequest, NextResponse } from 'next/server';
 import { writeFile, unlink } from 'fs/promises';
 import path from 'path';
 import os from 'os';
+import { randomBytes } from 'crypto';
 import { withAuth } from '@/lib/auth-middleware';
-import { getOrCreateSession, getConversationHistory, saveMessage } from '@/lib/conversation';
-import { validateAudio, prepareAudioForWhisper } from '@/lib/audio';
-import { transcribeAudio } from '@/lib/stt';
-import { synthesizeSpeech } from '@/lib/tts';
-import { generateResponse } from '@/lib/llm';
+import type { AuthUser } from '@/lib/auth';
+import { getOrCreateSession, getSessionLanguage, getSessionProfileId } from '@/lib/conversation';
+import {
+  AUDIO_ERROR_STATUS,
+  hasSpeech,
+  isAudioError,
+  prepareAudioForWhisper,
+  validateAudio,
+  type PreparedAudio,
+} from '@/lib/audio';
+import { assessTranscription, transcribeAudio, type TranscriptDetails } from '@/lib/stt';
+import { resolveAgent } from '@/lib/agent-profiles';
 import { retryWithBackoff } from '@/lib/errors';
+import { consumeAudioSeconds, enforceRequestLimits } from '@/lib/rate-limit';
+import { applyRateLimitHeaders, rateLimitExceeded } from '@/lib/rate-limit/http';
+import { completeTurn, emitTurnFailed } from '@/lib/turn';
+import { ttsOptionsFromQuery } from '@/lib/tts';
+import { recordFailedTurnUsage } from '@/lib/usage';
+
+type AudioDelivery = 'base64' | 'url';
+
+/**
+ * Clients that accept `application/json` get the whole turn as JSON; others
+ * get the reply audio as the body, as before.
+ */
+function wantsJson(req: NextRequest): boolean {
+  return (req.headers.get('accept') ?? '').includes('application/json');
+}
+
+// A recording that was transcribed but never became a turn is still paid for
+async function recordSttOnly(user: AuthUser, sessionId: string, audioSeconds: number, sttSeconds: number) {
+  await recordFailedTurnUsage(user, { sessionId, channel: 'voice', audioSeconds, sttSeconds }).catch((err) =>
+    console.error('[voice/conversation] Usage not recorded:', err)
+  );
+}
+
+async function handleConversation(req: NextRequest, user: AuthUser) {
+  const startedAt = Date.now();
+  const audioParam = req.nextUrl.searchParams.get('audio') ?? 'base64';
+  if (audioParam !== 'base64' && audioParam !== 'url') {
+    return NextResponse.json(
+      { error: 'VALIDATION_ERROR', message: 'audio must be base64 or url' },
+      { status: 400 }
+    );
+  }
+  const audioDelivery: AudioDelivery = audioParam;
+  const tts = ttsOptionsFromQuery(req.nextUrl.searchParams);
+  if (!tts.valid) {
+    return NextResponse.json({ error: 'VALIDATION_ERROR', message: tts.error }, { status: 400 });
+  }
+
+  const rateLimit = await enforceRequestLimits(user);
+  if (rateLimit && !rateLimit.allowed) return rateLimitExceeded(rateLimit);
 
-async function handleConversation(req: NextRequest, user: { id: string }) {
   const formData = await req.formData();
   const audioFile = formData.get('audio') as File | null;
   const sessionId = (formData.get('sessionId') as string) || null;
@@ -22,9 +69,13 @@ async function handleConversation(req: NextRequest, user: { id: string }) {
     );
   }
 
-  const tmpDir = os.tmpdir();
-  const safeName = (audioFile.name ?? 'audio').replace(/[^\w.-]/g, '_').slice(0, 50) || 'audio';
-  const tmpPath = path.join(tmpDir, `voice-${Date.now()}-${safeName}`);
+  // The client's file name is not used: the format is sniffed from the content
+  const tmpPath = path.join(os.tmpdir(), `voice-${Date.now()}-${randomBytes(4).toString('hex')}`);
+  // Set once the session is known, for turn.failed
+  let activeSessionId: string | null = null;
+  let audioSeconds = 0;
+  // STT seconds paid for; completeTurn records usage from there on, even when it fails
+  let unrecordedSttSeconds = 0;
 
   try {
     const bytes = await audioFile.arrayBuffer();
@@ -34,61 +85,131 @@ async function handleConversation(req: NextRequest, user: { id: string }) {
     if (!validation.valid) {
       await unlink(tmpPath).catch(() => {});
       return NextResponse.json(
-        { error: 'VALIDATION_ERROR', message: validation.error },
-        { status: 400 }
+        { error: validation.code, message: validation.error },
+        { status: AUDIO_ERROR_STATUS[validation.code] }
       );
     }
 
-    const activeSessionId = await getOrCreateSession(user.id, sessionId);
-    let preparedPath: string;
+    const audioLimit = await consumeAudioSeconds(user, validation.duration);
+    if (audioLimit) return rateLimitExceeded(audioLimit);
+    audioSeconds = validation.duration;
+
+    activeSessionId = await getOrCreateSession(user, sessionId);
+    const agent = await resolveAgent(user.orgId, await getSessionProfileId(activeSessionId));
+    // A session's language lock overrides the profile's STT hint
+    const lockedLanguage = await getSessionLanguage(activeSessionId);
+    const sttOptions = lockedLanguage ? { ...agent.stt, language: lockedLanguage } : agent.stt;
+    let prepared: PreparedAudio;
     try {
-      preparedPath = await prepareAudioForWhisper(tmpPath);
-      console.log('[voice] Audio prepared for Whisper');
+      prepared = await prepareAudioForWhisper(tmpPath);
+      console.log(
+        `[voice] Audio prepared for Whisper: ${prepared.speechSeconds}s speech, ${prepared.trimmedSeconds}s silence trimmed`
+      );
     } catch (e) {
+      if (!isAudioError(e)) throw e;
       await unlink(tmpPath).catch(() => {});
+      return NextResponse.json({ error: e.code, message: e.message }, { status: AUDIO_ERROR_STATUS[e.code] });
+    }
+
+    const preprocessMs = Date.now() - startedAt;
+    // Speech-free clips are rejected before paying for STT
+    if (!hasSpeech(prepared)) {
+      await unlink(prepared.path).catch(() => {});
       return NextResponse.json(
-        {
-          error: 'VALIDATION_ERROR',
-          message: e instanceof Error ? e.message : 'Audio conversion failed',
-        },
+        { error: 'VALIDATION_ERROR', message: 'No speech detected in audio' },
         { status: 400 }
       );
     }
-
+    const sttStartedAt = Date.now();
     let transcript: string;
+    let language: string | null;
+    let details: TranscriptDetails;
+    const sttSeconds = prepared.durationSeconds;
     try {
-      transcript = await retryWithBackoff(() => transcribeAudio(preparedPath), 2);
+      const transcription = await retryWithBackoff(() => transcribeAudio(prepared.path, sttOptions), 2);
+      transcript = transcription.text;
+      language = lockedLanguage ?? transcription.language;
+      details = assessTranscription(transcription);
+      unrecordedSttSeconds = sttSeconds;
       console.log('[voice] STT done:', transcript?.slice(0, 60) + (transcript?.length > 60 ? '...' : ''));
     } finally {
-      await unlink(preparedPath).catch(() => {});
+      await unlink(prepared.path).catch(() => {});
     }
+    const sttMs = Date.now() - sttStartedAt;
 
     if (!transcript?.trim()) {
+      await recordSttOnly(user, activeSessionId, audioSeconds, unrecordedSttSeconds);
       return NextResponse.json(
         { error: 'VALIDATION_ERROR', message: 'No speech detected in audio' },
         { status: 400 }
       );
     }
 
-    const history = await getConversationHistory(activeSessionId, 20);
-    const responseText = await retryWithBackoff(
-      () => generateResponse(transcript, history),
-      2
-    );
-    console.log('[voice] LLM done');
-    const audio = await retryWithBackoff(() => synthesizeSpeech(responseText), 2);
-    console.log('[voice] TTS done');
-
-    await saveMessage(activeSessionId, 'user', transcript);
-    await saveMessage(activeSessionId, 'assistant', responseText);
-
-    return new NextResponse(audio, {
-      headers: {
-        'Content-Type': 'audio/mpeg',
-        'X-Session-Id': activeSessionId,
-        'X-Transcript': transcript,
+    unrecordedSttSeconds = 0;
+    const turn = await completeTurn({
+      user,
+      sessionId: activeSessionId,
+      userText: transcript,
+      channel: 'voice',
+      speak: true,
+      tts: tts.options,
+      language,
+      transcript: details,
+      agent,
+      inputAudio: { data: Buffer.from(bytes), contentType: validation.mimeType },
+      audioSeconds: validation.duration,
+      sttSeconds,
+    });
+    const { speech } = turn;
+    if (!speech) throw new Error('Speech synthesis returned no audio');
+
+    if (!wantsJson(req)) {
+      // Header values must be ASCII, so the transcript is percent-encoded
+      const res = new NextResponse(new Uint8Array(speech.audio), {
+        headers: {
+          'Content-Type': speech.contentType,
+          'X-Session-Id': activeSessionId,
+          'X-Transcript': encodeURIComponent(transcript),
+        },
+      });
+      return applyRateLimitHeaders(res, rateLimit);
+    }
+
+    // A URL is only possible when the reply audio was stored
+    const audio =
+      audioDelivery === 'url' && turn.outputAssetId
+        ? {
+            contentType: speech.contentType,
+            url: `/api/v1/sessions/${activeSessionId}/messages/${turn.assistantMessageId}/audio`,
+          }
+        : { contentType: speech.contentType, data: speech.audio.toString('base64') };
+    const res = NextResponse.json({
+      sessionId: activeSessionId,
+      transcript,
+      language: turn.language,
+      input: {
+        durationSeconds: validation.duration,
+        speechSeconds: prepared.speechSeconds,
+        trimmedSeconds: prepared.trimmedSeconds,
+      },
+      userMessage: { id: turn.userMessageId, role: 'user', content: transcript, transcript: details },
+      message: {
+        id: turn.assistantMessageId,
+        role: 'assistant',
+        content: turn.text,
+        ...(turn.toolCalls.length ? { toolCalls: turn.toolCalls } : {}),
+        ...(turn.citations.length ? { citations: turn.citations } : {}),
+        ...(turn.clarification ? { clarification: true } : {}),
+      },
+      audio,
+      timings: {
+        preprocessMs,
+        sttMs,
+        ...turn.timings,
+        totalMs: Date.now() - startedAt,
       },
     });
+    return applyRateLimitHeaders(res, rateLimit);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Voice conversation failed';
     const status =
@@ -97,18 +218,15 @@ async function handleConversation(req: NextRequest, user: { id: string }) {
         : 500;
     // Log full error so you can see the cause in the terminal
     console.error('[voice/conversation] Error:', error instanceof Error ? error.stack : error);
-    return NextResponse.json(
-      {
-        error: status === 429 ? 'RATE_LIMIT_EXCEEDED' : 'INTERNAL_SERVER_ERROR',
-        message,
-      },
-      { status }
-    );
+    const code = status === 429 ? 'RATE_LIMIT_EXCEEDED' : 'INTERNAL_SERVER_ERROR';
+    if (activeSessionId) await recordSttOnly(user, activeSessionId, audioSeconds, unrecordedSttSeconds);
+    emitTurnFailed(user, activeSessionId, 'voice', { code, message });
+    return NextResponse.json({ error: code, message }, { status });
   } finally {
     await unlink(tmpPath).catch(() => {});
   }
 }
 
 export async function POST(req: NextRequest) {
-  return withAuth(req, handleConversation);
+  return withAuth(req, handleConversation, { scope: 'voice:converse' });
 }
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { getVoiceJob, toVoiceJobInfo } from '@/lib/voice-jobs';
+
+/** Status of a queued voice turn, with its result once completed. */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ jobId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    const { jobId } = await context.params;
+    const job = await getVoiceJob(user.id, jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'JOB_NOT_FOUND', message: 'Job not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ job: toVoiceJobInfo(job) });
+  }, { scope: 'voice:converse' });
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { writeFile, unlink } from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { randomBytes } from 'crypto';
+import { withAuth } from '@/lib/auth-middleware';
+import { getOrCreateSession } from '@/lib/conversation';
+import { AUDIO_ERROR_STATUS, validateAudio } from '@/lib/audio';
+import { consumeAudioSeconds, enforceRequestLimits, refundAudioSeconds } from '@/lib/rate-limit';
+import { applyRateLimitHeaders, rateLimitExceeded } from '@/lib/rate-limit/http';
+import { ttsOptionsFromQuery } from '@/lib/tts';
+import { createVoiceJob, jobAudioLimits, toVoiceJobInfo, type VoiceJobDoc } from '@/lib/voice-jobs';
+import { generateWebhookSecret, validateWebhookSecret, validateWebhookUrl } from '@/lib/webhooks';
+
+/**
+ * Queue a voice turn (FormData: `audio`, optional `sessionId`, `webhookUrl`
+ * and `webhookSecret`) and return its job at once. `?tts=true` also speaks
+ * the reply, shaped by `format`, `sampleRate`, `voice`, `speed` and `hd`.
+ * Without `webhookSecret`, one is generated and returned once.
+ */
+export async function POST(req: NextRequest) {
+  return withAuth(req, async (request, user) => {
+    const params = request.nextUrl.searchParams;
+    const tts = ttsOptionsFromQuery(params);
+    if (!tts.valid) {
+      return NextResponse.json({ error: 'VALIDATION_ERROR', message: tts.error }, { status: 400 });
+    }
+
+    const rateLimit = await enforceRequestLimits(user);
+    if (rateLimit && !rateLimit.allowed) return rateLimitExceeded(rateLimit);
+
+    const formData = await request.formData().catch(() => null);
+    const audioFile = formData?.get('audio');
+    if (!audioFile || typeof audioFile === 'string' || !audioFile.size) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: 'Audio file is required' },
+        { status: 400 }
+      );
+    }
+    const sessionId = formData?.get('sessionId');
+    const webhookUrl = formData?.get('webhookUrl');
+    const webhookSecret = formData?.get('webhookSecret');
+    let webhook: { url: string; secret: string } | null = null;
+    let generatedSecret: string | null = null;
+    if (webhookUrl) {
+      const url = validateWebhookUrl(webhookUrl);
+      if (!url.valid) {
+        return NextResponse.json({ error: 'VALIDATION_ERROR', message: url.error }, { status: 400 });
+      }
+      if (webhookSecret) {
+        const secret = validateWebhookSecret(webhookSecret);
+        if (!secret.valid) {
+          return NextResponse.json({ error: 'VALIDATION_ERROR', message: secret.error }, { status: 400 });
+        }
+        webhook = { url: url.url, secret: secret.secret };
+      } else {
+        generatedSecret = generateWebhookSecret();
+        webhook = { url: url.url, secret: generatedSecret };
+      }
+    }
+
+    const data = Buffer.from(await audioFile.arrayBuffer());
+    const tmpPath = path.join(os.tmpdir(), `voice-job-upload-${Date.now()}-${randomBytes(4).toString('hex')}`);
+    try {
+      await writeFile(tmpPath, data);
+      const validation = await validateAudio(tmpPath, jobAudioLimits());
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: validation.code, message: validation.error },
+          { status: AUDIO_ERROR_STATUS[validation.code] }
+        );
+      }
+      const audioLimit = await consumeAudioSeconds(user, validation.duration);
+      if (audioLimit) return rateLimitExceeded(audioLimit);
+
+      let job: VoiceJobDoc;
+      try {
+        const activeSessionId = await getOrCreateSession(user, typeof sessionId === 'string' ? sessionId : null);
+        job = await createVoiceJob({
+          user,
+          sessionId: activeSessionId,
+          audio: { data, contentType: validation.mimeType, durationSeconds: validation.duration },
+          tts: params.get('tts') === 'true' ? tts.options : null,
+          webhook,
+        });
+      } catch (err) {
+        // Nothing was queued, so the audio is not charged
+        await refundAudioSeconds(user, validation.duration).catch(() => {});
+        throw err;
+      }
+      const res = NextResponse.json(
+        { job: toVoiceJobInfo(job), ...(generatedSecret ? { webhookSecret: generatedSecret } : {}) },
+        { status: 202, headers: { Location: `/api/v1/voice/jobs/${job._id}` } }
+      );
+      return applyRateLimitHeaders(res, rateLimit);
+    } finally {
+      await unlink(tmpPath).catch(() => {});
+    }
+  }, { scope: 'voice:converse' });
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { isOrgAdmin } from '@/lib/organizations';
+import { getWebhookEndpoint, replayWebhookDelivery, toWebhookDeliveryInfo } from '@/lib/webhooks';
+
+/**
+ * Send a delivery's event again, e.g. after the receiver was down. Returns
+ * the new delivery at once; its outcome shows up in the delivery log.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ webhookId: string; deliveryId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    if (!isOrgAdmin(user.orgRole)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Only organization owners and admins can manage webhooks' },
+        { status: 403 }
+      );
+    }
+    const { webhookId, deliveryId } = await context.params;
+    const endpoint = await getWebhookEndpoint(user.orgId, webhookId);
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'WEBHOOK_NOT_FOUND', message: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+    const delivery = await replayWebhookDelivery(endpoint, deliveryId);
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'DELIVERY_NOT_FOUND', message: 'Delivery not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ delivery: toWebhookDeliveryInfo(delivery) }, { status: 202 });
+  }, { scope: 'webhooks:write' });
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { isOrgAdmin } from '@/lib/organizations';
+import { getWebhookEndpoint, listWebhookDeliveries, type WebhookDeliveryStatus } from '@/lib/webhooks';
+
+const STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'failed'];
+
+/** An endpoint's delivery log, newest first (`?limit=20&cursor=&status=`). */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ webhookId: string }> }
+) {
+  return withAuth(req, async (request, user) => {
+    if (!isOrgAdmin(user.orgRole)) {
+      return NextResponse.json(
+        { error: 'FORBIDDEN', message: 'Only organization owners and admins can manage webhooks' },
+        { status: 403 }
+      );
+    }
+    const { webhookId } = await context.params;
+    const params = request.nextUrl.searchParams;
+    const status = params.get('status');
+    if (status !== null && !STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: `status must be one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const endpoint = await getWebhookEndpoint(user.orgId, webhookId);
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'WEBHOOK_NOT_FOUND', message: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+    const limit = Math.min(
+      parseInt(params.get('limit') ?? '20', 10) || 20,
+      100
+    );
+    const page = await listWebhookDeliveries(endpoint, {
+      limit,
+      before: params.get('cursor') ?? undefined,
+      status: (status as WebhookDeliveryStatus | null) ?? undefined,
+    });
+    const last = page.deliveries[page.deliveries.length - 1];
+    return NextResponse.json({
+      deliveries: page.deliveries,
+      // Pass nextCursor as ?cursor= for the next page
+      pageInfo: { hasMore: page.hasMore, nextCursor: page.hasMore ? last.id : null },
+    });
+  }, { scope: 'webhooks:read' });
+}
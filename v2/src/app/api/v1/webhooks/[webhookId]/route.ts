@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { isOrgAdmin } from '@/lib/organizations';
+import {
+  deleteWebhookEndpoint,
+  getWebhookEndpoint,
+  toWebhookEndpointInfo,
+  updateWebhookEndpoint,
+  validateWebhookEndpoint,
+} from '@/lib/webhooks';
+
+function adminsOnly() {
+  return NextResponse.json(
+    { error: 'FORBIDDEN', message: 'Only organization owners and admins can manage webhooks' },
+    { status: 403 }
+  );
+}
+
+function webhookNotFound() {
+  return NextResponse.json(
+    { error: 'WEBHOOK_NOT_FOUND', message: 'Webhook not found' },
+    { status: 404 }
+  );
+}
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ webhookId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    if (!isOrgAdmin(user.orgRole)) return adminsOnly();
+    const { webhookId } = await context.params;
+    const endpoint = await getWebhookEndpoint(user.orgId, webhookId);
+    if (!endpoint) return webhookNotFound();
+    return NextResponse.json({ webhook: toWebhookEndpointInfo(endpoint) });
+  }, { scope: 'webhooks:read' });
+}
+
+/** Partial update of `url`, `events`, `description`, `enabled` or `secret`. */
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ webhookId: string }> }
+) {
+  return withAuth(req, async (request, user) => {
+    if (!isOrgAdmin(user.orgRole)) return adminsOnly();
+    const { webhookId } = await context.params;
+    const body = await request.json().catch(() => null);
+    const validation = validateWebhookEndpoint(body, { partial: true });
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: validation.error },
+        { status: 400 }
+      );
+    }
+    const endpoint = await updateWebhookEndpoint(user.orgId, webhookId, validation.endpoint);
+    if (!endpoint) return webhookNotFound();
+    return NextResponse.json({ webhook: toWebhookEndpointInfo(endpoint) });
+  }, { scope: 'webhooks:write' });
+}
+
+/** Deletes the endpoint and its delivery log. */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ webhookId: string }> }
+) {
+  return withAuth(req, async (_req, user) => {
+    if (!isOrgAdmin(user.orgRole)) return adminsOnly();
+    const { webhookId } = await context.params;
+    if (!(await deleteWebhookEndpoint(user.orgId, webhookId))) return webhookNotFound();
+    return NextResponse.json({ deleted: true, id: webhookId });
+  }, { scope: 'webhooks:write' });
+}
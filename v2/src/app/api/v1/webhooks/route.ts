@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-middleware';
+import { isOrgAdmin } from '@/lib/organizations';
+import {
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  toWebhookEndpointInfo,
+  validateWebhookEndpoint,
+} from '@/lib/webhooks';
+
+// Webhooks carry every member's conversations, so only owners and admins manage them
+function adminsOnly() {
+  return NextResponse.json(
+    { error: 'FORBIDDEN', message: 'Only organization owners and admins can manage webhooks' },
+    { status: 403 }
+  );
+}
+
+/** Webhook endpoints of the caller's organization. */
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (_req, user) => {
+    if (!isOrgAdmin(user.orgRole)) return adminsOnly();
+    const webhooks = await listWebhookEndpoints(user.orgId);
+    return NextResponse.json({ webhooks });
+  }, { scope: 'webhooks:read' });
+}
+
+/**
+ * Subscribe a URL to events; body: `{ url, events, description?, enabled?,
+ * secret? }`. The signing secret (generated unless given) is returned once.
+ */
+export async function POST(req: NextRequest) {
+  return withAuth(req, async (request, user) => {
+    if (!isOrgAdmin(user.orgRole)) return adminsOnly();
+    const body = await request.json().catch(() => null);
+    const validation = validateWebhookEndpoint(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'VALIDATION_ERROR', message: validation.error },
+        { status: 400 }
+      );
+    }
+    const { url, events, ...rest } = validation.endpoint;
+    const endpoint = await createWebhookEndpoint(user.orgId, user.id, { url: url!, events: events!, ...rest });
+    return NextResponse.json(
+      { webhook: toWebhookEndpointInfo(endpoint), secret: endpoint.secret },
+      { status: 201 }
+    );
+  }, { scope: 'webhooks:write' });
+}
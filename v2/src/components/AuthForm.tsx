@@ -11,6 +11,7 @@ interface AuthFormProps {
 export default function AuthForm({ onSuccess }: AuthFormProps) {
   const [mode, setMode] = useState<Mode>('login');
   const [email, setEmail] = useState('');
+  const [organizationName, setOrganizationName] = useState('');
   const [apiKeyInput, setApiKeyInput] = useState('');
   const [apiKeyNew, setApiKeyNew] = useState('');
   const [loading, setLoading] = useState(false);
@@ -22,9 +23,10 @@ export default function AuthForm({ onSuccess }: AuthFormProps) {
     setLoading(true);
     try {
       const { register } = await import('@/lib/api-client');
-      const { apiKey } = await register(email);
+      const { apiKey } = await register(email, organizationName.trim());
       setApiKeyNew(apiKey);
       setEmail('');
+      setOrganizationName('');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Registration failed');
     } finally {
@@ -119,6 +121,16 @@ export default function AuthForm({ onSuccess }: AuthFormProps) {
               required
             />
           </label>
+          <label>
+            Organization (optional)
+            <input
+              type="text"
+              placeholder="Acme Finance"
+              value={organizationName}
+              onChange={(e) => setOrganizationName(e.target.value)}
+              maxLength={100}
+            />
+          </label>
           <button type="submit" className="btn btn-primary" disabled={loading}>
             {loading ? 'Creating…' : 'Register'}
           </button>
@@ -3,10 +3,74 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import {
   createSession,
+  deleteSession,
   getMessages,
+  interruptMessage,
+  listSessions,
+  openVoiceStream,
+  sendText,
   sendVoice,
+  updateSession,
   type ChatMessage,
+  type SessionSummary,
+  type VoiceStream,
+  type VoiceStreamHandlers,
 } from '@/lib/api-client';
+import { createSpeechDetector, type SpeechDetectorHandlers } from '@/lib/speech-detector';
+
+/** Opus is smaller than MP3; used where the browser can play it. */
+function preferredReplyFormat(): string | undefined {
+  if (typeof Audio === 'undefined') return undefined;
+  return new Audio().canPlayType('audio/ogg; codecs=opus') ? 'opus' : undefined;
+}
+
+/** The start of `text`, in proportion to how much of its audio has played, cut at a word. */
+function heardPart(text: string, audio: HTMLAudioElement): string {
+  if (audio.ended) return text;
+  const fraction = Number.isFinite(audio.duration) && audio.duration > 0 ? audio.currentTime / audio.duration : 0;
+  const cut = text.lastIndexOf(' ', Math.round(text.length * fraction));
+  return cut > 0 ? text.slice(0, cut) : '';
+}
+
+/**
+ * A spoken message shows words speech recognition was unsure of highlighted;
+ * an interrupted reply shows the part the user did not hear dimmed.
+ */
+function MessageContent({ message }: { message: ChatMessage }) {
+  const heard = message.interruption?.heardText;
+  if (heard != null && message.content.startsWith(heard)) {
+    return (
+      <p className="message-content" title="Interrupted">
+        {heard}
+        <span className="message-unheard">{message.content.slice(heard.length)}</span>
+      </p>
+    );
+  }
+  const words = message.transcript?.words;
+  if (!words?.some((w) => w.uncertain)) {
+    return <p className="message-content">{message.content}</p>;
+  }
+  const confidence = message.transcript?.confidence;
+  return (
+    <p
+      className="message-content"
+      title={confidence != null ? `Recognition confidence ${Math.round(confidence * 100)}%` : undefined}
+    >
+      {words.map((w, i) => (
+        <span key={i}>
+          {i > 0 && ' '}
+          {w.uncertain ? (
+            <mark className="word-uncertain" title={`Heard at ${w.start.toFixed(1)}s; may be wrong`}>
+              {w.word}
+            </mark>
+          ) : (
+            w.word
+          )}
+        </span>
+      ))}
+    </p>
+  );
+}
 
 interface VoiceChatProps {
   apiKey: string;
@@ -15,22 +79,62 @@ interface VoiceChatProps {
 
 export default function VoiceChat({ apiKey, onLogout }: VoiceChatProps) {
   const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [status, setStatus] = useState<'idle' | 'recording' | 'sending' | 'playing'>('idle');
   const [error, setError] = useState('');
   const [recording, setRecording] = useState<MediaRecorder | null>(null);
+  const [streaming, setStreaming] = useState(true);
+  const [liveTranscript, setLiveTranscript] = useState('');
+  const [liveResponse, setLiveResponse] = useState('');
+  const [textInput, setTextInput] = useState('');
+  const [speakReplies, setSpeakReplies] = useState(true);
+  const [handsFree, setHandsFree] = useState(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Streaming mode plays sentence-sized audio chunks back to back as they arrive
+  const audioQueueRef = useRef<{ audio: Blob; text: string }[]>([]);
+  const playingRef = useRef(false);
+  const streamDoneRef = useRef(true);
+  // What is playing and what was already heard of the current reply, for barge-in
+  const playingTextRef = useRef('');
+  const heardRef = useRef('');
+  const interruptedRef = useRef(false);
+  const lastReplyRef = useRef<{ sessionId: string; messageId: string | null } | null>(null);
+  const activeStreamRef = useRef<VoiceStream | null>(null);
+  // Hands-free mode keeps the microphone open and lets the speech detector drive recording
+  const micRef = useRef<MediaStream | null>(null);
+  const speechHandlersRef = useRef<SpeechDetectorHandlers | null>(null);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      const list = await listSessions(apiKey);
+      setSessions(list);
+      return list;
+    } catch {
+      // Non-fatal: the sidebar just stays as it was
+      return null;
+    }
+  }, [apiKey]);
 
   const loadSession = useCallback(async () => {
     try {
       const id = await createSession(apiKey);
       setSessionId(id);
+      setMessages([]);
+      refreshSessions();
       return id;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create session');
       return null;
     }
-  }, [apiKey]);
+  }, [apiKey, refreshSessions]);
+
+  // Continue the most recent conversation, or start the first one
+  const initSession = useCallback(async () => {
+    const list = await refreshSessions();
+    if (list?.length) setSessionId(list[0].id);
+    else await loadSession();
+  }, [refreshSessions, loadSession]);
 
   const loadMessages = useCallback(async () => {
     if (!sessionId) return;
@@ -43,13 +147,84 @@ export default function VoiceChat({ apiKey, onLogout }: VoiceChatProps) {
   }, [apiKey, sessionId]);
 
   useEffect(() => {
-    loadSession();
-  }, [loadSession]);
+    initSession();
+  }, [initSession]);
 
   useEffect(() => {
     if (sessionId) loadMessages();
   }, [sessionId, loadMessages]);
 
+  // After a turn: reload messages, and the sidebar for the new order and title
+  function refreshChat() {
+    loadMessages();
+    refreshSessions();
+  }
+
+  function finishStreamingTurn() {
+    setLiveTranscript('');
+    setLiveResponse('');
+    // After a barge-in the user is already being recorded for the next turn
+    setStatus((s) => (s === 'recording' ? s : 'idle'));
+    refreshChat();
+  }
+
+  function playNextChunk() {
+    const next = audioQueueRef.current.shift();
+    if (!next) {
+      playingRef.current = false;
+      if (streamDoneRef.current) finishStreamingTurn();
+      return;
+    }
+    playingRef.current = true;
+    setStatus('playing');
+    playingTextRef.current = next.text;
+    const url = URL.createObjectURL(next.audio);
+    const audioEl = new Audio(url);
+    audioRef.current = audioEl;
+    const advance = () => {
+      URL.revokeObjectURL(url);
+      heardRef.current = heardRef.current ? `${heardRef.current} ${next.text}` : next.text;
+      playNextChunk();
+    };
+    audioEl.onended = advance;
+    audioEl.onerror = advance;
+    audioEl.play().catch(advance);
+  }
+
+  const streamHandlers: VoiceStreamHandlers = {
+    onPartialTranscript: (text) => setLiveTranscript(text),
+    onTranscript: (text, transcript) => {
+      setLiveTranscript('');
+      setMessages((prev) => [...prev, { role: 'user', content: text, transcript }]);
+    },
+    onResponseDelta: (text) => setLiveResponse((prev) => prev + text),
+    onAudioChunk: (audio, text) => {
+      // Sentences already on their way when the user barged in are dropped
+      if (interruptedRef.current) return;
+      audioQueueRef.current.push({ audio, text });
+      if (!playingRef.current) playNextChunk();
+    },
+  };
+
+  async function completeStream(run: () => Promise<{ sessionId: string; messageId: string | null }>) {
+    streamDoneRef.current = false;
+    heardRef.current = '';
+    interruptedRef.current = false;
+    lastReplyRef.current = null;
+    setStatus('sending');
+    setError('');
+    try {
+      const { sessionId: newId, messageId } = await run();
+      setSessionId(newId);
+      lastReplyRef.current = { sessionId: newId, messageId };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      streamDoneRef.current = true;
+      if (!playingRef.current) finishStreamingTurn();
+    }
+  }
+
   async function sendAudio(blob: Blob) {
     if (!sessionId) {
       const id = await loadSession();
@@ -59,28 +234,25 @@ export default function VoiceChat({ apiKey, onLogout }: VoiceChatProps) {
     const sid = sessionId || (await loadSession()) || '';
     if (!sid) return;
 
+    if (streaming) {
+      await completeStream(async () => {
+        const result = await sendVoice(apiKey, blob, sid, { stream: true, handlers: streamHandlers });
+        return { sessionId: result.sessionId, messageId: result.messages[1]?.id ?? null };
+      });
+      return;
+    }
+
     setStatus('sending');
     setError('');
     try {
-      const { audio, transcript, sessionId: newId } = await sendVoice(apiKey, blob, sid);
+      const { audio, reply, messages: turn, sessionId: newId } = await sendVoice(apiKey, blob, sid, {
+        format: preferredReplyFormat(),
+      });
       setSessionId(newId);
-      setMessages((prev) => [...prev, { role: 'user', content: transcript }]);
-
-      const url = URL.createObjectURL(audio);
-      const audioEl = new Audio(url);
-      audioRef.current = audioEl;
-      setStatus('playing');
-      audioEl.onended = () => {
-        URL.revokeObjectURL(url);
-        setStatus('idle');
-        loadMessages();
-      };
-      audioEl.onerror = () => {
-        URL.revokeObjectURL(url);
-        setStatus('idle');
-        loadMessages();
-      };
-      await audioEl.play();
+      setMessages((prev) => [...prev, ...turn]);
+      lastReplyRef.current = { sessionId: newId, messageId: turn[1]?.id ?? null };
+      if (!audio) return;
+      await playReply(audio, reply);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Request failed');
       setStatus('idle');
@@ -89,24 +261,147 @@ export default function VoiceChat({ apiKey, onLogout }: VoiceChatProps) {
     }
   }
 
-  async function startRecording() {
+  async function playReply(audio: Blob, text: string) {
+    const url = URL.createObjectURL(audio);
+    const audioEl = new Audio(url);
+    audioRef.current = audioEl;
+    playingTextRef.current = text;
+    heardRef.current = '';
+    setStatus('playing');
+    audioEl.onended = () => {
+      URL.revokeObjectURL(url);
+      setStatus('idle');
+      refreshChat();
+    };
+    audioEl.onerror = () => {
+      URL.revokeObjectURL(url);
+      setStatus('idle');
+      refreshChat();
+    };
+    await audioEl.play();
+  }
+
+  async function handleSendText(e: React.FormEvent) {
+    e.preventDefault();
+    const text = textInput.trim();
+    if (!text) return;
+    const sid = sessionId || (await loadSession());
+    if (!sid) return;
+
+    setTextInput('');
+    setStatus('sending');
     setError('');
+    setMessages((prev) => [...prev, { role: 'user', content: text }]);
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const recorder = new MediaRecorder(stream);
-      const chunks: BlobPart[] = [];
-      recorder.ondataavailable = (e) => {
-        if (e.data.size) chunks.push(e.data);
+      const { audio, reply, messageId } = await sendText(apiKey, sid, text, { tts: speakReplies });
+      lastReplyRef.current = { sessionId: sid, messageId };
+      if (audio) await playReply(audio, reply);
+      else refreshChat();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      setStatus('idle');
+    } finally {
+      setStatus((s) => (s === 'sending' ? 'idle' : s));
+    }
+  }
+
+  function selectSession(id: string) {
+    if (id === sessionId || status !== 'idle') return;
+    setError('');
+    setMessages([]);
+    setSessionId(id);
+  }
+
+  async function handleRename(session: SessionSummary) {
+    const title = window.prompt('Conversation title', session.title ?? '');
+    if (title === null) return;
+    try {
+      await updateSession(apiKey, session.id, { title: title.trim() || null });
+      refreshSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Rename failed');
+    }
+  }
+
+  async function handleDelete(session: SessionSummary) {
+    if (!window.confirm(`Delete "${session.title || 'Untitled'}" and all its messages?`)) return;
+    try {
+      await deleteSession(apiKey, session.id);
+      if (session.id !== sessionId) {
+        refreshSessions();
+        return;
+      }
+      setMessages([]);
+      setSessionId(null);
+      await initSession();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Delete failed');
+    }
+  }
+
+  /**
+   * Record one utterance. Hands-free mode passes its open microphone, which
+   * stays open afterwards; otherwise the microphone is opened for this recording.
+   */
+  async function startRecording(mic?: MediaStream) {
+    setError('');
+    let stream: MediaStream | null = mic ?? null;
+    let recorder: MediaRecorder | null = null;
+    let voiceStream: VoiceStream | null = null;
+    try {
+      stream ??= await navigator.mediaDevices.getUserMedia({ audio: true });
+      const input = stream;
+      const chunks: Blob[] = [];
+      const active = new MediaRecorder(input);
+      recorder = active;
+      active.ondataavailable = (e) => {
+        if (!e.data.size) return;
+        if (voiceStream) voiceStream.sendChunk(e.data);
+        else chunks.push(e.data);
       };
-      recorder.onstop = () => {
-        stream.getTracks().forEach((t) => t.stop());
+      active.onstop = () => {
+        if (!mic) input.getTracks().forEach((t) => t.stop());
+        if (voiceStream) {
+          const turnStream = voiceStream;
+          completeStream(async () => {
+            const result = await turnStream.stop();
+            return { sessionId: result.sessionId, messageId: result.messageId };
+          }).finally(() => {
+            turnStream.close();
+            if (activeStreamRef.current === turnStream) activeStreamRef.current = null;
+          });
+          return;
+        }
+        // Also covers utterances that ended before the voice stream was open
         const blob = new Blob(chunks, { type: 'audio/webm' });
         if (blob.size > 0) sendAudio(blob);
       };
-      recorder.start();
-      setRecording(recorder);
+      // Record straight away (the user may already be talking) and connect meanwhile.
+      // In streaming mode, emit a chunk every 250 ms so the server can transcribe as we go
+      active.start(streaming ? 250 : undefined);
+      setRecording(active);
       setStatus('recording');
+      if (streaming) {
+        const opened = await openVoiceStream(apiKey, sessionId, streamHandlers);
+        if (active.state === 'inactive') {
+          opened.close();
+          return;
+        }
+        setSessionId(opened.sessionId);
+        // Audio recorded while connecting goes first
+        chunks.splice(0).forEach((chunk) => opened.sendChunk(chunk));
+        voiceStream = opened;
+        activeStreamRef.current = opened;
+      }
     } catch (err) {
+      voiceStream?.close();
+      if (recorder) {
+        recorder.onstop = null;
+        if (recorder.state !== 'inactive') recorder.stop();
+        setRecording(null);
+      }
+      if (stream && !mic) stream.getTracks().forEach((t) => t.stop());
+      setStatus('idle');
       setError(err instanceof Error ? err.message : 'Microphone access denied');
     }
   }
@@ -119,6 +414,74 @@ export default function VoiceChat({ apiKey, onLogout }: VoiceChatProps) {
     setStatus('idle');
   }
 
+  // The user talked over the reply: stop playback and tell the server how much was heard
+  function bargeIn() {
+    const audioEl = audioRef.current;
+    const playing = audioEl ? heardPart(playingTextRef.current, audioEl) : '';
+    const heard = [heardRef.current, playing].filter(Boolean).join(' ');
+    audioEl?.pause();
+    audioRef.current = null;
+    audioQueueRef.current = [];
+    playingRef.current = false;
+    interruptedRef.current = true;
+
+    const turnStream = activeStreamRef.current;
+    const reply = lastReplyRef.current;
+    if (turnStream) {
+      turnStream.interrupt(heard);
+    } else if (reply?.messageId) {
+      interruptMessage(apiKey, reply.sessionId, reply.messageId, heard)
+        .then(refreshChat)
+        .catch(() => {
+          // Non-fatal: the reply just stays marked as fully heard
+        });
+    }
+  }
+
+  function handleSpeechStart() {
+    const mic = micRef.current;
+    if (!mic || status === 'recording' || status === 'sending') return;
+    if (status === 'playing') bargeIn();
+    startRecording(mic);
+  }
+
+  function handleSpeechEnd() {
+    if (status === 'recording') stopRecording();
+  }
+
+  // Re-pointed on every render so the detector always sees the current state
+  speechHandlersRef.current = { onSpeechStart: handleSpeechStart, onSpeechEnd: handleSpeechEnd };
+
+  useEffect(() => {
+    if (!handsFree) return;
+    let cancelled = false;
+    let stopDetector: (() => void) | null = null;
+    navigator.mediaDevices
+      // Echo cancellation keeps the agent's own voice from triggering barge-in
+      .getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+      .then((mic) => {
+        if (cancelled) {
+          mic.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        micRef.current = mic;
+        stopDetector = createSpeechDetector(mic, {
+          onSpeechStart: () => speechHandlersRef.current?.onSpeechStart(),
+          onSpeechEnd: () => speechHandlersRef.current?.onSpeechEnd(),
+        }).stop;
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Microphone access denied');
+        setHandsFree(false);
+      });
+    return () => {
+      cancelled = true;
+      stopDetector?.();
+      micRef.current?.getTracks().forEach((t) => t.stop());
+      micRef.current = null;
+    };
+  }, [handsFree]);
+
   function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -127,92 +490,193 @@ export default function VoiceChat({ apiKey, onLogout }: VoiceChatProps) {
   }
 
   return (
-    <div className="chat-container">
-      <header className="chat-header">
-        <h1>Voice Agent</h1>
-        <button type="button" className="btn btn-ghost" onClick={onLogout}>
-          Logout
+    <div className="chat-layout">
+      <aside className="session-sidebar">
+        <button
+          type="button"
+          className="btn btn-primary"
+          onClick={() => loadSession()}
+          disabled={status !== 'idle'}
+        >
+          + New chat
         </button>
-      </header>
-
-      {error && (
-        <div className="chat-error">
-          <span>{error}</span>
-          <button
-            type="button"
-            className="btn btn-retry"
-            onClick={() => {
-              setError('');
-              loadSession();
-            }}
-          >
-            Retry
+        <ul className="session-list">
+          {sessions.map((s) => (
+            <li
+              key={s.id}
+              className={`session-item${s.id === sessionId ? ' active' : ''}`}
+              onClick={() => selectSession(s.id)}
+            >
+              <span className="session-title">{s.title || 'Untitled'}</span>
+              <span className="session-date">{new Date(s.lastActivityAt).toLocaleDateString()}</span>
+              <span className="session-item-actions">
+                <button
+                  type="button"
+                  title="Rename"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleRename(s);
+                  }}
+                >
+                  ✎
+                </button>
+                <button
+                  type="button"
+                  title="Delete"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(s);
+                  }}
+                >
+                  🗑
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      </aside>
+      <div className="chat-container">
+        <header className="chat-header">
+          <h1>Voice Agent</h1>
+          <button type="button" className="btn btn-ghost" onClick={onLogout}>
+            Logout
           </button>
-        </div>
-      )}
+        </header>
 
-      <div className="messages">
-        {messages.length === 0 && status === 'idle' && (
-          <div className="messages-empty">
-            Say something or upload an audio file to start.
+        {error && (
+          <div className="chat-error">
+            <span>{error}</span>
+            <button
+              type="button"
+              className="btn btn-retry"
+              onClick={() => {
+                setError('');
+                initSession();
+              }}
+            >
+              Retry
+            </button>
           </div>
         )}
-        {messages.map((m, i) => (
-          <div key={i} className={`message message-${m.role}`}>
-            <span className="message-role">{m.role === 'user' ? 'You' : 'Agent'}</span>
-            <p className="message-content">{m.content}</p>
-          </div>
-        ))}
-        {status === 'sending' && (
-          <div className="message message-assistant">
-            <span className="message-role">Agent</span>
-            <p className="message-content">Thinking… (transcribing, then generating reply — may take 30–60 seconds)</p>
-          </div>
-        )}
-        {status === 'playing' && (
-          <div className="message message-assistant">
-            <span className="message-role">Agent</span>
-            <p className="message-content">🔊 Playing response…</p>
-          </div>
-        )}
-      </div>
 
-      <div className="chat-actions">
-        {status !== 'recording' ? (
-          <button
-            type="button"
-            className="btn btn-mic"
-            onClick={startRecording}
-            disabled={status === 'sending' || status === 'playing'}
-            title="Hold to record"
-          >
-            🎤 Record
-          </button>
-        ) : (
-          <button
-            type="button"
-            className="btn btn-mic recording"
-            onClick={stopRecording}
-          >
-            ⏹ Stop
-          </button>
-        )}
-        <label className="btn btn-upload">
-          📁 Upload
+        <div className="messages">
+          {messages.length === 0 && status === 'idle' && (
+            <div className="messages-empty">
+              Say something, type a message or upload an audio file to start.
+            </div>
+          )}
+          {messages.map((m, i) => (
+            <div key={i} className={`message message-${m.role}`}>
+              <span className="message-role">{m.role === 'user' ? 'You' : 'Agent'}</span>
+              <MessageContent message={m} />
+            </div>
+          ))}
+          {liveTranscript && (
+            <div className="message message-user message-live">
+              <span className="message-role">You</span>
+              <p className="message-content">{liveTranscript}</p>
+            </div>
+          )}
+          {liveResponse && (
+            <div className="message message-assistant message-live">
+              <span className="message-role">Agent</span>
+              <p className="message-content">{liveResponse}</p>
+            </div>
+          )}
+          {status === 'sending' && !liveResponse && (
+            <div className="message message-assistant">
+              <span className="message-role">Agent</span>
+              <p className="message-content">Thinking… (generating reply — may take 30–60 seconds)</p>
+            </div>
+          )}
+          {status === 'playing' && !liveResponse && (
+            <div className="message message-assistant">
+              <span className="message-role">Agent</span>
+              <p className="message-content">🔊 Playing response…</p>
+            </div>
+          )}
+        </div>
+
+        <form className="chat-text" onSubmit={handleSendText}>
           <input
-            type="file"
-            accept="audio/*"
-            onChange={handleFile}
-            disabled={status === 'sending' || status === 'playing' || status === 'recording'}
+            type="text"
+            placeholder="Type a message…"
+            value={textInput}
+            onChange={(e) => setTextInput(e.target.value)}
+            disabled={status !== 'idle'}
+            maxLength={4000}
           />
-        </label>
-      </div>
+          <label className="chat-toggle" title="Also play the reply as audio">
+            <input
+              type="checkbox"
+              checked={speakReplies}
+              onChange={(e) => setSpeakReplies(e.target.checked)}
+            />
+            Speak
+          </label>
+          <button type="submit" className="btn btn-primary" disabled={status !== 'idle' || !textInput.trim()}>
+            Send
+          </button>
+        </form>
+
+        <div className="chat-actions">
+          {status !== 'recording' ? (
+            <button
+              type="button"
+              className="btn btn-mic"
+              onClick={() => startRecording()}
+              disabled={handsFree || status === 'sending' || status === 'playing'}
+              title="Hold to record"
+            >
+              🎤 Record
+            </button>
+          ) : (
+            <button
+              type="button"
+              className="btn btn-mic recording"
+              onClick={stopRecording}
+            >
+              ⏹ Stop
+            </button>
+          )}
+          <label className="btn btn-upload">
+            📁 Upload
+            <input
+              type="file"
+              accept="audio/*"
+              onChange={handleFile}
+              disabled={status === 'sending' || status === 'playing' || status === 'recording'}
+            />
+          </label>
+          <label className="chat-toggle" title="Stream transcripts and audio while the reply is generated">
+            <input
+              type="checkbox"
+              checked={streaming}
+              onChange={(e) => setStreaming(e.target.checked)}
+              disabled={status !== 'idle'}
+            />
+            Stream
+          </label>
+          <label
+            className="chat-toggle"
+            title="Listen continuously: send each thing you say, and talk over the agent to interrupt it"
+          >
+            <input
+              type="checkbox"
+              checked={handsFree}
+              onChange={(e) => setHandsFree(e.target.checked)}
+              disabled={status === 'recording' || status === 'sending'}
+            />
+            Hands-free
+          </label>
+        </div>
 
-      <div className="chat-status">
-        {status === 'recording' && 'Recording…'}
-        {status === 'sending' && 'Sending…'}
-        {status === 'playing' && 'Playing…'}
-        {status === 'idle' && sessionId && 'Ready'}
+        <div className="chat-status">
+          {status === 'recording' && 'Recording…'}
+          {status === 'sending' && 'Sending…'}
+          {status === 'playing' && 'Playing…'}
+          {status === 'idle' && sessionId && (handsFree ? 'Listening…' : 'Ready')}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,211 @@
+import { ObjectId } from 'mongodb';
+import { getDb } from './db';
+import { validateAgentConfig, type AgentConfig } from './llm';
+import { getOrgAgentConfig } from './organizations';
+import { validateTtsOptions } from './tts';
+import type { SttOptions, TtsOptions } from './providers';
+
+/**
+ * Agent profiles ("personas") belong to an organization and are shared by its
+ * members. A session is bound to one at creation (`metadata.profileId`); its
+ * settings override the organization's shared agent config.
+ */
+
+export interface AgentProfileDoc {
+  _id: ObjectId;
+  orgId: string;
+  createdBy: string;
+  name: string;
+  description: string;
+  llm: AgentConfig;
+  tts: TtsOptions;
+  stt: SttOptions;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AgentProfileInfo {
+  id: string;
+  name: string;
+  description: string;
+  llm: AgentConfig;
+  tts: TtsOptions;
+  stt: SttOptions;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AgentProfileInput = Pick<AgentProfileDoc, 'name' | 'description' | 'llm' | 'tts' | 'stt'>;
+
+/** Everything a conversation turn needs to know about its agent. */
+export interface ResolvedAgent {
+  profileId: string | null;
+  llm: AgentConfig;
+  tts: TtsOptions;
+  stt: SttOptions;
+}
+
+export function toAgentProfileInfo(profile: AgentProfileDoc): AgentProfileInfo {
+  return {
+    id: profile._id.toString(),
+    name: profile.name,
+    description: profile.description,
+    llm: profile.llm,
+    tts: profile.tts,
+    stt: profile.stt,
+    createdBy: profile.createdBy,
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt,
+  };
+}
+
+function validateSttOptions(value: unknown): { valid: true; options: SttOptions } | { valid: false; error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { valid: false, error: 'stt must be an object' };
+  }
+  const { language } = value as Record<string, unknown>;
+  if (language === undefined) return { valid: true, options: {} };
+  if (typeof language !== 'string' || !/^[a-z]{2}$/.test(language)) {
+    return { valid: false, error: 'stt.language must be an ISO 639-1 code such as "en"' };
+  }
+  return { valid: true, options: { language } };
+}
+
+/**
+ * Check a profile from a request body. With `partial` (PATCH), only the
+ * fields present are validated and returned.
+ */
+export function validateAgentProfile(
+  body: unknown,
+  { partial = false } = {}
+): { valid: true; profile: Partial<AgentProfileInput> } | { valid: false; error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, error: 'Request body must be a JSON object' };
+  }
+  const { name, description, llm, tts, stt } = body as Record<string, unknown>;
+  const profile: Partial<AgentProfileInput> = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+      return { valid: false, error: 'Profile name is required (max 100 characters)' };
+    }
+    profile.name = name.trim();
+  }
+  if (description !== undefined) {
+    if (typeof description !== 'string' || description.length > 500) {
+      return { valid: false, error: 'description must be a string of at most 500 characters' };
+    }
+    profile.description = description;
+  }
+  if (llm !== undefined) {
+    const result = validateAgentConfig(llm);
+    if (!result.valid) return { valid: false, error: `llm: ${result.error}` };
+    profile.llm = result.config;
+  }
+  if (tts !== undefined) {
+    const result = validateTtsOptions(tts);
+    if (!result.valid) return result;
+    profile.tts = result.options;
+  }
+  if (stt !== undefined) {
+    const result = validateSttOptions(stt);
+    if (!result.valid) return result;
+    profile.stt = result.options;
+  }
+  return { valid: true, profile };
+}
+
+function parseProfileId(profileId: string): ObjectId | null {
+  try {
+    return new ObjectId(profileId);
+  } catch {
+    return null;
+  }
+}
+
+export async function createAgentProfile(
+  orgId: string,
+  createdBy: string,
+  input: Partial<AgentProfileInput> & { name: string }
+): Promise<AgentProfileDoc> {
+  const now = new Date();
+  const profile: AgentProfileDoc = {
+    _id: new ObjectId(),
+    orgId,
+    createdBy,
+    name: input.name,
+    description: input.description ?? '',
+    llm: input.llm ?? {},
+    tts: input.tts ?? {},
+    stt: input.stt ?? {},
+    createdAt: now,
+    updatedAt: now,
+  };
+  const database = await getDb();
+  await database.collection<AgentProfileDoc>('agent_profiles').insertOne(profile);
+  return profile;
+}
+
+export async function listAgentProfiles(orgId: string): Promise<AgentProfileInfo[]> {
+  const database = await getDb();
+  const profiles = await database
+    .collection<AgentProfileDoc>('agent_profiles')
+    .find({ orgId })
+    .sort({ name: 1 })
+    .toArray();
+  return profiles.map(toAgentProfileInfo);
+}
+
+export async function getAgentProfile(orgId: string, profileId: string): Promise<AgentProfileDoc | null> {
+  const oid = parseProfileId(profileId);
+  if (!oid) return null;
+  const database = await getDb();
+  return database.collection<AgentProfileDoc>('agent_profiles').findOne({ _id: oid, orgId });
+}
+
+export async function updateAgentProfile(
+  orgId: string,
+  profileId: string,
+  update: Partial<AgentProfileInput>
+): Promise<AgentProfileDoc | null> {
+  const oid = parseProfileId(profileId);
+  if (!oid) return null;
+  const database = await getDb();
+  return database
+    .collection<AgentProfileDoc>('agent_profiles')
+    .findOneAndUpdate(
+      { _id: oid, orgId },
+      { $set: { ...update, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+}
+
+/** Sessions bound to a deleted profile fall back to the organization defaults. */
+export async function deleteAgentProfile(orgId: string, profileId: string): Promise<boolean> {
+  const oid = parseProfileId(profileId);
+  if (!oid) return false;
+  const database = await getDb();
+  const result = await database.collection<AgentProfileDoc>('agent_profiles').deleteOne({ _id: oid, orgId });
+  return result.deletedCount > 0;
+}
+
+/**
+ * The agent settings for a turn: the organization's shared config, overridden
+ * by the profile the session was created with (if any).
+ */
+export async function resolveAgent(
+  orgId: string,
+  profileId: string | null | undefined
+): Promise<ResolvedAgent> {
+  const [orgAgent, profile] = await Promise.all([
+    getOrgAgentConfig(orgId),
+    profileId ? getAgentProfile(orgId, profileId) : null,
+  ]);
+  return {
+    profileId: profile ? profile._id.toString() : null,
+    llm: { ...orgAgent, ...profile?.llm },
+    tts: profile?.tts ?? {},
+    stt: profile?.stt ?? {},
+  };
+}
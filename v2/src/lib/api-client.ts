@@ -2,6 +2,13 @@
  * Client-side API helpers for the voice agent (browser only).
  */
 
+import {
+  parseServerMessage,
+  VOICE_STREAM_PATH,
+  type VoiceStreamServerMessage,
+} from './voice-stream-protocol';
+import type { TranscriptDetails } from './stt';
+
 const API_BASE = '/api/v1';
 const API_KEY_STORAGE = 'voice_agent_api_key';
 
@@ -28,11 +35,14 @@ function headers(apiKey: string, json = true): HeadersInit {
   return h;
 }
 
-export async function register(email: string): Promise<{ userId: string; apiKey: string }> {
+export async function register(
+  email: string,
+  organizationName?: string
+): Promise<{ userId: string; orgId: string; apiKey: string }> {
   const res = await fetch(`${API_BASE}/users/register`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ email }),
+    body: JSON.stringify({ email, organizationName: organizationName || undefined }),
   });
   if (!res.ok) {
     const data = await res.json().catch(() => ({}));
@@ -41,7 +51,9 @@ export async function register(email: string): Promise<{ userId: string; apiKey:
   return res.json();
 }
 
-export async function login(apiKey: string): Promise<{ userId: string; email: string }> {
+export async function login(
+  apiKey: string
+): Promise<{ userId: string; email: string; orgId: string; orgRole: string }> {
   const res = await fetch(`${API_BASE}/auth/login`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -54,11 +66,12 @@ export async function login(apiKey: string): Promise<{ userId: string; email: st
   return res.json();
 }
 
-export async function createSession(apiKey: string): Promise<string> {
+export async function createSession(apiKey: string, profileId?: string): Promise<string> {
   try {
     const res = await fetch(`${API_BASE}/sessions`, {
       method: 'POST',
       headers: headers(apiKey),
+      body: JSON.stringify(profileId ? { profileId } : {}),
     });
     const data = await res.json().catch(() => ({}));
     if (!res.ok) {
@@ -77,9 +90,62 @@ export async function createSession(apiKey: string): Promise<string> {
   }
 }
 
+export interface SessionSummary {
+  id: string;
+  title: string | null;
+  tags: string[];
+  archived: boolean;
+  lastActivityAt: string;
+}
+
+export async function listSessions(apiKey: string, limit = 50): Promise<SessionSummary[]> {
+  const res = await fetch(`${API_BASE}/sessions?limit=${limit}`, { headers: headers(apiKey) });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || `List sessions failed: ${res.status}`);
+  }
+  const data = await res.json();
+  return data.sessions ?? [];
+}
+
+export async function updateSession(
+  apiKey: string,
+  sessionId: string,
+  update: { title?: string | null; tags?: string[]; archived?: boolean }
+): Promise<SessionSummary> {
+  const res = await fetch(`${API_BASE}/sessions/${encodeURIComponent(sessionId)}`, {
+    method: 'PATCH',
+    headers: headers(apiKey),
+    body: JSON.stringify(update),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.message || `Update session failed: ${res.status}`);
+  }
+  return data.session;
+}
+
+export async function deleteSession(apiKey: string, sessionId: string): Promise<void> {
+  const res = await fetch(`${API_BASE}/sessions/${encodeURIComponent(sessionId)}`, {
+    method: 'DELETE',
+    headers: headers(apiKey),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || `Delete session failed: ${res.status}`);
+  }
+}
+
 export interface ChatMessage {
+  id?: string;
   role: string;
   content: string;
+  /** Word timings and confidence of a spoken message */
+  transcript?: TranscriptDetails;
+  /** The agent is asking whether it heard the previous message right */
+  clarification?: boolean;
+  /** The user talked over this reply; `heardText` is the part that was played */
+  interruption?: { heardText: string | null };
 }
 
 export async function getMessages(
@@ -99,13 +165,234 @@ export async function getMessages(
   return data.messages ?? [];
 }
 
+/** Tell the server the user talked over a reply, and how much of it they heard. */
+export async function interruptMessage(
+  apiKey: string,
+  sessionId: string,
+  messageId: string,
+  heardText: string
+): Promise<void> {
+  const res = await fetch(
+    `${API_BASE}/sessions/${encodeURIComponent(sessionId)}/messages/${encodeURIComponent(messageId)}/interrupt`,
+    { method: 'POST', headers: headers(apiKey), body: JSON.stringify({ heardText }) }
+  );
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || `Interrupt failed: ${res.status}`);
+  }
+}
+
+/** Send a typed message; with `tts`, the reply also comes back as audio. */
+export async function sendText(
+  apiKey: string,
+  sessionId: string,
+  text: string,
+  options: { tts?: boolean } = {}
+): Promise<{ reply: string; messageId: string | null; audio: Blob | null }> {
+  const res = await fetch(
+    `${API_BASE}/sessions/${encodeURIComponent(sessionId)}/messages${options.tts ? '?tts=true' : ''}`,
+    {
+      method: 'POST',
+      headers: headers(apiKey),
+      body: JSON.stringify({ text }),
+    }
+  );
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.message || `Send message failed: ${res.status}`);
+  }
+  return {
+    reply: data.message?.content ?? '',
+    messageId: data.message?.id ?? null,
+    audio: data.audio ? base64ToBlob(data.audio.data, data.audio.contentType) : null,
+  };
+}
+
 const VOICE_REQUEST_TIMEOUT_MS = 120_000; // 2 min for STT + LLM + TTS
+// Longest silence from the server while waiting for `ready` or a turn's `done`
+const VOICE_STREAM_INACTIVITY_MS = 60_000;
+
+export interface VoiceStreamHandlers {
+  onPartialTranscript?: (text: string) => void;
+  onTranscript?: (text: string, transcript: TranscriptDetails) => void;
+  onResponseDelta?: (text: string) => void;
+  /** Called once per synthesized sentence, in playback order */
+  onAudioChunk?: (audio: Blob, text: string) => void;
+  /** Called when the stream fails: connection or server error, or no answer in time */
+  onError?: (err: Error) => void;
+}
+
+export interface VoiceStreamResult {
+  transcript: string;
+  response: string;
+  sessionId: string;
+  userMessageId: string;
+  messageId: string;
+}
+
+export interface VoiceStream {
+  sessionId: string;
+  sendChunk: (chunk: Blob) => void;
+  /** Ends the utterance; resolves when the reply has been fully streamed */
+  stop: () => Promise<VoiceStreamResult>;
+  /** Barge-in: stop the reply and record how much of it was heard */
+  interrupt: (heardText: string) => void;
+  close: () => void;
+}
+
+function base64ToBlob(base64: string, contentType: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: contentType });
+}
+
+/**
+ * Open a streaming voice turn over WebSocket. Mic chunks are sent as they are
+ * recorded; transcripts, reply text and per-sentence audio arrive through
+ * `handlers` while the reply is still being generated.
+ */
+export function openVoiceStream(
+  apiKey: string,
+  sessionId: string | null,
+  handlers: VoiceStreamHandlers = {}
+): Promise<VoiceStream> {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const ws = new WebSocket(`${protocol}//${window.location.host}${VOICE_STREAM_PATH}`);
+
+  let pendingStop: {
+    resolve: (result: VoiceStreamResult) => void;
+    reject: (err: Error) => void;
+  } | null = null;
+
+  return new Promise((resolve, reject) => {
+    let ready = false;
+    let inactivityTimer: ReturnType<typeof setTimeout> | null = null;
+
+    function fail(err: Error) {
+      if (!ready) reject(err);
+      pendingStop?.reject(err);
+      pendingStop = null;
+      handlers.onError?.(err);
+    }
+
+    // Armed only while something is awaited; while the user talks the server has nothing to say
+    function watchInactivity() {
+      if (inactivityTimer) clearTimeout(inactivityTimer);
+      inactivityTimer = null;
+      if (ready && !pendingStop) return;
+      inactivityTimer = setTimeout(() => {
+        fail(new Error('The voice server stopped responding. Try again.'));
+        ws.close();
+      }, VOICE_STREAM_INACTIVITY_MS);
+    }
+
+    watchInactivity();
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ type: 'start', apiKey, sessionId }));
+    };
+
+    ws.onerror = () => {
+      fail(new Error('Connection error. Is the server running? Start it with: npm run dev'));
+    };
+
+    ws.onclose = () => {
+      if (inactivityTimer) clearTimeout(inactivityTimer);
+      if (!ready) reject(new Error('Voice stream closed before it was ready'));
+      pendingStop?.reject(new Error('Voice stream closed before the reply finished'));
+      pendingStop = null;
+    };
+
+    ws.onmessage = (event) => {
+      if (typeof event.data !== 'string') return;
+      const message = parseServerMessage(event.data);
+      if (!message) {
+        console.warn('Ignoring malformed voice stream message');
+        return;
+      }
+      handleMessage(message);
+      watchInactivity();
+    };
+
+    function handleMessage(message: VoiceStreamServerMessage) {
+      switch (message.type) {
+        case 'ready':
+          ready = true;
+          resolve({
+            sessionId: message.sessionId,
+            sendChunk: (chunk) => {
+              if (ws.readyState === WebSocket.OPEN) ws.send(chunk);
+            },
+            stop: () =>
+              new Promise((res, rej) => {
+                pendingStop = { resolve: res, reject: rej };
+                ws.send(JSON.stringify({ type: 'stop' }));
+                watchInactivity();
+              }),
+            interrupt: (heardText) => {
+              if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ type: 'interrupt', heardText }));
+            },
+            close: () => ws.close(),
+          });
+          break;
+        case 'transcript.partial':
+          handlers.onPartialTranscript?.(message.text);
+          break;
+        case 'transcript.final':
+          handlers.onTranscript?.(message.text, message.transcript);
+          break;
+        case 'response.delta':
+          handlers.onResponseDelta?.(message.text);
+          break;
+        case 'audio.chunk':
+          handlers.onAudioChunk?.(base64ToBlob(message.audio, message.contentType), message.text);
+          break;
+        case 'done':
+          pendingStop?.resolve({
+            transcript: message.transcript,
+            response: message.response,
+            sessionId: message.sessionId,
+            userMessageId: message.userMessageId,
+            messageId: message.messageId,
+          });
+          pendingStop = null;
+          break;
+        case 'error':
+          fail(new Error(message.message || message.error));
+          break;
+      }
+    }
+  });
+}
 
 export async function sendVoice(
   apiKey: string,
   audioBlob: Blob,
-  sessionId: string | null
-): Promise<{ audio: Blob; transcript: string; sessionId: string }> {
+  sessionId: string | null,
+  options: { stream?: boolean; handlers?: VoiceStreamHandlers; format?: string } = {}
+): Promise<{ audio: Blob | null; transcript: string; reply: string; sessionId: string; messages: ChatMessage[] }> {
+  if (options.stream) {
+    // Streaming mode: audio is delivered through handlers.onAudioChunk
+    const voiceStream = await openVoiceStream(apiKey, sessionId, options.handlers);
+    try {
+      voiceStream.sendChunk(audioBlob);
+      const result = await voiceStream.stop();
+      return {
+        audio: null,
+        transcript: result.transcript,
+        reply: result.response,
+        sessionId: result.sessionId,
+        messages: [
+          { id: result.userMessageId, role: 'user', content: result.transcript },
+          { id: result.messageId, role: 'assistant', content: result.response },
+        ],
+      };
+    } finally {
+      voiceStream.close();
+    }
+  }
+
   const form = new FormData();
   form.append('audio', audioBlob, 'audio.webm');
   if (sessionId) form.append('sessionId', sessionId);
@@ -114,24 +401,28 @@ export async function sendVoice(
   const timeoutId = setTimeout(() => controller.abort(), VOICE_REQUEST_TIMEOUT_MS);
 
   try {
-    const res = await fetch(`${API_BASE}/voice/conversation`, {
+    const query = options.format ? `?format=${encodeURIComponent(options.format)}` : '';
+    const res = await fetch(`${API_BASE}/voice/conversation${query}`, {
       method: 'POST',
-      headers: { Authorization: `Bearer ${apiKey}` },
+      headers: { Authorization: `Bearer ${apiKey}`, Accept: 'application/json' },
       body: form,
       signal: controller.signal,
     });
     clearTimeout(timeoutId);
 
-    const newSessionId = res.headers.get('X-Session-Id') || sessionId || '';
-    const transcript = res.headers.get('X-Transcript') || '';
-
+    const data = await res.json().catch(() => ({}));
     if (!res.ok) {
-      const data = await res.json().catch(() => ({}));
       throw new Error((data.message as string) || `Voice request failed: ${res.status}`);
     }
 
-    const audio = await res.blob();
-    return { audio, transcript, sessionId: newSessionId };
+    return {
+      audio: data.audio?.data ? base64ToBlob(data.audio.data, data.audio.contentType) : null,
+      transcript: data.transcript ?? '',
+      reply: data.message?.content ?? '',
+      sessionId: data.sessionId || sessionId || '',
+      // The user's and the agent's message, as the history API returns them
+      messages: data.userMessage && data.message ? [data.userMessage, data.message] : [],
+    };
   } catch (err) {
     clearTimeout(timeoutId);
     if (err instanceof Error) {
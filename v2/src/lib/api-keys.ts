@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import { ObjectId } from 'mongodb';
+import { getDb } from './db';
+
+// Scope checks are enforced by withAuth; '*' grants every scope
+export const DEFAULT_SCOPES = ['*'];
+
+// Avoid a database write on every request just to bump lastUsedAt
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export interface ApiKeyDoc {
+  _id: ObjectId;
+  userId: string;
+  /** Organization the key acts in; missing on keys issued before organizations */
+  orgId?: string;
+  name: string;
+  keyHash: string;
+  /** First characters of the key, so users can tell keys apart */
+  prefix: string;
+  scopes: string[];
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  rotatedFromId?: ObjectId;
+}
+
+export interface ApiKeyInfo {
+  id: string;
+  orgId: string | null;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  status: 'active' | 'expired' | 'revoked';
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export interface NewApiKeyOptions {
+  name: string;
+  orgId?: string;
+  scopes?: string[];
+  expiresAt?: Date | null;
+}
+
+export function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex');
+}
+
+export function generateApiKey(): string {
+  return 'sk_' + crypto.randomBytes(32).toString('hex');
+}
+
+function keyStatus(key: ApiKeyDoc, now = new Date()): ApiKeyInfo['status'] {
+  if (key.revokedAt && key.revokedAt <= now) return 'revoked';
+  if (key.expiresAt && key.expiresAt <= now) return 'expired';
+  return 'active';
+}
+
+export function toApiKeyInfo(key: ApiKeyDoc): ApiKeyInfo {
+  return {
+    id: key._id.toString(),
+    orgId: key.orgId ?? null,
+    name: key.name,
+    prefix: key.prefix,
+    scopes: key.scopes,
+    status: keyStatus(key),
+    createdAt: key.createdAt,
+    lastUsedAt: key.lastUsedAt,
+    expiresAt: key.expiresAt,
+    revokedAt: key.revokedAt,
+  };
+}
+
+function parseKeyId(keyId: string): ObjectId | null {
+  try {
+    return new ObjectId(keyId);
+  } catch {
+    return null;
+  }
+}
+
+async function insertKey(
+  userId: string,
+  apiKey: string,
+  options: NewApiKeyOptions & { rotatedFromId?: ObjectId }
+): Promise<ApiKeyDoc> {
+  const database = await getDb();
+  const doc: ApiKeyDoc = {
+    _id: new ObjectId(),
+    userId,
+    ...(options.orgId ? { orgId: options.orgId } : {}),
+    name: options.name,
+    keyHash: hashApiKey(apiKey),
+    prefix: apiKey.slice(0, 10),
+    scopes: options.scopes?.length ? options.scopes : DEFAULT_SCOPES,
+    createdAt: new Date(),
+    lastUsedAt: null,
+    expiresAt: options.expiresAt ?? null,
+    revokedAt: null,
+    ...(options.rotatedFromId ? { rotatedFromId: options.rotatedFromId } : {}),
+  };
+  await database.collection<ApiKeyDoc>('api_keys').insertOne(doc);
+  return doc;
+}
+
+/** Create a key; the plaintext `apiKey` is returned only here and never stored. */
+export async function createApiKey(
+  userId: string,
+  options: NewApiKeyOptions
+): Promise<{ key: ApiKeyInfo; apiKey: string }> {
+  const apiKey = generateApiKey();
+  const doc = await insertKey(userId, apiKey, options);
+  return { key: toApiKeyInfo(doc), apiKey };
+}
+
+/** Store an already-issued key (used to migrate legacy `users.apiKeyHash` keys). */
+export async function importApiKeyHash(
+  userId: string,
+  keyHash: string,
+  name: string
+): Promise<ApiKeyDoc> {
+  const database = await getDb();
+  const doc: ApiKeyDoc = {
+    _id: new ObjectId(),
+    userId,
+    name,
+    keyHash,
+    prefix: 'sk_',
+    scopes: DEFAULT_SCOPES,
+    createdAt: new Date(),
+    lastUsedAt: null,
+    expiresAt: null,
+    revokedAt: null,
+  };
+  await database.collection<ApiKeyDoc>('api_keys').insertOne(doc);
+  return doc;
+}
+
+/** The user's keys that act in `orgId`. */
+export async function listApiKeys(userId: string, orgId: string): Promise<ApiKeyInfo[]> {
+  const database = await getDb();
+  const keys = await database
+    .collection<ApiKeyDoc>('api_keys')
+    .find({ userId, orgId })
+    .sort({ createdAt: -1 })
+    .toArray();
+  return keys.map(toApiKeyInfo);
+}
+
+export async function getApiKey(userId: string, keyId: string): Promise<ApiKeyDoc | null> {
+  const oid = parseKeyId(keyId);
+  if (!oid) return null;
+  const database = await getDb();
+  return database.collection<ApiKeyDoc>('api_keys').findOne({ _id: oid, userId });
+}
+
+/**
+ * Look up a key by hash. Returns null for unknown, revoked or expired keys,
+ * and records when the key was last used.
+ */
+export async function findActiveApiKey(keyHash: string): Promise<ApiKeyDoc | null> {
+  const database = await getDb();
+  const key = await database.collection<ApiKeyDoc>('api_keys').findOne({ keyHash });
+  if (!key) return null;
+  const now = new Date();
+  if (keyStatus(key, now) !== 'active') return null;
+  if (!key.lastUsedAt || now.getTime() - key.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await database
+      .collection<ApiKeyDoc>('api_keys')
+      .updateOne({ _id: key._id }, { $set: { lastUsedAt: now } });
+  }
+  return key;
+}
+
+/** A key by ID, or null when it is unknown, revoked or expired. */
+export async function findActiveApiKeyById(keyId: string): Promise<ApiKeyDoc | null> {
+  const oid = parseKeyId(keyId);
+  if (!oid) return null;
+  const database = await getDb();
+  const key = await database.collection<ApiKeyDoc>('api_keys').findOne({ _id: oid });
+  return key && keyStatus(key) === 'active' ? key : null;
+}
+
+/** Bind a legacy key to the organization it has been acting in. */
+export async function setApiKeyOrg(keyId: ObjectId, orgId: string): Promise<void> {
+  const database = await getDb();
+  await database.collection<ApiKeyDoc>('api_keys').updateOne({ _id: keyId }, { $set: { orgId } });
+}
+
+/**
+ * Issue a replacement with the same organization, name, scopes and expiry. The old key is
+ * revoked after `gracePeriodSeconds` (immediately by default), so clients can
+ * switch over without downtime.
+ */
+export async function rotateApiKey(
+  userId: string,
+  keyId: string,
+  gracePeriodSeconds = 0
+): Promise<{ key: ApiKeyInfo; apiKey: string } | null> {
+  const existing = await getApiKey(userId, keyId);
+  if (!existing || keyStatus(existing) !== 'active') return null;
+
+  const apiKey = generateApiKey();
+  const doc = await insertKey(userId, apiKey, {
+    name: existing.name,
+    orgId: existing.orgId,
+    scopes: existing.scopes,
+    expiresAt: existing.expiresAt,
+    rotatedFromId: existing._id,
+  });
+  const database = await getDb();
+  await database
+    .collection<ApiKeyDoc>('api_keys')
+    .updateOne(
+      { _id: existing._id },
+      { $set: { revokedAt: new Date(Date.now() + gracePeriodSeconds * 1000) } }
+    );
+  return { key: toApiKeyInfo(doc), apiKey };
+}
+
+export async function revokeApiKey(userId: string, keyId: string): Promise<ApiKeyInfo | null> {
+  const key = await getApiKey(userId, keyId);
+  if (!key) return null;
+  if (keyStatus(key) === 'revoked') return toApiKeyInfo(key);
+  const revokedAt = new Date();
+  const database = await getDb();
+  await database.collection<ApiKeyDoc>('api_keys').updateOne({ _id: key._id }, { $set: { revokedAt } });
+  return toApiKeyInfo({ ...key, revokedAt });
+}
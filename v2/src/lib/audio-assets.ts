@@ -0,0 +1,139 @@
+import { ObjectId } from 'mongodb';
+import { getDb } from './db';
+import type { AuthUser } from './auth';
+import { getAudioStorage } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+const RETENTION_JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface AudioAssetDoc {
+  _id: ObjectId;
+  sessionId: ObjectId;
+  orgId: string;
+  userId: string;
+  /** `input`: what the user sent; `output`: the synthesized reply */
+  kind: 'input' | 'output';
+  storage: string;
+  key: string;
+  contentType: string;
+  size: number;
+  createdAt: Date;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/flac': 'flac',
+  'audio/aac': 'aac',
+  'audio/pcm': 'pcm',
+  'audio/basic': 'ulaw',
+};
+
+/**
+ * Store a turn's audio when persistence is enabled (`AUDIO_STORAGE`).
+ * Returns the asset ID, or null when disabled. Storage failures are logged,
+ * never thrown: losing a recording must not fail the turn.
+ */
+export async function saveAudioAsset(
+  user: Pick<AuthUser, 'id' | 'orgId'>,
+  sessionId: string,
+  kind: AudioAssetDoc['kind'],
+  audio: { data: Buffer; contentType: string }
+): Promise<string | null> {
+  const storage = getAudioStorage();
+  if (!storage || !audio.data.length) return null;
+  const contentType = audio.contentType.split(';')[0] || 'application/octet-stream';
+  const asset: AudioAssetDoc = {
+    _id: new ObjectId(),
+    sessionId: new ObjectId(sessionId),
+    orgId: user.orgId,
+    userId: user.id,
+    kind,
+    storage: storage.name,
+    key: '',
+    contentType,
+    size: audio.data.length,
+    createdAt: new Date(),
+  };
+  asset.key = `${user.orgId}/${sessionId}/${asset._id}.${EXTENSIONS[contentType] ?? 'bin'}`;
+  try {
+    await storage.put(asset.key, audio.data, contentType);
+    const database = await getDb();
+    await database.collection<AudioAssetDoc>('audio_assets').insertOne(asset);
+    return asset._id.toString();
+  } catch (err) {
+    console.error('[audio] Asset not saved:', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+export async function getAudioAsset(assetId: ObjectId): Promise<AudioAssetDoc | null> {
+  const database = await getDb();
+  return database.collection<AudioAssetDoc>('audio_assets').findOne({ _id: assetId });
+}
+
+/** The stored bytes, or null if the asset's backend is off or the object is gone. */
+export async function readAudioAsset(asset: AudioAssetDoc): Promise<Buffer | null> {
+  const storage = getAudioStorage();
+  if (!storage || storage.name !== asset.storage) return null;
+  return storage.get(asset.key);
+}
+
+async function deleteAssets(filter: Record<string, unknown>): Promise<number> {
+  const database = await getDb();
+  const assets = await database.collection<AudioAssetDoc>('audio_assets').find(filter).toArray();
+  if (!assets.length) return 0;
+  const storage = getAudioStorage();
+  for (const asset of assets) {
+    if (storage?.name === asset.storage) await storage.delete(asset.key);
+  }
+  const ids = assets.map((a) => a._id);
+  await database
+    .collection('messages')
+    .updateMany({ audioAssetId: { $in: ids } }, { $unset: { audioAssetId: '' } });
+  await database.collection<AudioAssetDoc>('audio_assets').deleteMany({ _id: { $in: ids } });
+  return assets.length;
+}
+
+/** Remove all stored audio of a session (used when the session is deleted). */
+export async function deleteSessionAudio(sessionId: ObjectId): Promise<number> {
+  return deleteAssets({ sessionId });
+}
+
+function retentionDays(): number {
+  const raw = process.env.AUDIO_RETENTION_DAYS;
+  const days = raw ? Number(raw) : DEFAULT_RETENTION_DAYS;
+  return Number.isFinite(days) ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Delete audio older than `AUDIO_RETENTION_DAYS` (default 30; 0 keeps audio
+ * forever). Messages stay; only their audio link is removed.
+ */
+export async function purgeExpiredAudio(now = new Date()): Promise<number> {
+  const days = retentionDays();
+  if (days <= 0) return 0;
+  return deleteAssets({ createdAt: { $lt: new Date(now.getTime() - days * DAY_MS) } });
+}
+
+/** Run the retention purge hourly in this process (see server.ts). */
+export function startAudioRetentionJob(): NodeJS.Timeout | null {
+  if (!getAudioStorage() || retentionDays() <= 0) return null;
+  const run = () => {
+    purgeExpiredAudio()
+      .then((deleted) => {
+        if (deleted) console.log(`[audio] Retention: deleted ${deleted} audio assets`);
+      })
+      .catch((err) => console.error('[audio] Retention job failed:', err instanceof Error ? err.message : err));
+  };
+  run();
+  const timer = setInterval(run, RETENTION_JOB_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
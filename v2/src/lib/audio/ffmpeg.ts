@@ -0,0 +1,161 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+/**
+ * ffmpeg and ffprobe, run directly (`execFile`, no shell) with a time limit.
+ * Paths and filter strings are passed as separate arguments and never parsed
+ * by a shell. Failures surface as typed audio errors.
+ */
+
+const execFilePromise = promisify(execFile);
+
+const PROBE_TIMEOUT_MS = 15_000;
+const DEFAULT_FFMPEG_TIMEOUT_SECONDS = 60;
+const MAX_OUTPUT_BYTES = 4 * 1024 * 1024;
+
+export type AudioErrorCode =
+  | 'UNSUPPORTED_FORMAT'
+  | 'UNSUPPORTED_CODEC'
+  | 'CORRUPT_FILE'
+  | 'TOO_LARGE'
+  | 'TOO_LONG'
+  | 'PROCESSING_TIMEOUT';
+
+const AUDIO_ERROR_CODES: readonly AudioErrorCode[] = [
+  'UNSUPPORTED_FORMAT',
+  'UNSUPPORTED_CODEC',
+  'CORRUPT_FILE',
+  'TOO_LARGE',
+  'TOO_LONG',
+  'PROCESSING_TIMEOUT',
+];
+
+/** HTTP status for each audio error code. */
+export const AUDIO_ERROR_STATUS: Record<AudioErrorCode, number> = {
+  UNSUPPORTED_FORMAT: 415,
+  UNSUPPORTED_CODEC: 415,
+  CORRUPT_FILE: 400,
+  TOO_LARGE: 413,
+  TOO_LONG: 400,
+  PROCESSING_TIMEOUT: 503,
+};
+
+export type AudioError = Error & { code: AudioErrorCode };
+
+export function audioError(code: AudioErrorCode, message: string): AudioError {
+  return Object.assign(new Error(message), { code });
+}
+
+export function isAudioError(err: unknown): err is AudioError {
+  return err instanceof Error && AUDIO_ERROR_CODES.includes((err as { code?: unknown }).code as AudioErrorCode);
+}
+
+interface ExecFailure {
+  code?: number | string;
+  killed?: boolean;
+  signal?: string | null;
+  stderr?: string;
+}
+
+// The last line of ffmpeg's output names the actual problem
+function lastLine(text: string | undefined): string {
+  const lines = (text ?? '').trim().split('\n');
+  return lines[lines.length - 1].trim();
+}
+
+async function run(command: string, args: string[], timeoutMs: number): Promise<string> {
+  try {
+    const { stdout } = await execFilePromise(command, args, {
+      timeout: timeoutMs,
+      killSignal: 'SIGKILL',
+      maxBuffer: MAX_OUTPUT_BYTES,
+      windowsHide: true,
+    });
+    return stdout;
+  } catch (err) {
+    const failure = err as ExecFailure;
+    if (failure.code === 'ENOENT') {
+      throw new Error(`${command} not found; install FFmpeg and put ${command} on PATH`);
+    }
+    if (failure.killed || failure.signal === 'SIGKILL') {
+      throw audioError('PROCESSING_TIMEOUT', `${command} took longer than ${Math.round(timeoutMs / 1000)}s`);
+    }
+    const detail = lastLine(failure.stderr);
+    throw audioError('CORRUPT_FILE', `Audio could not be decoded${detail ? `: ${detail}` : ''}`);
+  }
+}
+
+export function ffmpegTimeoutMs(): number {
+  return (Number(process.env.FFMPEG_TIMEOUT_SECONDS) || DEFAULT_FFMPEG_TIMEOUT_SECONDS) * 1000;
+}
+
+/** Run ffmpeg quietly with `args` (inputs, filters, output); overwrites outputs. */
+export async function runFfmpeg(args: string[], timeoutMs = ffmpegTimeoutMs()): Promise<string> {
+  return run('ffmpeg', ['-hide_banner', '-nostdin', '-v', 'error', '-y', ...args], timeoutMs);
+}
+
+export interface AudioProbe {
+  /** Container as ffprobe names it, e.g. `matroska,webm` or `wav` */
+  container: string;
+  codec: string;
+  channels: number;
+  sampleRate: number;
+  /** Null when the container does not record it (e.g. MediaRecorder WebM) */
+  durationSeconds: number | null;
+  bitRate: number | null;
+}
+
+interface FfprobeOutput {
+  streams?: {
+    codec_type?: string;
+    codec_name?: string;
+    channels?: number;
+    sample_rate?: string;
+    duration?: string;
+  }[];
+  format?: { format_name?: string; duration?: string; bit_rate?: string };
+}
+
+function toNumber(value: string | number | undefined): number | null {
+  const n = typeof value === 'number' ? value : parseFloat(value ?? '');
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Codec, channels, sample rate and duration of the first audio stream. */
+export async function probeAudio(filePath: string): Promise<AudioProbe> {
+  const stdout = await run(
+    'ffprobe',
+    ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', '--', filePath],
+    PROBE_TIMEOUT_MS
+  );
+  let output: FfprobeOutput;
+  try {
+    output = JSON.parse(stdout);
+  } catch {
+    throw audioError('CORRUPT_FILE', 'Audio could not be read');
+  }
+  const stream = output.streams?.find((s) => s.codec_type === 'audio');
+  if (!stream?.codec_name) throw audioError('CORRUPT_FILE', 'File contains no audio');
+  return {
+    container: output.format?.format_name ?? 'unknown',
+    codec: stream.codec_name,
+    channels: stream.channels ?? 0,
+    sampleRate: toNumber(stream.sample_rate) ?? 0,
+    durationSeconds: toNumber(output.format?.duration) ?? toNumber(stream.duration),
+    bitRate: toNumber(output.format?.bit_rate),
+  };
+}
+
+/**
+ * Duration found by decoding the whole file, for containers that do not
+ * record it. Also fails on files that are damaged part way through.
+ */
+export async function measureDuration(filePath: string): Promise<number> {
+  const stdout = await runFfmpeg(
+    ['-i', filePath, '-map', '0:a:0', '-f', 'null', '-progress', 'pipe:1', '-nostats', '-'],
+    PROBE_TIMEOUT_MS * 2
+  );
+  const matches = stdout.match(/out_time_us=(\d+)/g);
+  const last = matches?.[matches.length - 1];
+  return last ? Number(last.slice('out_time_us='.length)) / 1e6 : 0;
+}
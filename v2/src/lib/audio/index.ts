@@ -0,0 +1,327 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import type { SpeechFormat } from '../providers';
+import { detectVoiceActivity } from '../vad';
+import {
+  isAudioError,
+  measureDuration,
+  probeAudio,
+  runFfmpeg,
+  type AudioErrorCode,
+  type AudioProbe,
+} from './ffmpeg';
+import { isAllowedMime, sniffAudioMime, SNIFF_BYTES } from './sniff';
+
+export {
+  AUDIO_ERROR_STATUS,
+  audioError,
+  isAudioError,
+  type AudioError,
+  type AudioErrorCode,
+  type AudioProbe,
+} from './ffmpeg';
+export { isAllowedMime, sniffAudioMime } from './sniff';
+
+/**
+ * Audio toolkit: validation of uploaded recordings, preparation for STT and
+ * transcoding of synthesized speech. ffmpeg and ffprobe are run without a
+ * shell (see ffmpeg.ts).
+ */
+
+const DEFAULT_MAX_AUDIO_MB = 25;
+const DEFAULT_MAX_AUDIO_SECONDS = 300;
+// What browsers, phones and common tools record
+const ALLOWED_CODECS = [
+  'pcm_s16le',
+  'pcm_s16be',
+  'pcm_s24le',
+  'pcm_s32le',
+  'pcm_f32le',
+  'pcm_u8',
+  'pcm_mulaw',
+  'pcm_alaw',
+  'mp3',
+  'aac',
+  'opus',
+  'vorbis',
+  'flac',
+];
+
+export function maxAudioBytes(): number {
+  return (Number(process.env.MAX_AUDIO_SIZE_MB) || DEFAULT_MAX_AUDIO_MB) * 1024 * 1024;
+}
+
+export function maxAudioSeconds(): number {
+  return Number(process.env.MAX_AUDIO_DURATION_SECONDS) || DEFAULT_MAX_AUDIO_SECONDS;
+}
+
+export interface AudioLimits {
+  maxBytes: number;
+  maxSeconds: number;
+}
+
+export type AudioValidation =
+  | { valid: true; mimeType: string; probe: AudioProbe; duration: number; size: number }
+  | { valid: false; code: AudioErrorCode; error: string };
+
+/**
+ * Check an uploaded recording before any processing: size, container (sniffed
+ * from its first bytes), codec and duration (`MAX_AUDIO_SIZE_MB`,
+ * `MAX_AUDIO_DURATION_SECONDS`, unless other `limits` are given).
+ */
+export async function validateAudio(
+  filePath: string,
+  limits: AudioLimits = { maxBytes: maxAudioBytes(), maxSeconds: maxAudioSeconds() }
+): Promise<AudioValidation> {
+  const handle = await fs.promises.open(filePath, 'r');
+  let size: number;
+  let header: Buffer;
+  try {
+    size = (await handle.stat()).size;
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(SNIFF_BYTES), 0, SNIFF_BYTES, 0);
+    header = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  const { maxBytes, maxSeconds } = limits;
+  if (size > maxBytes) {
+    return { valid: false, code: 'TOO_LARGE', error: `Audio file too large (max ${maxBytes / 1024 / 1024}MB)` };
+  }
+  const mimeType = sniffAudioMime(header);
+  if (!mimeType || !isAllowedMime(mimeType)) {
+    return {
+      valid: false,
+      code: 'UNSUPPORTED_FORMAT',
+      error: 'Unsupported audio format; send WAV, MP3, WebM, Ogg, FLAC, AAC or MP4 audio',
+    };
+  }
+  try {
+    const probe = await probeAudio(filePath);
+    if (!ALLOWED_CODECS.includes(probe.codec)) {
+      return { valid: false, code: 'UNSUPPORTED_CODEC', error: `Unsupported audio codec "${probe.codec}"` };
+    }
+    const duration = probe.durationSeconds ?? (await measureDuration(filePath));
+    if (duration > maxSeconds) {
+      return { valid: false, code: 'TOO_LONG', error: `Audio too long (max ${maxSeconds} seconds)` };
+    }
+    return { valid: true, mimeType, probe, duration, size };
+  } catch (err) {
+    if (isAudioError(err)) return { valid: false, code: err.code, error: err.message };
+    throw err;
+  }
+}
+
+const WHISPER_SAMPLE_RATE = 16_000;
+// Clips with less speech than this are rejected before any STT call
+const MIN_SPEECH_SECONDS = 0.25;
+// Silence kept around the speech so the first and last words are not clipped
+const SPEECH_PADDING_SECONDS = 0.25;
+
+export interface PreparedAudio {
+  /** 16 kHz mono 16-bit WAV, trimmed to the speech */
+  path: string;
+  /** Length of `path`, which is what STT providers bill */
+  durationSeconds: number;
+  /** Detected speech, without pauses; 0 when there is none */
+  speechSeconds: number;
+  /** Leading and trailing silence removed */
+  trimmedSeconds: number;
+}
+
+function envFlag(name: string): boolean {
+  return /^(1|true|on|yes)$/i.test(process.env[name] ?? '');
+}
+
+/** Optional ffmpeg filter arguments: `AUDIO_DENOISE` and `AUDIO_LOUDNORM`. */
+function preprocessingFilters(): string[] {
+  const filters: string[] = [];
+  if (envFlag('AUDIO_DENOISE')) filters.push('highpass=f=80', 'afftdn=nf=-25');
+  if (envFlag('AUDIO_LOUDNORM')) filters.push('loudnorm=I=-20:TP=-2:LRA=11');
+  return filters.length ? ['-af', filters.join(',')] : [];
+}
+
+/** Samples of a 16-bit mono PCM WAV; ffmpeg may write chunks other than `fmt ` and `data`. */
+function readWav(wav: Buffer): { samples: Int16Array; sampleRate: number } {
+  let sampleRate = WHISPER_SAMPLE_RATE;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const id = wav.toString('ascii', offset, offset + 4);
+    const size = wav.readUInt32LE(offset + 4);
+    if (id === 'fmt ') sampleRate = wav.readUInt32LE(offset + 12);
+    if (id === 'data') {
+      const data = wav.subarray(offset + 8, Math.min(offset + 8 + size, wav.length));
+      // Copy so the samples are 2-byte aligned
+      const bytes = new Uint8Array(data.length - (data.length % 2));
+      bytes.set(data.subarray(0, bytes.length));
+      return { samples: new Int16Array(bytes.buffer), sampleRate };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return { samples: new Int16Array(0), sampleRate };
+}
+
+function writeWav(samples: Int16Array, sampleRate: number): Buffer {
+  const data = Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+const roundSeconds = (seconds: number) => Math.round(seconds * 100) / 100;
+
+/**
+ * Convert a recording to 16 kHz mono WAV for STT, with optional noise
+ * reduction and loudness normalization, then detect speech (see vad.ts) and
+ * trim leading and trailing silence. `AUDIO_VAD=off` skips detection and
+ * trimming. Check `hasSpeech` before calling a provider.
+ */
+export async function prepareAudioForWhisper(inputPath: string): Promise<PreparedAudio> {
+  const outputPath = inputPath + '.wav';
+  await runFfmpeg([
+    '-i',
+    inputPath,
+    ...preprocessingFilters(),
+    '-ar',
+    String(WHISPER_SAMPLE_RATE),
+    '-ac',
+    '1',
+    '-c:a',
+    'pcm_s16le',
+    '-f',
+    'wav',
+    outputPath,
+  ]);
+  if (inputPath !== outputPath && fs.existsSync(inputPath)) {
+    fs.unlinkSync(inputPath);
+  }
+
+  const { samples, sampleRate } = readWav(await fs.promises.readFile(outputPath));
+  const durationSeconds = samples.length / sampleRate;
+  if (process.env.AUDIO_VAD === 'off') {
+    return { path: outputPath, durationSeconds, speechSeconds: durationSeconds, trimmedSeconds: 0 };
+  }
+  const { regions, speechSeconds } = detectVoiceActivity(samples, sampleRate);
+  if (!regions.length) {
+    return { path: outputPath, durationSeconds, speechSeconds: 0, trimmedSeconds: 0 };
+  }
+
+  const start = Math.max(0, regions[0].start - SPEECH_PADDING_SECONDS);
+  const end = Math.min(durationSeconds, regions[regions.length - 1].end + SPEECH_PADDING_SECONDS);
+  const trimmed = samples.subarray(Math.floor(start * sampleRate), Math.ceil(end * sampleRate));
+  if (trimmed.length < samples.length) await fs.promises.writeFile(outputPath, writeWav(trimmed, sampleRate));
+  const trimmedDuration = trimmed.length / sampleRate;
+  return {
+    path: outputPath,
+    durationSeconds: trimmedDuration,
+    speechSeconds: roundSeconds(speechSeconds),
+    trimmedSeconds: roundSeconds(durationSeconds - trimmedDuration),
+  };
+}
+
+export function hasSpeech(audio: PreparedAudio): boolean {
+  return audio.speechSeconds >= MIN_SPEECH_SECONDS;
+}
+
+/** Duration of a WAV produced by prepareAudioForWhisper (16 kHz, mono, 16-bit). */
+export async function preparedAudioDuration(wavPath: string): Promise<number> {
+  const { size } = await fs.promises.stat(wavPath);
+  return Math.max(0, (size - 44) / 32_000);
+}
+
+export const SPEECH_CONTENT_TYPES: Record<SpeechFormat, string> = {
+  mp3: 'audio/mpeg',
+  opus: 'audio/ogg',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+  pcm: 'audio/pcm',
+  mulaw: 'audio/basic',
+};
+
+const FFMPEG_OUTPUT_ARGS: Record<SpeechFormat, string[]> = {
+  mp3: ['-c:a', 'libmp3lame', '-f', 'mp3'],
+  opus: ['-c:a', 'libopus', '-f', 'ogg'],
+  aac: ['-c:a', 'aac', '-f', 'adts'],
+  flac: ['-c:a', 'flac', '-f', 'flac'],
+  wav: ['-c:a', 'pcm_s16le', '-f', 'wav'],
+  pcm: ['-c:a', 'pcm_s16le', '-f', 's16le'],
+  mulaw: ['-c:a', 'pcm_mulaw', '-f', 'mulaw'],
+};
+
+/** Sample rates libopus can encode at */
+export const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+function speechFormatOf(contentType: string): SpeechFormat | null {
+  const entry = Object.entries(SPEECH_CONTENT_TYPES).find(([, type]) => type === contentType);
+  return entry ? (entry[0] as SpeechFormat) : null;
+}
+
+/**
+ * Decode one or more clips (any format ffmpeg can probe, so not raw PCM),
+ * join them in order and encode the result as mono `format`, resampled to
+ * `sampleRate` when given.
+ */
+export async function transcodeAudio(
+  parts: Buffer[],
+  { format, sampleRate }: { format: SpeechFormat; sampleRate?: number }
+): Promise<Buffer> {
+  const base = path.join(os.tmpdir(), `speech-${Date.now()}-${randomBytes(4).toString('hex')}`);
+  const inputs = parts.map((_part, i) => `${base}-${i}`);
+  const outputPath = `${base}-out`;
+  try {
+    await Promise.all(parts.map((part, i) => fs.promises.writeFile(inputs[i], part)));
+    await runFfmpeg([
+      ...inputs.flatMap((input) => ['-i', input]),
+      '-filter_complex',
+      `concat=n=${parts.length}:v=0:a=1`,
+      '-ac',
+      '1',
+      ...(sampleRate ? ['-ar', String(sampleRate)] : []),
+      ...FFMPEG_OUTPUT_ARGS[format],
+      outputPath,
+    ]);
+    return await fs.promises.readFile(outputPath);
+  } finally {
+    await Promise.all(
+      [...inputs, outputPath].map((file) => fs.promises.unlink(file).catch(() => {}))
+    );
+  }
+}
+
+/**
+ * Join sentence-sized clips of the same format into one file. MP3 frames and
+ * raw samples can simply be appended; PCM WAV clips (44-byte headers, same
+ * format) are merged into a single data chunk.
+ */
+export function concatAudio(parts: Buffer[], contentType: string): Buffer {
+  if (parts.length <= 1 || !/wav/.test(contentType)) return Buffer.concat(parts);
+  const data = Buffer.concat(parts.map((part) => part.subarray(44)));
+  const header = Buffer.from(parts[0].subarray(0, 44));
+  header.writeUInt32LE(36 + data.length, 4);
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+/** Like concatAudio, but compressed containers (Ogg, AAC, FLAC) are re-encoded through ffmpeg. */
+export async function joinAudio(parts: Buffer[], contentType: string): Promise<Buffer> {
+  const format = speechFormatOf(contentType);
+  if (parts.length > 1 && (format === 'opus' || format === 'aac' || format === 'flac')) {
+    return transcodeAudio(parts, { format });
+  }
+  return concatAudio(parts, contentType);
+}
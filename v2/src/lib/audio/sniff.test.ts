@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowedMime, sniffAudioMime } from './sniff';
+
+function header(prefix: number[] | string, length = 16): Buffer {
+  const bytes = Buffer.alloc(length);
+  (typeof prefix === 'string' ? Buffer.from(prefix, 'latin1') : Buffer.from(prefix)).copy(bytes);
+  return bytes;
+}
+
+describe('sniffAudioMime', () => {
+  it.each([
+    ['RIFF\0\0\0\0WAVE', 'audio/wav'],
+    ['OggS', 'audio/ogg'],
+    ['fLaC', 'audio/flac'],
+    ['\0\0\0\x20ftypM4A ', 'audio/mp4'],
+    ['ID3\x04', 'audio/mpeg'],
+  ])('detects %j as %s', (prefix, mime) => {
+    expect(sniffAudioMime(header(prefix))).toBe(mime);
+  });
+
+  it('tells WebM from other Matroska files', () => {
+    expect(sniffAudioMime(header('\x1a\x45\xdf\xa3....webm', 32))).toBe('audio/webm');
+    expect(sniffAudioMime(header('\x1a\x45\xdf\xa3matroska', 32))).toBe('video/x-matroska');
+  });
+
+  it('tells MP3 frames from AAC ADTS frames', () => {
+    expect(sniffAudioMime(header([0xff, 0xfb, 0x90, 0x64]))).toBe('audio/mpeg');
+    expect(sniffAudioMime(header([0xff, 0xf1, 0x50, 0x80]))).toBe('audio/aac');
+  });
+
+  it('rejects unknown content and short headers', () => {
+    expect(sniffAudioMime(header('%PDF-1.7'))).toBeNull();
+    expect(sniffAudioMime(Buffer.from('OggS'))).toBeNull();
+  });
+});
+
+describe('isAllowedMime', () => {
+  it('allows audio containers only', () => {
+    expect(isAllowedMime('audio/webm')).toBe(true);
+    expect(isAllowedMime('video/x-matroska')).toBe(false);
+  });
+});
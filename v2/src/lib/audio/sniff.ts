@@ -0,0 +1,48 @@
+/**
+ * Container detection from a file's first bytes. Uploads are checked by what
+ * they contain, not by the file name or the type the client declared.
+ */
+
+/** Bytes needed by sniffAudioMime */
+export const SNIFF_BYTES = 64;
+
+const ALLOWED_MIMES = [
+  'audio/wav',
+  'audio/mpeg',
+  'audio/mp3',
+  'audio/webm',
+  'audio/ogg',
+  'audio/flac',
+  'audio/x-wav',
+  'audio/wave',
+  // Safari's MediaRecorder records AAC in MP4
+  'audio/mp4',
+  'audio/aac',
+];
+
+export function isAllowedMime(mimetype: string): boolean {
+  return ALLOWED_MIMES.includes(mimetype);
+}
+
+function ascii(header: Buffer, start: number, end: number): string {
+  return header.toString('latin1', start, end);
+}
+
+/** MIME type of the container, or null when it is not a known audio format. */
+export function sniffAudioMime(header: Buffer): string | null {
+  if (header.length < 12) return null;
+  if (ascii(header, 0, 4) === 'RIFF' && ascii(header, 8, 12) === 'WAVE') return 'audio/wav';
+  if (ascii(header, 0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(header, 0, 4) === 'fLaC') return 'audio/flac';
+  if (ascii(header, 4, 8) === 'ftyp') return 'audio/mp4';
+  if (ascii(header, 0, 3) === 'ID3') return 'audio/mpeg';
+  // EBML: WebM, or Matroska when the doc type says so
+  if (header.readUInt32BE(0) === 0x1a45dfa3) {
+    return ascii(header, 0, header.length).includes('webm') ? 'audio/webm' : 'video/x-matroska';
+  }
+  // MPEG audio frame sync; layer bits 00 mean an AAC ADTS frame instead
+  if (header[0] === 0xff && (header[1] & 0xe0) === 0xe0) {
+    return (header[1] & 0x06) === 0 ? 'audio/aac' : 'audio/mpeg';
+  }
+  return null;
+}
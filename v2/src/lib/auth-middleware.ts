@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateApiKey, type AuthUser } from '@/lib/auth';
+import { hasScope, validateApiKey, type AuthUser, type Scope } from '@/lib/auth';
 
 function isConnectionError(err: unknown): boolean {
   const msg = err instanceof Error ? err.message : String(err);
@@ -10,7 +10,8 @@ function isConnectionError(err: unknown): boolean {
 
 export async function withAuth(
   req: NextRequest,
-  handler: (req: NextRequest, user: AuthUser) => Promise<NextResponse>
+  handler: (req: NextRequest, user: AuthUser) => Promise<NextResponse>,
+  options: { scope?: Scope } = {}
 ): Promise<NextResponse> {
   const authHeader = req.headers.get('authorization');
   if (!authHeader?.startsWith('Bearer ')) {
@@ -31,6 +32,16 @@ export async function withAuth(
         { status: 401 }
       );
     }
+    if (options.scope && !hasScope(user, options.scope)) {
+      return NextResponse.json(
+        {
+          error: 'INSUFFICIENT_SCOPE',
+          message: `This API key lacks the "${options.scope}" scope`,
+          requiredScope: options.scope,
+        },
+        { status: 403 }
+      );
+    }
     return await handler(req, user);
   } catch (err) {
     if (isConnectionError(err)) {
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { canGrantScopes, hasScope, isScope } from './auth';
+
+describe('isScope', () => {
+  it('accepts known scopes and the wildcard', () => {
+    expect(isScope('voice:converse')).toBe(true);
+    expect(isScope('*')).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    expect(isScope('voice:*')).toBe(false);
+    expect(isScope('')).toBe(false);
+    expect(isScope(null)).toBe(false);
+  });
+});
+
+describe('hasScope', () => {
+  it('matches an exact scope', () => {
+    expect(hasScope({ scopes: ['sessions:read'] }, 'sessions:read')).toBe(true);
+    expect(hasScope({ scopes: ['sessions:read'] }, 'sessions:write')).toBe(false);
+  });
+
+  it('grants everything to the wildcard', () => {
+    expect(hasScope({ scopes: ['*'] }, 'keys:manage')).toBe(true);
+  });
+
+  it('does not treat scope prefixes as wildcards', () => {
+    expect(hasScope({ scopes: ['sessions'] }, 'sessions:read')).toBe(false);
+  });
+});
+
+describe('canGrantScopes', () => {
+  it('lets a wildcard key grant anything', () => {
+    expect(canGrantScopes({ scopes: ['*'] }, ['*'])).toBe(true);
+  });
+
+  it('only grants scopes the key holds itself', () => {
+    const admin = { scopes: ['keys:manage', 'voice:converse'] };
+    expect(canGrantScopes(admin, ['voice:converse'])).toBe(true);
+    expect(canGrantScopes(admin, ['voice:converse', 'usage:read'])).toBe(false);
+    expect(canGrantScopes(admin, ['*'])).toBe(false);
+  });
+});
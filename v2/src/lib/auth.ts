@@ -1,38 +1,152 @@
-import crypto from 'crypto';
+import { ObjectId } from 'mongodb';
 import { getDb } from './db';
+import {
+  createApiKey,
+  findActiveApiKey,
+  findActiveApiKeyById,
+  hashApiKey,
+  importApiKeyHash,
+  setApiKeyOrg,
+  type ApiKeyDoc,
+} from './api-keys';
+import {
+  createOrganization,
+  getDefaultOrgId,
+  getMembership,
+  personalOrgName,
+  type OrgRole,
+} from './organizations';
+import { normalizeEmail } from './email';
 
-export function hashApiKey(apiKey: string): string {
-  return crypto.createHash('sha256').update(apiKey).digest('hex');
-}
+export { generateApiKey, hashApiKey } from './api-keys';
 
-export function generateApiKey(): string {
-  return 'sk_' + crypto.randomBytes(32).toString('hex');
-}
+export const SCOPES = [
+  'voice:converse',
+  'sessions:read',
+  'sessions:write',
+  'keys:manage',
+  'usage:read',
+  'org:read',
+  'org:manage',
+  'profiles:read',
+  'profiles:write',
+  'memory:read',
+  'memory:write',
+  'knowledge:read',
+  'knowledge:write',
+  'webhooks:read',
+  'webhooks:write',
+] as const;
+
+export type Scope = (typeof SCOPES)[number];
+
+/** Grants every scope */
+export const WILDCARD_SCOPE = '*';
 
 export interface AuthUser {
   id: string;
   email: string;
+  /** ID of the API key used (an `api_keys` document), for per-key limits */
+  keyId: string;
+  /** Scopes granted to the API key used */
+  scopes: string[];
+  /** Organization the API key acts in */
+  orgId: string;
+  orgRole: OrgRole;
+}
+
+export function isScope(value: unknown): value is Scope | typeof WILDCARD_SCOPE {
+  return value === WILDCARD_SCOPE || (SCOPES as readonly unknown[]).includes(value);
+}
+
+export function hasScope(user: Pick<AuthUser, 'scopes'>, scope: Scope): boolean {
+  return user.scopes.includes(WILDCARD_SCOPE) || user.scopes.includes(scope);
+}
+
+/** A key may only issue, rotate or revoke keys with scopes it holds itself. */
+export function canGrantScopes(user: Pick<AuthUser, 'scopes'>, scopes: string[]): boolean {
+  if (user.scopes.includes(WILDCARD_SCOPE)) return true;
+  return scopes.every((scope) => scope !== WILDCARD_SCOPE && user.scopes.includes(scope));
+}
+
+/**
+ * Keys issued before the `api_keys` collection existed live on the user as
+ * `apiKeyHash`. Move such a key into `api_keys` on first use.
+ */
+async function migrateLegacyKey(hashedKey: string): Promise<ApiKeyDoc | null> {
+  const database = await getDb();
+  const user = await database.collection('users').findOne({ apiKeyHash: hashedKey });
+  if (!user) return null;
+  const key = await importApiKeyHash(user._id.toString(), hashedKey, 'default');
+  await database
+    .collection('users')
+    .updateOne({ _id: user._id }, { $unset: { apiKeyHash: '' }, $set: { updatedAt: new Date() } });
+  return key;
 }
 
 export async function validateApiKey(apiKey: string): Promise<AuthUser | null> {
   const hashedKey = hashApiKey(apiKey);
+  const key = (await findActiveApiKey(hashedKey)) ?? (await migrateLegacyKey(hashedKey));
+  if (!key) return null;
   const database = await getDb();
-  const user = await database.collection('users').findOne({ apiKeyHash: hashedKey });
+  const user = await database.collection('users').findOne({ _id: new ObjectId(key.userId) });
   if (!user) return null;
-  return { id: user._id.toString(), email: user.email as string };
+  const userId = user._id.toString();
+  let orgId = key.orgId;
+  if (!orgId) {
+    orgId = await getDefaultOrgId(userId, user.email as string);
+    await setApiKeyOrg(key._id, orgId);
+  }
+  // Keys stop working in organizations their owner has left
+  const membership = await getMembership(orgId, userId);
+  if (!membership) return null;
+  return {
+    id: userId,
+    email: user.email as string,
+    keyId: key._id.toString(),
+    scopes: key.scopes,
+    orgId,
+    orgRole: membership.role,
+  };
 }
 
+/**
+ * Check again, for work that runs later (queued jobs), that the key `user`
+ * was authenticated with is still active and its owner still a member.
+ * Returns the identity with current scopes and role, or null.
+ */
+export async function reauthorizeUser(user: AuthUser): Promise<AuthUser | null> {
+  const key = await findActiveApiKeyById(user.keyId);
+  if (!key || key.userId !== user.id || (key.orgId ?? user.orgId) !== user.orgId) return null;
+  const membership = await getMembership(user.orgId, user.id);
+  if (!membership) return null;
+  return { ...user, scopes: key.scopes, orgRole: membership.role };
+}
+
+export async function findUserByEmail(email: string): Promise<{ id: string; email: string } | null> {
+  const database = await getDb();
+  const user = await database.collection('users').findOne({ email: normalizeEmail(email) });
+  return user ? { id: user._id.toString(), email: user.email as string } : null;
+}
+
+/** Register a user as owner of a new organization, with a first API key for it. */
 export async function createUser(
-  email: string
-): Promise<{ userId: string; apiKey: string }> {
-  const apiKey = generateApiKey();
-  const hashedKey = hashApiKey(apiKey);
+  email: string,
+  orgName?: string
+): Promise<{ userId: string; orgId: string; apiKey: string }> {
+  const normalized = normalizeEmail(email);
   const database = await getDb();
   const result = await database.collection('users').insertOne({
-    email,
-    apiKeyHash: hashedKey,
+    email: normalized,
     createdAt: new Date(),
     updatedAt: new Date(),
   });
-  return { userId: result.insertedId.toString(), apiKey };
+  const userId = result.insertedId.toString();
+  const org = await createOrganization(orgName || personalOrgName(normalized), userId);
+  const orgId = org._id.toString();
+  await database
+    .collection('users')
+    .updateOne({ _id: result.insertedId }, { $set: { defaultOrgId: orgId } });
+  const { apiKey } = await createApiKey(userId, { name: 'default', orgId });
+  return { userId, orgId, apiKey };
 }
@@ -0,0 +1,122 @@
+import { ObjectId } from 'mongodb';
+import type { AuthUser } from './auth';
+import {
+  getSessionSummary,
+  listMessages,
+  saveSessionSummary,
+  type SessionSummaryState,
+  type StoredMessage,
+} from './conversation';
+import {
+  DEFAULT_MODEL,
+  summarizeConversation,
+  type AgentConfig,
+  type ConversationContext,
+} from './llm';
+import { findRelevantMemories, type MemoryOwner } from './memory';
+import { searchKnowledge } from './knowledge';
+import { recordLlmTokens } from './rate-limit';
+import { recordBackgroundUsage } from './usage';
+import { countFitting } from './tokens';
+
+/**
+ * Conversation context for the LLM: recent messages verbatim within a token
+ * budget, and a rolling summary (stored on the session) of everything older.
+ * Budgets come from the agent config (`historyTokens`, `summaryTokens`).
+ * Relevant long-term memories about the user and knowledge-base excerpts
+ * are added as well.
+ */
+
+const DEFAULT_HISTORY_TOKENS = 2000;
+// Upper bound on messages read per turn; older ones are only in the summary
+const MAX_CONTEXT_MESSAGES = 100;
+
+interface UnsummarizedHistory {
+  summary: SessionSummaryState | null;
+  messages: StoredMessage[];
+}
+
+async function loadUnsummarized(sessionId: string): Promise<UnsummarizedHistory> {
+  const [summary, page] = await Promise.all([
+    getSessionSummary(sessionId),
+    listMessages(sessionId, { limit: MAX_CONTEXT_MESSAGES }),
+  ]);
+  let messages = page.messages;
+  if (summary) {
+    const through = summary.throughMessageId.toString();
+    const index = messages.findIndex((m) => m.id === through);
+    if (index >= 0) messages = messages.slice(index + 1);
+  }
+  return { summary, messages };
+}
+
+/**
+ * The context for the user's next turn in a session, given what they said
+ * and the language it was in, when known.
+ */
+export async function loadContext(
+  owner: MemoryOwner,
+  sessionId: string,
+  userText: string,
+  agent: AgentConfig = {},
+  language: string | null = null
+): Promise<ConversationContext> {
+  const [{ summary, messages }, memories, knowledge] = await Promise.all([
+    loadUnsummarized(sessionId),
+    findRelevantMemories(owner, userText),
+    searchKnowledge(owner.orgId, userText),
+  ]);
+  const budget = agent.historyTokens ?? DEFAULT_HISTORY_TOKENS;
+  // Messages the summary has not caught up with yet are dropped, oldest first
+  const fitting = countFitting(messages, budget, agent.model || DEFAULT_MODEL);
+  return {
+    summary: summary?.text ?? null,
+    messages: messages.slice(messages.length - fitting),
+    memories,
+    knowledge,
+    language,
+    uncertainWords: null,
+  };
+}
+
+/**
+ * Once the unsummarized history exceeds the budget, fold its oldest messages
+ * into the summary until the rest fits in half the budget, so summarization
+ * runs every few turns rather than on every one. Runs after the turn is
+ * answered; failures are logged and retried on the next turn.
+ */
+export async function updateRollingSummary(
+  user: AuthUser,
+  sessionId: string,
+  agent: AgentConfig = {}
+): Promise<void> {
+  try {
+    const { summary, messages } = await loadUnsummarized(sessionId);
+    const budget = agent.historyTokens ?? DEFAULT_HISTORY_TOKENS;
+    const model = agent.model || DEFAULT_MODEL;
+    if (countFitting(messages, budget, model) === messages.length) return;
+
+    const keep = countFitting(messages, Math.floor(budget / 2), model);
+    const folded = messages.slice(0, messages.length - keep);
+    const result = await summarizeConversation(summary?.text ?? null, folded, agent);
+    const { promptTokens, completionTokens } = result.usage;
+    await recordLlmTokens(user, promptTokens + completionTokens);
+    await recordBackgroundUsage(user, {
+      sessionId,
+      task: 'session_summary',
+      llm: { provider: result.provider, model: result.model, promptTokens, completionTokens },
+    });
+    if (!result.summary) return;
+    await saveSessionSummary(
+      sessionId,
+      {
+        text: result.summary,
+        throughMessageId: new ObjectId(folded[folded.length - 1].id),
+        updatedAt: new Date(),
+      },
+      summary
+    );
+  } catch (err) {
+    console.error('[context] Summary not updated:', err instanceof Error ? err.message : err);
+  }
+}
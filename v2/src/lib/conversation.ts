@@ -1,28 +1,104 @@
 import { getDb } from './db';
 import { ObjectId } from 'mongodb';
+import type { ChatMessage, HistoryMessage, MessageInterruption } from './llm';
+import type { ToolCallRecord } from './tools';
+import type { AuthUser } from './auth';
+import { getOrganization } from './organizations';
+import { deleteSessionAudio } from './audio-assets';
+import type { Citation } from './knowledge';
+import type { TranscriptDetails } from './stt';
+import { emitWebhookEvent } from './webhooks';
 
-export async function createSession(userId: string): Promise<string> {
+/** The user a session is opened for, in the organization their key acts in */
+export type SessionOwner = Pick<AuthUser, 'id' | 'orgId'>;
+
+export interface SessionMetadata {
+  /** Agent profile the session was created with (see agent-profiles.ts) */
+  profileId?: string;
+  [key: string]: unknown;
+}
+
+export async function createSession(
+  owner: SessionOwner,
+  metadata: SessionMetadata = {},
+  { language = null }: { language?: string | null } = {}
+): Promise<string> {
   const database = await getDb();
-  const result = await database.collection('sessions').insertOne({
-    userId,
-    createdAt: new Date(),
-    lastActivityAt: new Date(),
-    metadata: {},
-  });
-  return result.insertedId.toString();
+  const now = new Date();
+  const session: SessionDoc = {
+    _id: new ObjectId(),
+    userId: owner.id,
+    orgId: owner.orgId,
+    createdAt: now,
+    lastActivityAt: now,
+    title: null,
+    tags: [],
+    archived: false,
+    language,
+    metadata,
+  };
+  await database.collection<SessionDoc>('sessions').insertOne(session);
+  emitWebhookEvent(owner.orgId, 'session.created', { userId: owner.id, session: toSessionSummary(session) });
+  return session._id.toString();
 }
 
 export interface SessionDoc {
   _id: ObjectId;
   userId: string;
+  /** Missing on sessions created before organizations */
+  orgId?: string;
+  createdAt: Date;
+  lastActivityAt: Date;
+  /** Set by the user, or generated after the first exchange */
+  title?: string | null;
+  tags?: string[];
+  archived?: boolean;
+  /** Language (ISO 639-1) the session is locked to; detected per turn when null */
+  language?: string | null;
+  /** Rolling summary of the messages up to and including `throughMessageId` (see context.ts) */
+  summary?: SessionSummaryState;
+  /** `lastActivityAt` as of the last memory extraction (see memory.ts) */
+  memoryExtractedAt?: Date;
+  metadata?: SessionMetadata;
+}
+
+export interface SessionSummaryState {
+  text: string;
+  throughMessageId: ObjectId;
+  updatedAt: Date;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string | null;
+  tags: string[];
+  archived: boolean;
+  language: string | null;
+  profileId: string | null;
   createdAt: Date;
   lastActivityAt: Date;
-  metadata?: Record<string, unknown>;
 }
 
+export function toSessionSummary(session: SessionDoc): SessionSummary {
+  return {
+    id: session._id.toString(),
+    title: session.title ?? null,
+    tags: session.tags ?? [],
+    archived: session.archived ?? false,
+    language: session.language ?? null,
+    profileId: session.metadata?.profileId ?? null,
+    createdAt: session.createdAt,
+    lastActivityAt: session.lastActivityAt,
+  };
+}
+
+/**
+ * A session the user can read: their own, or a teammate's when the
+ * organization shares conversation history.
+ */
 export async function getSession(
   sessionId: string,
-  userId: string
+  user: SessionOwner
 ): Promise<SessionDoc | null> {
   const database = await getDb();
   let oid: ObjectId;
@@ -31,64 +107,384 @@ export async function getSession(
   } catch {
     return null;
   }
-  const session = await database.collection<SessionDoc>('sessions').findOne({
-    _id: oid,
-    userId,
-  });
-  return session ?? null;
+  const session = await database.collection<SessionDoc>('sessions').findOne({ _id: oid });
+  if (!session) return null;
+  if (session.userId === user.id) return session;
+  if (session.orgId !== user.orgId) return null;
+  const org = await getOrganization(user.orgId);
+  return org?.settings.shareHistory ? session : null;
 }
 
-export async function getOrCreateSession(
+/**
+ * The user's own sessions in the organization they act in, most recently
+ * active first. `before` is the last session ID of the previous page.
+ */
+export async function listSessions(
+  owner: SessionOwner,
+  { limit = 20, before, archived = false }: { limit?: number; before?: string; archived?: boolean | null } = {}
+): Promise<{ sessions: SessionSummary[]; hasMore: boolean }> {
+  const database = await getDb();
+  const sessions = database.collection<SessionDoc>('sessions');
+  // archived: null lists both archived and active sessions
+  const filter: Record<string, unknown> = { orgId: owner.orgId, userId: owner.id };
+  if (archived === true) filter.archived = true;
+  if (archived === false) filter.archived = { $ne: true };
+
+  if (before) {
+    const cursorOid = parseObjectId(before);
+    const cursor =
+      cursorOid &&
+      (await sessions.findOne(
+        { _id: cursorOid, orgId: owner.orgId, userId: owner.id },
+        { projection: { lastActivityAt: 1 } }
+      ));
+    if (!cursor) return { sessions: [], hasMore: false };
+    filter.$or = [
+      { lastActivityAt: { $lt: cursor.lastActivityAt } },
+      { lastActivityAt: cursor.lastActivityAt, _id: { $lt: cursor._id } },
+    ];
+  }
+
+  const rows = await sessions
+    .find(filter)
+    .sort({ lastActivityAt: -1, _id: -1 })
+    .limit(limit + 1)
+    .toArray();
+  return { sessions: rows.slice(0, limit).map(toSessionSummary), hasMore: rows.length > limit };
+}
+
+/** Update one of the user's own sessions; null if it does not exist. */
+export async function updateSession(
+  sessionId: string,
   userId: string,
+  update: { title?: string | null; tags?: string[]; archived?: boolean; language?: string | null }
+): Promise<SessionDoc | null> {
+  const oid = parseObjectId(sessionId);
+  if (!oid) return null;
+  const database = await getDb();
+  return database
+    .collection<SessionDoc>('sessions')
+    .findOneAndUpdate({ _id: oid, userId }, { $set: update }, { returnDocument: 'after' });
+}
+
+/** Set a generated title unless the session already has one (e.g. set by the user). */
+export async function setSessionTitleIfMissing(sessionId: string, title: string): Promise<void> {
+  const database = await getDb();
+  await database
+    .collection<SessionDoc>('sessions')
+    .updateOne({ _id: new ObjectId(sessionId), title: null }, { $set: { title } });
+}
+
+/** Delete one of the user's own sessions with its messages and stored audio. */
+export async function deleteSession(sessionId: string, userId: string): Promise<boolean> {
+  const oid = parseObjectId(sessionId);
+  if (!oid) return false;
+  const database = await getDb();
+  const session = await database.collection<SessionDoc>('sessions').findOne({ _id: oid, userId });
+  if (!session) return false;
+  await deleteSessionAudio(oid);
+  await database.collection('messages').deleteMany({ sessionId: oid });
+  await database.collection<SessionDoc>('sessions').deleteOne({ _id: oid });
+  return true;
+}
+
+/** Continue one of the user's own sessions, or start a new one. */
+export async function getOrCreateSession(
+  owner: SessionOwner,
   sessionId: string | null
 ): Promise<string> {
   if (sessionId) {
-    const session = await getSession(sessionId, userId);
-    if (session) {
-      const database = await getDb();
-      await database
-        .collection('sessions')
-        .updateOne(
-          { _id: session._id },
-          { $set: { lastActivityAt: new Date() } }
-        );
+    const session = await getSession(sessionId, owner);
+    if (session?.userId === owner.id) {
+      await touchSession(sessionId);
       return sessionId;
     }
   }
-  return createSession(userId);
+  return createSession(owner);
 }
 
-export async function getConversationHistory(
-  sessionId: string,
-  limit = 20
-): Promise<{ role: string; content: string }[]> {
+/** Mark the session active now, for the recency order and memory extraction. */
+export async function touchSession(sessionId: string): Promise<void> {
   const database = await getDb();
-  let oid: ObjectId;
+  await database
+    .collection<SessionDoc>('sessions')
+    .updateOne({ _id: new ObjectId(sessionId) }, { $set: { lastActivityAt: new Date() } });
+}
+
+export async function getSessionProfileId(sessionId: string): Promise<string | null> {
+  const database = await getDb();
+  const session = await database
+    .collection<SessionDoc>('sessions')
+    .findOne({ _id: new ObjectId(sessionId) }, { projection: { metadata: 1 } });
+  return session?.metadata?.profileId ?? null;
+}
+
+/** The language the session is locked to, if any. */
+export async function getSessionLanguage(sessionId: string): Promise<string | null> {
+  const database = await getDb();
+  const session = await database
+    .collection<SessionDoc>('sessions')
+    .findOne({ _id: new ObjectId(sessionId) }, { projection: { language: 1 } });
+  return session?.language ?? null;
+}
+
+function parseObjectId(id: string): ObjectId | null {
   try {
-    oid = new ObjectId(sessionId);
+    return new ObjectId(id);
   } catch {
-    return [];
+    return null;
   }
-  const messages = await database
+}
+
+export async function getSessionSummary(sessionId: string): Promise<SessionSummaryState | null> {
+  const database = await getDb();
+  const session = await database
+    .collection<SessionDoc>('sessions')
+    .findOne({ _id: new ObjectId(sessionId) }, { projection: { summary: 1 } });
+  return session?.summary ?? null;
+}
+
+/**
+ * Store a new rolling summary, unless another turn replaced `previous` in the
+ * meantime. Returns whether it was stored.
+ */
+export async function saveSessionSummary(
+  sessionId: string,
+  summary: SessionSummaryState,
+  previous: SessionSummaryState | null
+): Promise<boolean> {
+  const database = await getDb();
+  const result = await database.collection<SessionDoc>('sessions').updateOne(
+    {
+      _id: new ObjectId(sessionId),
+      'summary.throughMessageId': previous ? previous.throughMessageId : { $exists: false },
+    },
+    { $set: { summary } }
+  );
+  return result.modifiedCount > 0;
+}
+
+export interface MessagePage {
+  /** Oldest first */
+  messages: StoredMessage[];
+  /** Whether messages older than the first / newer than the last exist */
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+/**
+ * One page of a session's messages, oldest first. Without a cursor, returns
+ * the latest page; `before` / `after` (a message ID) page towards older or
+ * newer messages. Ordered by `createdAt`, then `_id` for equal timestamps.
+ */
+export async function listMessages(
+  sessionId: string,
+  { limit = 20, before, after }: { limit?: number; before?: string; after?: string } = {}
+): Promise<MessagePage> {
+  const empty = { messages: [], hasOlder: false, hasNewer: false };
+  const sessionOid = parseObjectId(sessionId);
+  if (!sessionOid) return empty;
+  const database = await getDb();
+  const messages = database.collection('messages');
+
+  const cursorId = after ?? before;
+  let range: Record<string, unknown> = {};
+  if (cursorId) {
+    const cursorOid = parseObjectId(cursorId);
+    const cursor = cursorOid
+      ? await messages.findOne({ _id: cursorOid, sessionId: sessionOid }, { projection: { createdAt: 1 } })
+      : null;
+    if (!cursor) return empty;
+    const op = after ? '$gt' : '$lt';
+    range = {
+      $or: [
+        { createdAt: { [op]: cursor.createdAt } },
+        { createdAt: cursor.createdAt, _id: { [op]: cursor._id } },
+      ],
+    };
+  }
+
+  // Newest first, unless paging forwards; one extra row tells whether there are more
+  const direction = after ? 1 : -1;
+  const rows = await messages
+    .find({ sessionId: sessionOid, ...range })
+    .sort({ createdAt: direction, _id: direction })
+    .limit(limit + 1)
+    .toArray();
+  const more = rows.length > limit;
+  const page = rows.slice(0, limit).map(toStoredMessage);
+  if (!after) page.reverse();
+  return {
+    messages: page,
+    hasOlder: after ? true : more,
+    hasNewer: after ? more : Boolean(before),
+  };
+}
+
+export interface MessageSearchResult extends StoredMessage {
+  sessionId: string;
+  score: number;
+}
+
+/**
+ * Full-text search (MongoDB text index on `content`) over the user's own
+ * sessions in the organization they act in.
+ */
+export async function searchMessages(
+  owner: SessionOwner,
+  query: string,
+  { limit = 20, offset = 0 }: { limit?: number; offset?: number } = {}
+): Promise<MessageSearchResult[]> {
+  const database = await getDb();
+  const sessions = await database
+    .collection<SessionDoc>('sessions')
+    .find({ orgId: owner.orgId, userId: owner.id }, { projection: { _id: 1 } })
+    .toArray();
+  if (!sessions.length) return [];
+  const rows = await database
     .collection('messages')
-    .find({ sessionId: oid })
-    .sort({ createdAt: 1 })
+    .find(
+      { $text: { $search: query }, sessionId: { $in: sessions.map((s) => s._id) } },
+      { projection: { score: { $meta: 'textScore' } } }
+    )
+    .sort({ score: { $meta: 'textScore' }, createdAt: -1 })
+    .skip(offset)
     .limit(limit)
     .toArray();
-  return messages.map((m) => ({ role: m.role as string, content: m.content as string }));
+  return rows.map((m) => ({
+    ...toStoredMessage(m),
+    sessionId: String(m.sessionId),
+    score: m.score as number,
+  }));
 }
 
+/** A message as stored, with the IDs needed to link to it and its audio. */
+export interface StoredMessage extends HistoryMessage {
+  id: string;
+  createdAt: Date;
+  audioAssetId?: string;
+  citations?: Citation[];
+  language?: string;
+  transcript?: TranscriptDetails;
+  clarification?: boolean;
+}
+
+function toStoredMessage(m: Record<string, unknown>): StoredMessage {
+  return {
+    id: String(m._id),
+    role: m.role as ChatMessage['role'],
+    content: m.content as string,
+    createdAt: m.createdAt as Date,
+    ...(m.toolCalls ? { toolCalls: m.toolCalls as ToolCallRecord[] } : {}),
+    ...(m.audioAssetId ? { audioAssetId: String(m.audioAssetId) } : {}),
+    ...(m.citations ? { citations: m.citations as Citation[] } : {}),
+    ...(m.language ? { language: m.language as string } : {}),
+    ...(m.transcript ? { transcript: m.transcript as TranscriptDetails } : {}),
+    ...(m.clarification ? { clarification: true } : {}),
+    ...(m.interruption ? { interruption: m.interruption as MessageInterruption } : {}),
+  };
+}
+
+export async function getMessage(sessionId: string, messageId: string): Promise<StoredMessage | null> {
+  const database = await getDb();
+  const oid = parseObjectId(messageId);
+  if (!oid) return null;
+  const message = await database
+    .collection('messages')
+    .findOne({ _id: oid, sessionId: new ObjectId(sessionId) });
+  return message ? toStoredMessage(message) : null;
+}
+
+export interface MessageExtras {
+  /** Tool calls the assistant made while producing this message */
+  toolCalls?: ToolCallRecord[];
+  /** Recorded or synthesized audio for this message (see audio-assets.ts) */
+  audioAssetId?: string | null;
+  /** Knowledge-base excerpts the reply was based on */
+  citations?: Citation[];
+  /** ISO 639-1 code of the language the message is in */
+  language?: string | null;
+  /** Segments, word timings and confidence of a spoken user message */
+  transcript?: TranscriptDetails;
+  /** The assistant asked the user to confirm a low-confidence transcript */
+  clarification?: boolean;
+  /** The user talked over the spoken reply */
+  interruption?: MessageInterruption | null;
+}
+
+/** Returns the new message's ID. */
 export async function saveMessage(
   sessionId: string,
   role: string,
-  content: string
-): Promise<void> {
+  content: string,
+  extras: MessageExtras = {}
+): Promise<string> {
   const database = await getDb();
   const oid = new ObjectId(sessionId);
-  await database.collection('messages').insertOne({
+  const message = {
+    _id: new ObjectId(),
     sessionId: oid,
     role,
     content,
+    ...(extras.toolCalls?.length ? { toolCalls: extras.toolCalls } : {}),
+    ...(extras.audioAssetId ? { audioAssetId: new ObjectId(extras.audioAssetId) } : {}),
+    ...(extras.citations?.length ? { citations: extras.citations } : {}),
+    ...(extras.language ? { language: extras.language } : {}),
+    ...(extras.transcript ? { transcript: extras.transcript } : {}),
+    ...(extras.clarification ? { clarification: true } : {}),
+    ...(extras.interruption ? { interruption: extras.interruption } : {}),
     createdAt: new Date(),
+  };
+  await database.collection('messages').insertOne(message);
+  void notifyMessageCreated(oid, toStoredMessage(message)).catch((err) =>
+    console.error('[webhooks] message.created not dispatched:', err instanceof Error ? err.message : err)
+  );
+  return message._id.toString();
+}
+
+// Webhooks go to the session's organization, looked up after the message is saved
+async function notifyMessageCreated(sessionId: ObjectId, message: StoredMessage): Promise<void> {
+  const database = await getDb();
+  const session = await database
+    .collection<SessionDoc>('sessions')
+    .findOne({ _id: sessionId }, { projection: { userId: 1, orgId: 1 } });
+  if (!session) return;
+  emitWebhookEvent(session.orgId, 'message.created', {
+    sessionId: sessionId.toString(),
+    userId: session.userId,
+    message,
   });
 }
+
+const MAX_HEARD_TEXT_LENGTH = 20000;
+
+/** `heardText` as sent with an interruption: optional, a string when present. */
+export function validateHeardText(
+  value: unknown
+): { valid: true; heardText: string | null } | { valid: false; error: string } {
+  if (value === undefined || value === null) return { valid: true, heardText: null };
+  if (typeof value !== 'string' || value.length > MAX_HEARD_TEXT_LENGTH) {
+    return { valid: false, error: `heardText must be a string (max ${MAX_HEARD_TEXT_LENGTH} characters)` };
+  }
+  return { valid: true, heardText: value.trim() };
+}
+
+/**
+ * Mark an assistant message as cut short by the user (barge-in), keeping the
+ * part they heard. Returns null when there is no such assistant message.
+ */
+export async function markMessageInterrupted(
+  sessionId: string,
+  messageId: string,
+  heardText: string | null
+): Promise<MessageInterruption | null> {
+  const oid = parseObjectId(messageId);
+  const sessionOid = parseObjectId(sessionId);
+  if (!oid || !sessionOid) return null;
+  const interruption: MessageInterruption = { heardText, interruptedAt: new Date() };
+  const database = await getDb();
+  const result = await database
+    .collection('messages')
+    .updateOne({ _id: oid, sessionId: sessionOid, role: 'assistant' }, { $set: { interruption } });
+  return result.matchedCount ? interruption : null;
+}
@@ -1,23 +1,83 @@
-import { MongoClient, Db } from 'mongodb';
+import { MongoClient, Db, type CreateIndexesOptions, type IndexSpecification } from 'mongodb';
 
 const uri = process.env.MONGODB_URI ?? '';
 let client: MongoClient | null = null;
 let db: Db | null = null;
 let indexesEnsured = false;
+// Webhook delivery logs are kept this long
+const WEBHOOK_DELIVERY_RETENTION_SECONDS = 30 * 24 * 60 * 60;
 
+type IndexSpec = [collection: string, keys: IndexSpecification, options?: CreateIndexesOptions];
+
+// Unique indexes the data model relies on: without them duplicate users,
+// API keys, memberships or invitations could be written, so startup fails instead
+const REQUIRED_INDEXES: IndexSpec[] = [
+  ['users', { email: 1 }, { unique: true }],
+  ['api_keys', { keyHash: 1 }, { unique: true }],
+  ['memberships', { orgId: 1, userId: 1 }, { unique: true }],
+  ['org_invitations', { orgId: 1, email: 1 }, { unique: true }],
+];
+
+const INDEXES: IndexSpec[] = [
+  ['users', { apiKeyHash: 1 }],
+  ['api_keys', { userId: 1, createdAt: -1 }],
+  ['memberships', { userId: 1 }],
+  ['org_invitations', { email: 1 }],
+  ['org_invitations', { expiresAt: 1 }, { expireAfterSeconds: 0 }],
+  ['agent_profiles', { orgId: 1, name: 1 }],
+  ['sessions', { orgId: 1, userId: 1, lastActivityAt: -1, _id: -1 }],
+  ['sessions', { userId: 1 }],
+  ['sessions', { lastActivityAt: 1 }],
+  ['messages', { sessionId: 1 }],
+  ['messages', { sessionId: 1, createdAt: 1, _id: 1 }],
+  ['messages', { content: 'text' }],
+  ['audio_assets', { createdAt: 1 }],
+  ['audio_assets', { sessionId: 1 }],
+  ['memories', { userId: 1, orgId: 1, updatedAt: -1 }],
+  ['memories', { userId: 1, orgId: 1, content: 'text' }],
+  ['knowledge_documents', { orgId: 1, createdAt: -1 }],
+  ['knowledge_chunks', { orgId: 1, model: 1 }],
+  ['knowledge_chunks', { documentId: 1 }],
+  ['usage', { userId: 1, createdAt: 1 }],
+  ['usage', { orgId: 1, createdAt: 1 }],
+  ['voice_jobs', { status: 1, runAt: 1 }],
+  ['voice_jobs', { 'user.id': 1, createdAt: -1 }],
+  ['voice_jobs', { 'webhook.nextAttemptAt': 1 }],
+  ['webhook_endpoints', { orgId: 1, events: 1 }],
+  ['webhook_deliveries', { endpointId: 1, _id: -1 }],
+  ['webhook_deliveries', { nextAttemptAt: 1 }],
+  ['webhook_deliveries', { createdAt: 1 }, { expireAfterSeconds: WEBHOOK_DELIVERY_RETENTION_SECONDS }],
+  ['rate_limits', { expiresAt: 1 }, { expireAfterSeconds: 0 }],
+];
+
+function describeIndex([collection, keys]: IndexSpec): string {
+  return `${collection} ${JSON.stringify(keys)}`;
+}
+
+/**
+ * Create the app's indexes, one at a time so one failure does not skip the
+ * rest. Failures are logged; a required index that cannot be created throws.
+ */
 async function ensureIndexes(database: Db): Promise<void> {
   if (indexesEnsured) return;
-  indexesEnsured = true;
-  try {
-    await database.collection('users').createIndex({ apiKeyHash: 1 });
-    await database.collection('users').createIndex({ email: 1 }, { unique: true });
-    await database.collection('sessions').createIndex({ userId: 1 });
-    await database.collection('sessions').createIndex({ lastActivityAt: 1 });
-    await database.collection('messages').createIndex({ sessionId: 1 });
-    await database.collection('messages').createIndex({ sessionId: 1, createdAt: 1 });
-  } catch {
-    // Ignore if indexes already exist or DB is read-only
+  for (const spec of REQUIRED_INDEXES) {
+    const [collection, keys, options] = spec;
+    try {
+      await database.collection(collection).createIndex(keys, options);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new Error(`Required index ${describeIndex(spec)} could not be created: ${reason}`);
+    }
+  }
+  for (const spec of INDEXES) {
+    const [collection, keys, options] = spec;
+    try {
+      await database.collection(collection).createIndex(keys, options);
+    } catch (err) {
+      console.error(`[db] Index ${describeIndex(spec)} not created:`, err instanceof Error ? err.message : err);
+    }
   }
+  indexesEnsured = true;
 }
 
 export async function getDb(): Promise<Db> {
@@ -25,7 +85,14 @@ export async function getDb(): Promise<Db> {
   if (!uri) throw new Error('MONGODB_URI is not set');
   client = new MongoClient(uri);
   await client.connect();
-  db = client.db();
-  await ensureIndexes(db);
+  const database = client.db();
+  try {
+    await ensureIndexes(database);
+  } catch (err) {
+    await client.close().catch(() => {});
+    client = null;
+    throw err;
+  }
+  db = database;
   return db;
 }
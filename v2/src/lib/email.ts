@@ -0,0 +1,7 @@
+/**
+ * Emails are stored and compared trimmed and lowercased, so "Ana@Example.com "
+ * registers, is invited and is looked up as "ana@example.com".
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
@@ -0,0 +1,97 @@
+import { splitSentences } from '../sentences';
+import { countTokens } from '../tokens';
+
+export interface TextChunk {
+  /** Position in the document, from 0 */
+  index: number;
+  text: string;
+  /** Nearest markdown heading above the chunk, if any */
+  heading: string | null;
+}
+
+const DEFAULT_MAX_TOKENS = 400;
+const DEFAULT_OVERLAP_TOKENS = 60;
+// Tokenizer used for sizing; close enough for any embedding model
+const SIZING_MODEL = 'text-embedding-3-small';
+
+const HEADING = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+/** Paragraphs, or sentences and then word runs when a paragraph is too long. */
+function splitUnits(paragraph: string, maxTokens: number): string[] {
+  if (countTokens(paragraph, SIZING_MODEL) <= maxTokens) return [paragraph];
+  const units: string[] = [];
+  for (const sentence of splitSentences(paragraph, { final: true, minLength: 1 }).sentences) {
+    if (countTokens(sentence, SIZING_MODEL) <= maxTokens) {
+      units.push(sentence);
+      continue;
+    }
+    const words = sentence.split(/\s+/);
+    // Rough: about 0.75 words per token
+    const step = Math.max(1, Math.floor(maxTokens * 0.75));
+    for (let i = 0; i < words.length; i += step) units.push(words.slice(i, i + step).join(' '));
+  }
+  return units;
+}
+
+/**
+ * Split a document into chunks of at most `maxTokens`, on paragraph and
+ * sentence boundaries where possible. Consecutive chunks share up to
+ * `overlapTokens` of text so facts at a boundary are found from both sides.
+ */
+export function chunkText(
+  text: string,
+  { maxTokens = DEFAULT_MAX_TOKENS, overlapTokens = DEFAULT_OVERLAP_TOKENS } = {}
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let heading: string | null = null;
+  let chunkHeading: string | null = null;
+  let units: { text: string; tokens: number }[] = [];
+  let unitTokens = 0;
+  // Whether `units` holds more than the overlap carried from the last chunk
+  let hasNewText = false;
+
+  const reset = (keep: typeof units = []) => {
+    units = keep;
+    unitTokens = keep.reduce((sum, u) => sum + u.tokens, 0);
+  };
+
+  const flush = () => {
+    if (!hasNewText) return;
+    chunks.push({ index: chunks.length, text: units.map((u) => u.text).join('\n\n'), heading: chunkHeading });
+    hasNewText = false;
+    const carried: typeof units = [];
+    let carriedTokens = 0;
+    for (let i = units.length - 1; i >= 0; i--) {
+      if (carriedTokens + units[i].tokens > overlapTokens) break;
+      carried.unshift(units[i]);
+      carriedTokens += units[i].tokens;
+    }
+    reset(carried);
+  };
+
+  const paragraphs = text.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  for (const raw of paragraphs) {
+    const paragraph = raw.trim();
+    if (!paragraph) continue;
+    const match = paragraph.match(HEADING);
+    if (match && !paragraph.includes('\n')) {
+      // A new section starts a new chunk, without overlap from the previous one
+      flush();
+      reset();
+      heading = match[1];
+    }
+    for (const unit of splitUnits(paragraph, maxTokens)) {
+      const tokens = countTokens(unit, SIZING_MODEL);
+      if (unitTokens + tokens > maxTokens) {
+        flush();
+        if (unitTokens + tokens > maxTokens) reset();
+      }
+      if (!units.length) chunkHeading = heading;
+      units.push({ text: unit, tokens });
+      unitTokens += tokens;
+      hasNewText = true;
+    }
+  }
+  flush();
+  return chunks;
+}
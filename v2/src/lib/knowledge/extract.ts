@@ -0,0 +1,52 @@
+import path from 'path';
+
+export type DocumentFormat = 'pdf' | 'markdown' | 'text';
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  '.pdf': 'pdf',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text',
+};
+
+const FORMATS_BY_MIME: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/plain': 'text',
+};
+
+/** Format from the file name, else the declared type; null if unsupported. */
+export function detectFormat(filename: string, contentType: string): DocumentFormat | null {
+  return (
+    FORMATS_BY_EXTENSION[path.extname(filename).toLowerCase()] ??
+    FORMATS_BY_MIME[contentType.split(';')[0].trim()] ??
+    null
+  );
+}
+
+export async function extractText(
+  data: Buffer,
+  format: DocumentFormat
+): Promise<{ valid: true; text: string; pages: number | null } | { valid: false; error: string }> {
+  if (format !== 'pdf') {
+    const text = data.toString('utf8').replace(/^\uFEFF/, '');
+    return text.trim() ? { valid: true, text, pages: null } : { valid: false, error: 'Document is empty' };
+  }
+  if (data.subarray(0, 5).toString('latin1') !== '%PDF-') {
+    return { valid: false, error: 'File is not a PDF' };
+  }
+  try {
+    // Loaded on demand: PDF.js is large and only needed for uploads
+    const { extractText: extractPdfText, getDocumentProxy } = await import('unpdf');
+    const pdf = await getDocumentProxy(new Uint8Array(data));
+    const { totalPages, text } = await extractPdfText(pdf, { mergePages: false });
+    const joined = text.map((page) => page.trim()).join('\n\n');
+    if (!joined.trim()) {
+      return { valid: false, error: 'No text found in PDF (scanned documents are not supported)' };
+    }
+    return { valid: true, text: joined, pages: totalPages };
+  } catch (err) {
+    return { valid: false, error: `Could not read PDF: ${err instanceof Error ? err.message : 'unknown error'}` };
+  }
+}
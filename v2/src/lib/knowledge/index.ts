@@ -0,0 +1,263 @@
+import { ObjectId } from 'mongodb';
+import { getDb } from '../db';
+import type { AuthUser } from '../auth';
+import { getEmbeddingProvider } from '../providers';
+import { chunkText } from './chunking';
+import { detectFormat, extractText, type DocumentFormat } from './extract';
+import {
+  createAtlasVectorStore,
+  createMemoryVectorStore,
+  type KnowledgeChunkDoc,
+  type VectorStore,
+} from './stores';
+
+export type { VectorStore } from './stores';
+
+/**
+ * Knowledge base: documents (PDF, markdown, text) uploaded to an
+ * organization, split into chunks and embedded. Turns retrieve the chunks
+ * closest to what the user said and cite them.
+ */
+
+const DEFAULT_MAX_FILE_MB = 10;
+const MAX_CHUNKS_PER_DOCUMENT = 2000;
+const DEFAULT_TOP_K = 4;
+const DEFAULT_MIN_SCORE = 0.3;
+const EXCERPT_LENGTH = 200;
+
+export interface KnowledgeDocumentDoc {
+  _id: ObjectId;
+  orgId: string;
+  uploadedBy: string;
+  title: string;
+  filename: string;
+  format: DocumentFormat;
+  size: number;
+  pages: number | null;
+  chunkCount: number;
+  embeddingModel: string;
+  createdAt: Date;
+}
+
+export interface KnowledgeDocumentInfo {
+  id: string;
+  title: string;
+  filename: string;
+  format: DocumentFormat;
+  size: number;
+  pages: number | null;
+  chunkCount: number;
+  embeddingModel: string;
+  uploadedBy: string;
+  createdAt: Date;
+}
+
+/** A chunk retrieved for a turn, as given to the model. */
+export interface RetrievedChunk {
+  documentId: string;
+  title: string;
+  heading: string | null;
+  chunkIndex: number;
+  text: string;
+  score: number;
+}
+
+/** Where part of an answer came from; stored on the assistant message. */
+export interface Citation {
+  documentId: string;
+  title: string;
+  heading: string | null;
+  chunkIndex: number;
+  excerpt: string;
+  score: number;
+}
+
+const stores = new Map<string, () => VectorStore>();
+let active: VectorStore | null = null;
+
+export function registerVectorStore(name: string, factory: () => VectorStore): void {
+  stores.set(name, factory);
+}
+
+registerVectorStore('memory', createMemoryVectorStore);
+registerVectorStore('atlas', createAtlasVectorStore);
+
+/** Store chosen by `KNOWLEDGE_VECTOR_STORE` (default `memory`). */
+export function getVectorStore(): VectorStore {
+  if (active) return active;
+  const name = process.env.KNOWLEDGE_VECTOR_STORE || 'memory';
+  const factory = stores.get(name);
+  if (!factory) throw new Error(`Unknown vector store "${name}"`);
+  active = factory();
+  return active;
+}
+
+export function maxDocumentBytes(): number {
+  const mb = Number(process.env.KNOWLEDGE_MAX_FILE_MB) || DEFAULT_MAX_FILE_MB;
+  return mb * 1024 * 1024;
+}
+
+export function toKnowledgeDocumentInfo(doc: KnowledgeDocumentDoc): KnowledgeDocumentInfo {
+  return {
+    id: doc._id.toString(),
+    title: doc.title,
+    filename: doc.filename,
+    format: doc.format,
+    size: doc.size,
+    pages: doc.pages,
+    chunkCount: doc.chunkCount,
+    embeddingModel: doc.embeddingModel,
+    uploadedBy: doc.uploadedBy,
+    createdAt: doc.createdAt,
+  };
+}
+
+export function toCitation(chunk: RetrievedChunk): Citation {
+  return {
+    documentId: chunk.documentId,
+    title: chunk.title,
+    heading: chunk.heading,
+    chunkIndex: chunk.chunkIndex,
+    excerpt: chunk.text.length > EXCERPT_LENGTH ? `${chunk.text.slice(0, EXCERPT_LENGTH)}…` : chunk.text,
+    score: Math.round(chunk.score * 1000) / 1000,
+  };
+}
+
+function parseDocumentId(documentId: string): ObjectId | null {
+  try {
+    return new ObjectId(documentId);
+  } catch {
+    return null;
+  }
+}
+
+// Title and section go into the embedded text so a chunk matches questions about its topic
+function embeddingInput(title: string, heading: string | null, text: string): string {
+  return `${title}${heading && heading !== title ? ` — ${heading}` : ''}\n\n${text}`;
+}
+
+/** Parse, chunk and embed an uploaded file. */
+export async function addKnowledgeDocument(
+  user: Pick<AuthUser, 'id' | 'orgId'>,
+  file: { filename: string; contentType: string; data: Buffer; title?: string }
+): Promise<{ valid: true; document: KnowledgeDocumentDoc } | { valid: false; error: string }> {
+  const format = detectFormat(file.filename, file.contentType);
+  if (!format) {
+    return { valid: false, error: 'Unsupported file type; upload PDF, markdown (.md) or plain text (.txt)' };
+  }
+  const extracted = await extractText(file.data, format);
+  if (!extracted.valid) return extracted;
+  const chunks = chunkText(extracted.text);
+  if (!chunks.length) return { valid: false, error: 'Document has no text' };
+  if (chunks.length > MAX_CHUNKS_PER_DOCUMENT) {
+    return { valid: false, error: `Document is too long (max ${MAX_CHUNKS_PER_DOCUMENT} chunks)` };
+  }
+
+  const title = file.title?.trim() || file.filename.replace(/\.[^.]+$/, '');
+  const embedder = getEmbeddingProvider();
+  const vectors = await embedder.embed(chunks.map((c) => embeddingInput(title, c.heading, c.text)));
+  const now = new Date();
+  const document: KnowledgeDocumentDoc = {
+    _id: new ObjectId(),
+    orgId: user.orgId,
+    uploadedBy: user.id,
+    title,
+    filename: file.filename,
+    format,
+    size: file.data.length,
+    pages: extracted.pages,
+    chunkCount: chunks.length,
+    embeddingModel: embedder.model,
+    createdAt: now,
+  };
+
+  const database = await getDb();
+  await database.collection<KnowledgeChunkDoc>('knowledge_chunks').insertMany(
+    chunks.map((chunk, i) => ({
+      _id: new ObjectId(),
+      orgId: user.orgId,
+      documentId: document._id,
+      index: chunk.index,
+      text: chunk.text,
+      heading: chunk.heading,
+      embedding: vectors[i],
+      model: embedder.model,
+      createdAt: now,
+    }))
+  );
+  await database.collection<KnowledgeDocumentDoc>('knowledge_documents').insertOne(document);
+  getVectorStore().invalidate(user.orgId);
+  return { valid: true, document };
+}
+
+export async function listKnowledgeDocuments(orgId: string): Promise<KnowledgeDocumentInfo[]> {
+  const database = await getDb();
+  const docs = await database
+    .collection<KnowledgeDocumentDoc>('knowledge_documents')
+    .find({ orgId })
+    .sort({ createdAt: -1 })
+    .toArray();
+  return docs.map(toKnowledgeDocumentInfo);
+}
+
+export async function getKnowledgeDocument(orgId: string, documentId: string): Promise<KnowledgeDocumentDoc | null> {
+  const oid = parseDocumentId(documentId);
+  if (!oid) return null;
+  const database = await getDb();
+  return database.collection<KnowledgeDocumentDoc>('knowledge_documents').findOne({ _id: oid, orgId });
+}
+
+/** Delete a document and its chunks. Citations already stored on messages remain. */
+export async function deleteKnowledgeDocument(orgId: string, documentId: string): Promise<boolean> {
+  const oid = parseDocumentId(documentId);
+  if (!oid) return false;
+  const database = await getDb();
+  const result = await database
+    .collection<KnowledgeDocumentDoc>('knowledge_documents')
+    .deleteOne({ _id: oid, orgId });
+  if (!result.deletedCount) return false;
+  await database.collection('knowledge_chunks').deleteMany({ documentId: oid, orgId });
+  getVectorStore().invalidate(orgId);
+  return true;
+}
+
+/**
+ * The organization's chunks closest to `query`, best first, scoring at least
+ * `KNOWLEDGE_MIN_SCORE` (cosine similarity, default 0.3). Organizations
+ * without documents are skipped without calling the embedding provider.
+ */
+export async function searchKnowledge(
+  orgId: string,
+  query: string,
+  { limit = Number(process.env.KNOWLEDGE_TOP_K) || DEFAULT_TOP_K } = {}
+): Promise<RetrievedChunk[]> {
+  if (!query.trim()) return [];
+  const database = await getDb();
+  const documents = database.collection<KnowledgeDocumentDoc>('knowledge_documents');
+  if (!(await documents.findOne({ orgId }, { projection: { _id: 1 } }))) return [];
+
+  const embedder = getEmbeddingProvider();
+  const [vector] = await embedder.embed([query]);
+  const minScore = process.env.KNOWLEDGE_MIN_SCORE ? Number(process.env.KNOWLEDGE_MIN_SCORE) : DEFAULT_MIN_SCORE;
+  const chunks = (await getVectorStore().search(orgId, embedder.model, vector, limit)).filter(
+    (c) => c.score >= minScore
+  );
+  if (!chunks.length) return [];
+
+  const titles = new Map(
+    (
+      await documents
+        .find({ _id: { $in: chunks.map((c) => c.documentId) } }, { projection: { title: 1 } })
+        .toArray()
+    ).map((d) => [d._id.toString(), d.title])
+  );
+  // Chunks whose document is gone (deleted, or a failed upload) are skipped
+  return chunks.filter((c) => titles.has(c.documentId.toString())).map((c) => ({
+    documentId: c.documentId.toString(),
+    title: titles.get(c.documentId.toString()) ?? 'Untitled',
+    heading: c.heading,
+    chunkIndex: c.index,
+    text: c.text,
+    score: c.score,
+  }));
+}
@@ -0,0 +1,116 @@
+import { ObjectId } from 'mongodb';
+import { getDb } from '../db';
+
+export interface KnowledgeChunkDoc {
+  _id: ObjectId;
+  orgId: string;
+  documentId: ObjectId;
+  index: number;
+  text: string;
+  heading: string | null;
+  embedding: number[];
+  /** Embedding model; only vectors of the same model are compared */
+  model: string;
+  createdAt: Date;
+}
+
+export type ScoredChunk = Omit<KnowledgeChunkDoc, 'embedding'> & { score: number };
+
+/**
+ * Nearest-neighbour search over an organization's chunks. Chunks are always
+ * stored in `knowledge_chunks`; stores differ in how they are searched.
+ */
+export interface VectorStore {
+  name: string;
+  search(orgId: string, model: string, vector: number[], limit: number): Promise<ScoredChunk[]>;
+  /** Called after an organization's documents change */
+  invalidate(orgId: string): void;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// The WebSocket server and the Next.js routes load separate copies of this
+// module, so an upload only invalidates one cache; the other expires.
+const MEMORY_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Exact search in process: an organization's vectors are loaded once and
+ * cached until its documents change. Works with any MongoDB; fine for a few
+ * thousand chunks per organization.
+ */
+export function createMemoryVectorStore(): VectorStore {
+  const cache = new Map<string, { chunks: Promise<KnowledgeChunkDoc[]>; loadedAt: number }>();
+
+  async function load(orgId: string, model: string): Promise<KnowledgeChunkDoc[]> {
+    const database = await getDb();
+    return database.collection<KnowledgeChunkDoc>('knowledge_chunks').find({ orgId, model }).toArray();
+  }
+
+  return {
+    name: 'memory',
+    async search(orgId, model, vector, limit) {
+      const key = `${orgId}:${model}`;
+      let entry = cache.get(key);
+      if (!entry || Date.now() - entry.loadedAt > MEMORY_CACHE_TTL_MS) {
+        entry = { chunks: load(orgId, model), loadedAt: Date.now() };
+        cache.set(key, entry);
+        entry.chunks.catch(() => cache.delete(key));
+      }
+      return (await entry.chunks)
+        .map(({ embedding, ...chunk }) => ({ ...chunk, score: cosine(vector, embedding) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+    invalidate(orgId) {
+      cache.forEach((_chunks, key) => {
+        if (key.startsWith(`${orgId}:`)) cache.delete(key);
+      });
+    },
+  };
+}
+
+/**
+ * MongoDB Atlas Vector Search (`$vectorSearch`). Needs a vector index on
+ * `knowledge_chunks.embedding` with `orgId` and `model` as filter fields,
+ * named by `KNOWLEDGE_VECTOR_INDEX` (default `knowledge_vector`).
+ */
+export function createAtlasVectorStore(): VectorStore {
+  const index = process.env.KNOWLEDGE_VECTOR_INDEX || 'knowledge_vector';
+  return {
+    name: 'atlas',
+    async search(orgId, model, vector, limit) {
+      const database = await getDb();
+      return database
+        .collection<KnowledgeChunkDoc>('knowledge_chunks')
+        .aggregate<ScoredChunk>([
+          {
+            $vectorSearch: {
+              index,
+              path: 'embedding',
+              queryVector: vector,
+              numCandidates: limit * 20,
+              limit,
+              filter: { orgId, model },
+            },
+          },
+          // Atlas scores cosine similarity as (1 + cos) / 2; map back to cos like the memory store
+          { $set: { score: { $subtract: [{ $multiply: [{ $meta: 'vectorSearchScore' }, 2] }, 1] } } },
+          { $unset: 'embedding' },
+        ])
+        .toArray();
+    },
+    invalidate() {
+      // Atlas keeps its index up to date
+    },
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Spoken languages, as ISO 639-1 codes ("en", "id", "vi", ...). Whisper's
+ * `verbose_json` reports the detected language by English name ("indonesian"),
+ * so both forms are accepted.
+ */
+
+const LANGUAGE_CODE = /^[a-z]{2}$/;
+
+// Whisper's names for the languages customers speak most, and their neighbours
+const WHISPER_NAMES: Record<string, string> = {
+  english: 'en',
+  indonesian: 'id',
+  malay: 'ms',
+  tagalog: 'tl',
+  vietnamese: 'vi',
+  chinese: 'zh',
+  mandarin: 'zh',
+  cantonese: 'zh',
+  thai: 'th',
+  japanese: 'ja',
+  korean: 'ko',
+  hindi: 'hi',
+  tamil: 'ta',
+  bengali: 'bn',
+  burmese: 'my',
+  khmer: 'km',
+  lao: 'lo',
+  javanese: 'jw',
+  arabic: 'ar',
+  french: 'fr',
+  german: 'de',
+  spanish: 'es',
+  portuguese: 'pt',
+  italian: 'it',
+  dutch: 'nl',
+  russian: 'ru',
+  turkish: 'tr',
+};
+
+export function isLanguageCode(value: unknown): value is string {
+  return typeof value === 'string' && LANGUAGE_CODE.test(value);
+}
+
+/** An ISO 639-1 code from a code or a Whisper language name; null when unknown. */
+export function normalizeLanguage(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const lower = value.trim().toLowerCase();
+  if (LANGUAGE_CODE.test(lower)) return lower;
+  return WHISPER_NAMES[lower] ?? null;
+}
+
+let displayNames: Intl.DisplayNames | null = null;
+
+/** English name of a language code, for prompts ("vi" → "Vietnamese"). */
+export function languageName(code: string): string {
+  try {
+    displayNames ??= new Intl.DisplayNames(['en'], { type: 'language' });
+    return displayNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
@@ -1,34 +1,454 @@
-import OpenAI from 'openai';
+import {
+  getLlmProvider,
+  type LlmMessage,
+  type LlmRequest,
+  type TokenUsage,
+  type ToolCall,
+} from './providers';
+import {
+  executeToolCall,
+  getToolSpecs,
+  toolResultContent,
+  type ToolCallRecord,
+  type ToolContext,
+} from './tools';
+import type { RetrievedChunk } from './knowledge';
+import { languageName } from './languages';
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const MAX_TOOL_ROUNDS = 4;
+
+const DEFAULT_SYSTEM_PROMPT =
+  'You are a helpful voice assistant. Keep responses concise and natural for voice conversation.';
+export const DEFAULT_MODEL = 'gpt-3.5-turbo';
+const DEFAULT_MAX_TOKENS = 500;
+const DEFAULT_TEMPERATURE = 0.7;
+
+/** Overrides for the agent's prompt and model; unset fields use the defaults. */
+export interface AgentConfig {
+  systemPrompt?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Token budget for verbatim history; older turns are folded into the summary */
+  historyTokens?: number;
+  /** Max length of the rolling summary, in tokens */
+  summaryTokens?: number;
+}
+
+const MAX_SYSTEM_PROMPT_LENGTH = 8000;
+
+/** Check an agent config from a request body; unknown fields are dropped. */
+export function validateAgentConfig(
+  value: unknown
+): { valid: true; config: AgentConfig } | { valid: false; error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { valid: false, error: 'Agent config must be an object' };
+  }
+  const { systemPrompt, model, temperature, maxTokens, historyTokens, summaryTokens } =
+    value as Record<string, unknown>;
+  const config: AgentConfig = {};
+  if (systemPrompt !== undefined) {
+    if (typeof systemPrompt !== 'string' || systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+      return { valid: false, error: `systemPrompt must be a string of at most ${MAX_SYSTEM_PROMPT_LENGTH} characters` };
+    }
+    config.systemPrompt = systemPrompt;
+  }
+  if (model !== undefined) {
+    if (typeof model !== 'string' || !model || model.length > 100) {
+      return { valid: false, error: 'model must be a model name' };
+    }
+    config.model = model;
+  }
+  if (temperature !== undefined) {
+    if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) {
+      return { valid: false, error: 'temperature must be a number between 0 and 2' };
+    }
+    config.temperature = temperature;
+  }
+  if (maxTokens !== undefined) {
+    if (!Number.isInteger(maxTokens) || (maxTokens as number) < 1 || (maxTokens as number) > 4096) {
+      return { valid: false, error: 'maxTokens must be an integer between 1 and 4096' };
+    }
+    config.maxTokens = maxTokens as number;
+  }
+  if (historyTokens !== undefined) {
+    if (!Number.isInteger(historyTokens) || (historyTokens as number) < 200 || (historyTokens as number) > 100_000) {
+      return { valid: false, error: 'historyTokens must be an integer between 200 and 100000' };
+    }
+    config.historyTokens = historyTokens as number;
+  }
+  if (summaryTokens !== undefined) {
+    if (!Number.isInteger(summaryTokens) || (summaryTokens as number) < 50 || (summaryTokens as number) > 2000) {
+      return { valid: false, error: 'summaryTokens must be an integer between 50 and 2000' };
+    }
+    config.summaryTokens = summaryTokens as number;
+  }
+  return { valid: true, config };
+}
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
 }
 
+/** The user talked over a spoken reply before it finished playing. */
+export interface MessageInterruption {
+  /** The part of the reply that was played; null when the client did not say */
+  heardText: string | null;
+  interruptedAt: Date;
+}
+
+/** A stored message; assistant messages keep the tool calls made for them. */
+export interface HistoryMessage extends ChatMessage {
+  toolCalls?: ToolCallRecord[];
+  interruption?: MessageInterruption;
+}
+
+/** What the model sees of the conversation so far (see context.ts). */
+export interface ConversationContext {
+  /** Rolling summary of turns no longer sent verbatim */
+  summary: string | null;
+  /** Recent messages, oldest first, within the history token budget */
+  messages: HistoryMessage[];
+  /** Long-term facts about the user relevant to this turn (see memory.ts) */
+  memories: string[];
+  /** Knowledge-base excerpts relevant to this turn (see knowledge/) */
+  knowledge: RetrievedChunk[];
+  /** ISO 639-1 code of the language to reply in; the user's own when null */
+  language: string | null;
+  /**
+   * Set when speech recognition is unsure of the user's words (possibly
+   * empty): the agent asks "did you say…?" instead of answering
+   */
+  uncertainWords: string[] | null;
+}
+
+export interface LlmResponse {
+  text: string;
+  toolCalls: ToolCallRecord[];
+  /** Summed over every model call in the turn, including tool rounds */
+  usage: TokenUsage;
+  provider: string;
+  model: string;
+}
+
+/**
+ * Running total of a reply's model calls, updated after each one, so a caller
+ * can bill the calls made before a later one (or a retry) fails.
+ */
+export interface LlmSpend {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export type ResponseStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool'; call: ToolCallRecord }
+  | { type: 'usage'; usage: TokenUsage; provider: string; model: string };
+
+function addUsage(total: TokenUsage, usage: TokenUsage): void {
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+}
+
+function addSpend(spent: LlmSpend | undefined, provider: string, model: string, usage: TokenUsage): void {
+  if (!spent) return;
+  spent.provider = provider;
+  spent.model = model;
+  addUsage(spent, usage);
+}
+
+// An interrupted reply is shown as what the user actually heard of it
+function spokenContent(m: HistoryMessage): string {
+  if (!m.interruption) return m.content;
+  const { heardText } = m.interruption;
+  return heardText === null
+    ? `${m.content}\n[The user interrupted this reply before it finished playing]`
+    : `${heardText}… [The user interrupted here and did not hear the rest]`;
+}
+
+// Replays earlier lookups so follow-up questions can refer to them
+function historyToMessages(history: HistoryMessage[]): LlmMessage[] {
+  return history.flatMap((m): LlmMessage[] => {
+    if (m.role !== 'assistant' || !m.toolCalls?.length) {
+      return [{ role: m.role, content: spokenContent(m) }];
+    }
+    return [
+      {
+        role: 'assistant',
+        content: null,
+        toolCalls: m.toolCalls.map((call) => ({
+          id: call.id,
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+        })),
+      },
+      ...m.toolCalls.map((call): LlmMessage => ({
+        role: 'tool',
+        toolCallId: call.id,
+        content: toolResultContent(call),
+      })),
+      { role: 'assistant', content: spokenContent(m) },
+    ];
+  });
+}
+
+function buildRequest(
+  userText: string,
+  context: ConversationContext,
+  toolContext?: ToolContext,
+  agent: AgentConfig = {}
+): LlmRequest {
+  let systemPrompt = agent.systemPrompt || DEFAULT_SYSTEM_PROMPT;
+  // No lookups until the user confirms what they said
+  const clarify = context.uncertainWords !== null;
+  const tools = toolContext && !clarify ? getToolSpecs() : undefined;
+  if (tools) {
+    systemPrompt +=
+      ' Use the available tools to look up invoices, receivables and bill payments instead of guessing, and always say amounts with their currency.';
+  }
+  systemPrompt += context.language
+    ? ` The user speaks ${languageName(context.language)}; always reply in ${languageName(context.language)}.`
+    : ' Reply in the language the user speaks.';
+  if (context.memories.length) {
+    systemPrompt += `\n\nWhat you know about the user from earlier conversations:\n${context.memories
+      .map((m) => `- ${m}`)
+      .join('\n')}`;
+  }
+  if (context.knowledge.length) {
+    systemPrompt +=
+      "\n\nExcerpts from your organization's documents. Base answers on them when they are relevant, say which document you used, and never contradict them:\n" +
+      context.knowledge
+        .map((k, i) => `[${i + 1}] ${k.title}${k.heading ? ` — ${k.heading}` : ''}\n${k.text}`)
+        .join('\n\n');
+  }
+  if (context.summary) {
+    systemPrompt += `\n\nSummary of the conversation so far:\n${context.summary}`;
+  }
+  if (clarify) {
+    systemPrompt +=
+      "\n\nSpeech recognition is unsure it heard the user's last message correctly" +
+      (context.uncertainWords?.length ? ` (doubtful words: ${context.uncertainWords.join(', ')})` : '') +
+      '. Do not answer it or act on it. In one short sentence, ask whether that is what they said, quoting your best reading, and wait for them to confirm.';
+  }
+  return {
+    messages: [
+      { role: 'system', content: systemPrompt },
+      ...historyToMessages(context.messages),
+      { role: 'user', content: userText },
+    ],
+    model: agent.model || DEFAULT_MODEL,
+    maxTokens: agent.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: agent.temperature ?? DEFAULT_TEMPERATURE,
+    tools,
+  };
+}
+
+async function runToolCalls(
+  request: LlmRequest,
+  calls: ToolCall[],
+  context: ToolContext
+): Promise<ToolCallRecord[]> {
+  const records = await Promise.all(calls.map((call) => executeToolCall(call, context)));
+  request.messages.push(
+    { role: 'assistant', content: null, toolCalls: calls },
+    ...records.map((record): LlmMessage => ({
+      role: 'tool',
+      toolCallId: record.id,
+      content: toolResultContent(record),
+    }))
+  );
+  return records;
+}
+
+/**
+ * Generate the assistant reply. With a tool context the model may call tools
+ * (invoice/bill lookups); their results are fed back until it answers in text.
+ */
 export async function generateResponse(
   userText: string,
-  conversationHistory: ChatMessage[]
-): Promise<string> {
-  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-    {
-      role: 'system',
-      content:
-        'You are a helpful voice assistant. Keep responses concise and natural for voice conversation.',
-    },
-    ...conversationHistory
-      .slice(-10)
-      .map((m) => ({ role: m.role, content: m.content })),
-    { role: 'user', content: userText },
-  ];
-
-  const response = await openai.chat.completions.create({
-    model: 'gpt-3.5-turbo',
-    messages,
-    max_tokens: 500,
-    temperature: 0.7,
+  context: ConversationContext,
+  toolContext?: ToolContext,
+  agent?: AgentConfig,
+  spent?: LlmSpend
+): Promise<LlmResponse> {
+  const provider = getLlmProvider();
+  const request = buildRequest(userText, context, toolContext, agent);
+  const toolCalls: ToolCallRecord[] = [];
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+
+  for (let round = 0; ; round++) {
+    // On the last round, withhold tools so the model has to answer
+    if (round === MAX_TOOL_ROUNDS) request.tools = undefined;
+    const completion = await provider.complete(request);
+    addUsage(usage, completion.usage);
+    addSpend(spent, provider.name, request.model, completion.usage);
+    if (!toolContext || !completion.toolCalls.length || !request.tools) {
+      return { text: completion.text, toolCalls, usage, provider: provider.name, model: request.model };
+    }
+    toolCalls.push(...(await runToolCalls(request, completion.toolCalls, toolContext)));
+  }
+}
+
+/**
+ * Same as generateResponse, but yields text deltas as the model produces them,
+ * plus one event per completed tool call and a final `usage` event.
+ */
+export async function* streamResponse(
+  userText: string,
+  context: ConversationContext,
+  toolContext?: ToolContext,
+  agent?: AgentConfig,
+  spent?: LlmSpend
+): AsyncGenerator<ResponseStreamEvent> {
+  const provider = getLlmProvider();
+  const request = buildRequest(userText, context, toolContext, agent);
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+
+  for (let round = 0; ; round++) {
+    if (round === MAX_TOOL_ROUNDS) request.tools = undefined;
+    let calls: ToolCall[] = [];
+    for await (const event of provider.stream(request)) {
+      if (event.type === 'text') yield event;
+      else if (event.type === 'usage') {
+        addUsage(usage, event.usage);
+        addSpend(spent, provider.name, request.model, event.usage);
+      } else calls = event.toolCalls;
+    }
+    if (!toolContext || !calls.length || !request.tools) {
+      yield { type: 'usage', usage, provider: provider.name, model: request.model };
+      return;
+    }
+    for (const record of await runToolCalls(request, calls, toolContext)) {
+      yield { type: 'tool', call: record };
+    }
+  }
+}
+
+const DEFAULT_SUMMARY_TOKENS = 400;
+
+function transcriptLines(messages: HistoryMessage[]): string {
+  return messages
+    .map((m) => {
+      const speaker = m.role === 'user' ? 'User' : 'Assistant';
+      const lookups = (m.toolCalls ?? []).map(
+        (call) => `Assistant looked up ${call.name}(${JSON.stringify(call.arguments)})\n`
+      );
+      return `${lookups.join('')}${speaker}: ${m.content}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Fold older messages into the rolling summary of a conversation, keeping the
+ * facts later turns may refer back to.
+ */
+export async function summarizeConversation(
+  previousSummary: string | null,
+  messages: HistoryMessage[],
+  agent: AgentConfig = {}
+): Promise<{ summary: string; usage: TokenUsage; provider: string; model: string }> {
+  const maxTokens = agent.summaryTokens ?? DEFAULT_SUMMARY_TOKENS;
+  const provider = getLlmProvider();
+  const model = agent.model || DEFAULT_MODEL;
+  const completion = await provider.complete({
+    messages: [
+      {
+        role: 'system',
+        content:
+          'You maintain the running summary of a conversation between a user and a voice assistant. ' +
+          'Merge the new messages into the summary. Keep every fact a later question may depend on: ' +
+          'names, invoice and bill numbers, amounts with currency, dates, decisions and open questions. ' +
+          `Drop small talk. Reply with the summary only, in under ${Math.floor(maxTokens * 0.7)} words.`,
+      },
+      {
+        role: 'user',
+        content: `Summary so far:\n${previousSummary || '(none)'}\n\nNew messages:\n${transcriptLines(messages)}`,
+      },
+    ],
+    model,
+    maxTokens,
+    temperature: 0.2,
+  });
+  return { summary: completion.text.trim(), usage: completion.usage, provider: provider.name, model };
+}
+
+const MEMORY_MAX_LENGTH = 300;
+
+/**
+ * Long-term facts worth remembering about the user from a conversation (their
+ * company, preferences, recurring vendors), excluding ones already known.
+ */
+export async function extractMemories(
+  known: string[],
+  messages: HistoryMessage[],
+  agent: AgentConfig = {}
+): Promise<{ memories: string[]; usage: TokenUsage; provider: string; model: string }> {
+  const provider = getLlmProvider();
+  const model = agent.model || DEFAULT_MODEL;
+  const completion = await provider.complete({
+    messages: [
+      {
+        role: 'system',
+        content:
+          'Extract lasting facts about the user from this conversation that would help in future conversations: ' +
+          'their company and role, preferred currency or language, vendors and customers they often discuss, standing preferences. ' +
+          'Skip one-off questions, anything already known, and anything the assistant said that the user did not confirm. ' +
+          'Reply with a JSON array of short, self-contained statements, or [] if there is nothing new.',
+      },
+      {
+        role: 'user',
+        content: `Already known:\n${known.map((m) => `- ${m}`).join('\n') || '(nothing)'}\n\nConversation:\n${transcriptLines(messages)}`,
+      },
+    ],
+    model,
+    maxTokens: 300,
+    temperature: 0,
   });
+  // Tolerate prose or code fences around the array
+  const match = completion.text.match(/\[[\s\S]*\]/);
+  let parsed: unknown = [];
+  try {
+    parsed = match ? JSON.parse(match[0]) : [];
+  } catch {
+    parsed = [];
+  }
+  const memories = Array.isArray(parsed)
+    ? parsed
+        .filter((m): m is string => typeof m === 'string' && Boolean(m.trim()))
+        .map((m) => m.trim().slice(0, MEMORY_MAX_LENGTH))
+    : [];
+  return { memories, usage: completion.usage, provider: provider.name, model };
+}
 
-  return response.choices[0]?.message?.content ?? '';
+const TITLE_MAX_LENGTH = 80;
+
+/** A short title for a conversation, from its first exchange. */
+export async function generateTitle(
+  userText: string,
+  replyText: string,
+  agent: AgentConfig = {}
+): Promise<{ title: string; usage: TokenUsage; provider: string; model: string }> {
+  const provider = getLlmProvider();
+  const model = agent.model || DEFAULT_MODEL;
+  const completion = await provider.complete({
+    messages: [
+      {
+        role: 'system',
+        content:
+          'Write a title of at most six words for this conversation. Reply with the title only, without quotes or a trailing period.',
+      },
+      { role: 'user', content: `User: ${userText}\nAssistant: ${replyText}` },
+    ],
+    model,
+    maxTokens: 20,
+    temperature: 0.3,
+  });
+  const title = completion.text
+    .trim()
+    .replace(/^["']+|["'.]+$/g, '')
+    .slice(0, TITLE_MAX_LENGTH);
+  return { title, usage: completion.usage, provider: provider.name, model };
 }
@@ -0,0 +1,283 @@
+import { ObjectId } from 'mongodb';
+import { getDb } from './db';
+import type { AuthUser } from './auth';
+import { listMessages, type SessionDoc } from './conversation';
+import { extractMemories } from './llm';
+import { resolveAgent } from './agent-profiles';
+import { recordLlmTokens } from './rate-limit';
+import { recordBackgroundUsage } from './usage';
+
+/**
+ * Long-term memory: short facts about a user (their company, preferred
+ * currency, vendors they ask about) that carry over between sessions. Facts
+ * are extracted by the LLM once a session goes idle, or set by the user
+ * through /api/v1/memory. Memories belong to a user within one organization.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_IDLE_MINUTES = 30;
+const EXTRACTION_JOB_INTERVAL_MS = 5 * MINUTE_MS;
+const EXTRACTION_BATCH = 20;
+// Sessions idle for longer than this when extraction first sees them are skipped
+const EXTRACTION_LOOKBACK_MS = 7 * 24 * 60 * MINUTE_MS;
+const EXTRACTION_MAX_MESSAGES = 50;
+/** Injected into a turn's prompt */
+const MAX_RELEVANT_MEMORIES = 10;
+export const MAX_MEMORIES_PER_USER = 200;
+export const MAX_MEMORY_LENGTH = 300;
+
+export type MemorySource = 'user' | 'extracted';
+
+export interface MemoryDoc {
+  _id: ObjectId;
+  userId: string;
+  orgId: string;
+  content: string;
+  source: MemorySource;
+  /** Session the fact was extracted from */
+  sessionId: ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MemoryInfo {
+  id: string;
+  content: string;
+  source: MemorySource;
+  sessionId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type MemoryOwner = Pick<AuthUser, 'id' | 'orgId'>;
+
+export function toMemoryInfo(memory: MemoryDoc): MemoryInfo {
+  return {
+    id: memory._id.toString(),
+    content: memory.content,
+    source: memory.source,
+    sessionId: memory.sessionId?.toString() ?? null,
+    createdAt: memory.createdAt,
+    updatedAt: memory.updatedAt,
+  };
+}
+
+export function validateMemoryContent(
+  value: unknown
+): { valid: true; content: string } | { valid: false; error: string } {
+  if (typeof value !== 'string' || !value.trim() || value.length > MAX_MEMORY_LENGTH) {
+    return { valid: false, error: `content is required (max ${MAX_MEMORY_LENGTH} characters)` };
+  }
+  return { valid: true, content: value.trim() };
+}
+
+function parseMemoryId(memoryId: string): ObjectId | null {
+  try {
+    return new ObjectId(memoryId);
+  } catch {
+    return null;
+  }
+}
+
+async function memories() {
+  const database = await getDb();
+  return database.collection<MemoryDoc>('memories');
+}
+
+export async function listMemories(owner: MemoryOwner): Promise<MemoryInfo[]> {
+  const docs = await (await memories())
+    .find({ userId: owner.id, orgId: owner.orgId })
+    .sort({ updatedAt: -1 })
+    .toArray();
+  return docs.map(toMemoryInfo);
+}
+
+export async function countMemories(owner: MemoryOwner): Promise<number> {
+  return (await memories()).countDocuments({ userId: owner.id, orgId: owner.orgId });
+}
+
+export async function getMemory(owner: MemoryOwner, memoryId: string): Promise<MemoryDoc | null> {
+  const oid = parseMemoryId(memoryId);
+  if (!oid) return null;
+  return (await memories()).findOne({ _id: oid, userId: owner.id, orgId: owner.orgId });
+}
+
+export async function createMemory(
+  owner: MemoryOwner,
+  content: string,
+  { source = 'user', sessionId = null }: { source?: MemorySource; sessionId?: ObjectId | null } = {}
+): Promise<MemoryDoc> {
+  const now = new Date();
+  const memory: MemoryDoc = {
+    _id: new ObjectId(),
+    userId: owner.id,
+    orgId: owner.orgId,
+    content,
+    source,
+    sessionId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await (await memories()).insertOne(memory);
+  return memory;
+}
+
+/** Editing a memory makes it the user's own. */
+export async function updateMemory(
+  owner: MemoryOwner,
+  memoryId: string,
+  content: string
+): Promise<MemoryDoc | null> {
+  const oid = parseMemoryId(memoryId);
+  if (!oid) return null;
+  return (await memories()).findOneAndUpdate(
+    { _id: oid, userId: owner.id, orgId: owner.orgId },
+    { $set: { content, source: 'user', updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+}
+
+export async function deleteMemory(owner: MemoryOwner, memoryId: string): Promise<boolean> {
+  const oid = parseMemoryId(memoryId);
+  if (!oid) return false;
+  const result = await (await memories()).deleteOne({ _id: oid, userId: owner.id, orgId: owner.orgId });
+  return result.deletedCount > 0;
+}
+
+export async function deleteAllMemories(owner: MemoryOwner): Promise<number> {
+  const result = await (await memories()).deleteMany({ userId: owner.id, orgId: owner.orgId });
+  return result.deletedCount;
+}
+
+/**
+ * The memories to put in a turn's prompt: all of them while there are few,
+ * otherwise the best text matches for what the user said, topped up with the
+ * most recently updated.
+ */
+export async function findRelevantMemories(owner: MemoryOwner, query: string): Promise<string[]> {
+  const collection = await memories();
+  const filter = { userId: owner.id, orgId: owner.orgId };
+  const recent = await collection
+    .find(filter, { projection: { content: 1 } })
+    .sort({ updatedAt: -1 })
+    .limit(MAX_RELEVANT_MEMORIES + 1)
+    .toArray();
+  if (recent.length <= MAX_RELEVANT_MEMORIES || !query.trim()) {
+    return recent.slice(0, MAX_RELEVANT_MEMORIES).map((m) => m.content);
+  }
+
+  const matches = await collection
+    .find(
+      { ...filter, $text: { $search: query } },
+      { projection: { content: 1, score: { $meta: 'textScore' } } }
+    )
+    .sort({ score: { $meta: 'textScore' } })
+    .limit(MAX_RELEVANT_MEMORIES)
+    .toArray();
+  const contents = new Set(matches.map((m) => m.content));
+  for (const m of recent) {
+    if (contents.size >= MAX_RELEVANT_MEMORIES) break;
+    contents.add(m.content);
+  }
+  return Array.from(contents);
+}
+
+function idleMinutes(): number {
+  const raw = process.env.MEMORY_EXTRACTION_IDLE_MINUTES;
+  const minutes = raw ? Number(raw) : DEFAULT_IDLE_MINUTES;
+  return Number.isFinite(minutes) ? minutes : DEFAULT_IDLE_MINUTES;
+}
+
+/** Extract memories from one session's messages since its last extraction. */
+async function extractFromSession(session: SessionDoc): Promise<number> {
+  const owner = { id: session.userId, orgId: session.orgId ?? '' };
+  const since = session.memoryExtractedAt ?? new Date(0);
+  const page = await listMessages(session._id.toString(), { limit: EXTRACTION_MAX_MESSAGES });
+  const messages = page.messages.filter((m) => m.createdAt > since);
+  let added = 0;
+
+  const hasUserInput = messages.some((m) => m.role === 'user');
+  if (session.orgId && hasUserInput) {
+    const known = await listMemories(owner);
+    const room = MAX_MEMORIES_PER_USER - known.length;
+    if (room > 0) {
+      const agent = await resolveAgent(session.orgId, session.metadata?.profileId);
+      const result = await extractMemories(
+        known.map((m) => m.content),
+        messages,
+        agent.llm
+      );
+      const { promptTokens, completionTokens } = result.usage;
+      await recordLlmTokens(owner, promptTokens + completionTokens);
+      await recordBackgroundUsage(owner, {
+        sessionId: session._id.toString(),
+        task: 'memory_extraction',
+        llm: { provider: result.provider, model: result.model, promptTokens, completionTokens },
+      });
+      const knownContents = new Set(known.map((m) => m.content.toLowerCase()));
+      for (const content of result.memories.slice(0, room)) {
+        if (knownContents.has(content.toLowerCase())) continue;
+        knownContents.add(content.toLowerCase());
+        await createMemory(owner, content, { source: 'extracted', sessionId: session._id });
+        added++;
+      }
+    }
+  }
+
+  const database = await getDb();
+  await database
+    .collection<SessionDoc>('sessions')
+    .updateOne({ _id: session._id }, { $set: { memoryExtractedAt: session.lastActivityAt } });
+  return added;
+}
+
+/**
+ * Extract memories from sessions idle for `MEMORY_EXTRACTION_IDLE_MINUTES`
+ * (default 30; 0 turns extraction off) that have new messages since their
+ * last extraction. A session that is continued later is extracted again.
+ */
+export async function extractIdleSessionMemories(now = new Date()): Promise<number> {
+  const minutes = idleMinutes();
+  if (minutes <= 0) return 0;
+  const database = await getDb();
+  const sessions = await database
+    .collection<SessionDoc>('sessions')
+    .find({
+      lastActivityAt: {
+        $lt: new Date(now.getTime() - minutes * MINUTE_MS),
+        $gt: new Date(now.getTime() - EXTRACTION_LOOKBACK_MS),
+      },
+      $expr: { $gt: ['$lastActivityAt', { $ifNull: ['$memoryExtractedAt', new Date(0)] }] },
+    })
+    .limit(EXTRACTION_BATCH)
+    .toArray();
+
+  let added = 0;
+  for (const session of sessions) {
+    try {
+      added += await extractFromSession(session);
+    } catch (err) {
+      console.error(
+        `[memory] Extraction failed for session ${session._id}:`,
+        err instanceof Error ? err.message : err
+      );
+    }
+  }
+  return added;
+}
+
+/** Run memory extraction every few minutes in this process (see server.ts). */
+export function startMemoryExtractionJob(): NodeJS.Timeout | null {
+  if (idleMinutes() <= 0) return null;
+  const run = () => {
+    extractIdleSessionMemories()
+      .then((added) => {
+        if (added) console.log(`[memory] Extracted ${added} memories`);
+      })
+      .catch((err) => console.error('[memory] Extraction job failed:', err instanceof Error ? err.message : err));
+  };
+  run();
+  const timer = setInterval(run, EXTRACTION_JOB_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,401 @@
+import { createHash, randomBytes } from 'crypto';
+import { ObjectId } from 'mongodb';
+import { getDb } from './db';
+import type { AgentConfig } from './llm';
+import { normalizeEmail } from './email';
+
+export const ORG_ROLES = ['owner', 'admin', 'member'] as const;
+
+export type OrgRole = (typeof ORG_ROLES)[number];
+
+export interface OrgSettings {
+  /** When on, members can read each other's sessions in this organization */
+  shareHistory: boolean;
+  /** Agent configuration shared by every member */
+  agent: AgentConfig;
+}
+
+export interface OrganizationDoc {
+  _id: ObjectId;
+  name: string;
+  settings: OrgSettings;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MembershipDoc {
+  _id: ObjectId;
+  orgId: string;
+  userId: string;
+  role: OrgRole;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OrganizationInfo {
+  id: string;
+  name: string;
+  settings: OrgSettings;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MemberInfo {
+  userId: string;
+  email: string | null;
+  role: OrgRole;
+  joinedAt: Date;
+}
+
+/**
+ * An invitation to join an organization. The invited user accepts or declines
+ * it with the token the inviter was given, so registering the invited email is
+ * not enough to join.
+ */
+export interface InvitationDoc {
+  _id: ObjectId;
+  orgId: string;
+  /** Normalized (see email.ts); matched against the accepting user's email */
+  email: string;
+  /** SHA-256 of the single-use invite token */
+  tokenHash: string;
+  role: OrgRole;
+  invitedBy: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface InvitationInfo {
+  id: string;
+  orgId: string;
+  email: string;
+  role: OrgRole;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+const DEFAULT_SETTINGS: OrgSettings = { shareHistory: false, agent: {} };
+
+export function isOrgRole(value: unknown): value is OrgRole {
+  return (ORG_ROLES as readonly unknown[]).includes(value);
+}
+
+/** Owners and admins manage the organization; members only use it. */
+export function isOrgAdmin(role: OrgRole): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+/**
+ * Whether `actorRole` may give `targetRole` to someone (or change or remove
+ * someone who has it). Only owners can touch owners.
+ */
+export function canAssignRole(actorRole: OrgRole, targetRole: OrgRole): boolean {
+  if (actorRole === 'owner') return true;
+  return actorRole === 'admin' && targetRole !== 'owner';
+}
+
+export function toOrganizationInfo(org: OrganizationDoc): OrganizationInfo {
+  return {
+    id: org._id.toString(),
+    name: org.name,
+    settings: { ...DEFAULT_SETTINGS, ...org.settings },
+    createdAt: org.createdAt,
+    updatedAt: org.updatedAt,
+  };
+}
+
+function parseObjectId(id: string): ObjectId | null {
+  try {
+    return new ObjectId(id);
+  } catch {
+    return null;
+  }
+}
+
+/** Create an organization with `ownerId` as its first owner. */
+export async function createOrganization(name: string, ownerId: string): Promise<OrganizationDoc> {
+  const database = await getDb();
+  const now = new Date();
+  const org: OrganizationDoc = {
+    _id: new ObjectId(),
+    name,
+    settings: DEFAULT_SETTINGS,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await database.collection<OrganizationDoc>('organizations').insertOne(org);
+  await database.collection<MembershipDoc>('memberships').insertOne({
+    _id: new ObjectId(),
+    orgId: org._id.toString(),
+    userId: ownerId,
+    role: 'owner',
+    createdAt: now,
+    updatedAt: now,
+  });
+  return org;
+}
+
+export async function getOrganization(orgId: string): Promise<OrganizationDoc | null> {
+  const oid = parseObjectId(orgId);
+  if (!oid) return null;
+  const database = await getDb();
+  return database.collection<OrganizationDoc>('organizations').findOne({ _id: oid });
+}
+
+/** Shared agent configuration for the organization, or `{}` if none is set. */
+export async function getOrgAgentConfig(orgId: string): Promise<AgentConfig> {
+  const org = await getOrganization(orgId);
+  return org?.settings?.agent ?? {};
+}
+
+export async function updateOrganization(
+  orgId: string,
+  update: { name?: string; shareHistory?: boolean; agent?: AgentConfig }
+): Promise<OrganizationDoc | null> {
+  const oid = parseObjectId(orgId);
+  if (!oid) return null;
+  const $set: Record<string, unknown> = { updatedAt: new Date() };
+  if (update.name !== undefined) $set.name = update.name;
+  if (update.shareHistory !== undefined) $set['settings.shareHistory'] = update.shareHistory;
+  if (update.agent !== undefined) $set['settings.agent'] = update.agent;
+  const database = await getDb();
+  return database
+    .collection<OrganizationDoc>('organizations')
+    .findOneAndUpdate({ _id: oid }, { $set }, { returnDocument: 'after' });
+}
+
+export async function getMembership(orgId: string, userId: string): Promise<MembershipDoc | null> {
+  const database = await getDb();
+  return database.collection<MembershipDoc>('memberships').findOne({ orgId, userId });
+}
+
+/** Organizations the user belongs to, with their role in each. */
+export async function listUserOrganizations(
+  userId: string
+): Promise<(OrganizationInfo & { role: OrgRole })[]> {
+  const database = await getDb();
+  const memberships = await database
+    .collection<MembershipDoc>('memberships')
+    .find({ userId })
+    .sort({ createdAt: 1 })
+    .toArray();
+  const orgs = await database
+    .collection<OrganizationDoc>('organizations')
+    .find({ _id: { $in: memberships.map((m) => new ObjectId(m.orgId)) } })
+    .toArray();
+  const byId = new Map(orgs.map((org) => [org._id.toString(), org]));
+  return memberships.flatMap((m) => {
+    const org = byId.get(m.orgId);
+    return org ? [{ ...toOrganizationInfo(org), role: m.role }] : [];
+  });
+}
+
+export async function listMembers(orgId: string): Promise<MemberInfo[]> {
+  const database = await getDb();
+  const memberships = await database
+    .collection<MembershipDoc>('memberships')
+    .find({ orgId })
+    .sort({ createdAt: 1 })
+    .toArray();
+  const users = await database
+    .collection('users')
+    .find({ _id: { $in: memberships.map((m) => new ObjectId(m.userId)) } })
+    .project<{ _id: ObjectId; email: string }>({ email: 1 })
+    .toArray();
+  const emails = new Map(users.map((u) => [u._id.toString(), u.email]));
+  return memberships.map((m) => ({
+    userId: m.userId,
+    email: emails.get(m.userId) ?? null,
+    role: m.role,
+    joinedAt: m.createdAt,
+  }));
+}
+
+/** Add a user to the organization. Returns null if they are already a member. */
+export async function addMember(
+  orgId: string,
+  userId: string,
+  role: OrgRole
+): Promise<MembershipDoc | null> {
+  if (await getMembership(orgId, userId)) return null;
+  const now = new Date();
+  const membership: MembershipDoc = {
+    _id: new ObjectId(),
+    orgId,
+    userId,
+    role,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const database = await getDb();
+  await database.collection<MembershipDoc>('memberships').insertOne(membership);
+  return membership;
+}
+
+export async function setMemberRole(
+  orgId: string,
+  userId: string,
+  role: OrgRole
+): Promise<MembershipDoc | null> {
+  const database = await getDb();
+  return database
+    .collection<MembershipDoc>('memberships')
+    .findOneAndUpdate(
+      { orgId, userId },
+      { $set: { role, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+}
+
+/** Remove a member. Their API keys for this organization stop authenticating. */
+export async function removeMember(orgId: string, userId: string): Promise<boolean> {
+  const database = await getDb();
+  const result = await database.collection<MembershipDoc>('memberships').deleteOne({ orgId, userId });
+  return result.deletedCount > 0;
+}
+
+export async function countOwners(orgId: string): Promise<number> {
+  const database = await getDb();
+  return database.collection<MembershipDoc>('memberships').countDocuments({ orgId, role: 'owner' });
+}
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function toInvitationInfo(invitation: InvitationDoc): InvitationInfo {
+  return {
+    id: invitation._id.toString(),
+    orgId: invitation.orgId,
+    email: invitation.email,
+    role: invitation.role,
+    createdAt: invitation.createdAt,
+    expiresAt: invitation.expiresAt,
+  };
+}
+
+/**
+ * Invite `email` to the organization, whether or not anyone has registered
+ * with it yet. Returns the invite token, shown only here, for the inviter to
+ * pass on. Inviting the same email again replaces the pending invitation and
+ * its token.
+ */
+export async function createInvitation(
+  orgId: string,
+  email: string,
+  role: OrgRole,
+  invitedBy: string
+): Promise<{ invitation: InvitationDoc; token: string }> {
+  const token = `inv_${randomBytes(24).toString('hex')}`;
+  const now = new Date();
+  const database = await getDb();
+  const invitation = await database.collection<InvitationDoc>('org_invitations').findOneAndUpdate(
+    { orgId, email: normalizeEmail(email) },
+    {
+      $set: {
+        tokenHash: hashInviteToken(token),
+        role,
+        invitedBy,
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + INVITATION_TTL_MS),
+      },
+      $setOnInsert: { _id: new ObjectId() },
+    },
+    { upsert: true, returnDocument: 'after' }
+  );
+  return { invitation: invitation as InvitationDoc, token };
+}
+
+/** Pending invitations of an organization, newest first. */
+export async function listOrgInvitations(orgId: string): Promise<InvitationDoc[]> {
+  const database = await getDb();
+  return database
+    .collection<InvitationDoc>('org_invitations')
+    .find({ orgId, expiresAt: { $gt: new Date() } })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+export async function revokeInvitation(orgId: string, invitationId: string): Promise<boolean> {
+  const oid = parseObjectId(invitationId);
+  if (!oid) return false;
+  const database = await getDb();
+  const result = await database.collection<InvitationDoc>('org_invitations').deleteOne({ _id: oid, orgId });
+  return result.deletedCount > 0;
+}
+
+/** Pending invitations addressed to `email`, with the inviting organization's name. */
+export async function listUserInvitations(
+  email: string
+): Promise<(InvitationInfo & { orgName: string | null })[]> {
+  const database = await getDb();
+  const invitations = await database
+    .collection<InvitationDoc>('org_invitations')
+    .find({ email: normalizeEmail(email), expiresAt: { $gt: new Date() } })
+    .sort({ createdAt: -1 })
+    .toArray();
+  const orgs = await database
+    .collection<OrganizationDoc>('organizations')
+    .find({ _id: { $in: invitations.map((i) => new ObjectId(i.orgId)) } })
+    .project<{ _id: ObjectId; name: string }>({ name: 1 })
+    .toArray();
+  const names = new Map(orgs.map((org) => [org._id.toString(), org.name]));
+  return invitations.map((i) => ({ ...toInvitationInfo(i), orgName: names.get(i.orgId) ?? null }));
+}
+
+// An invitation can only be used once, by the user it was sent to, with its token
+async function takeInvitation(invitationId: string, email: string, token: string): Promise<InvitationDoc | null> {
+  const oid = parseObjectId(invitationId);
+  if (!oid) return null;
+  const database = await getDb();
+  return database.collection<InvitationDoc>('org_invitations').findOneAndDelete({
+    _id: oid,
+    email: normalizeEmail(email),
+    tokenHash: hashInviteToken(token),
+    expiresAt: { $gt: new Date() },
+  });
+}
+
+/**
+ * Join the organization of a pending invitation addressed to the user.
+ * Returns null for unknown, expired and other users' invitations and for a
+ * wrong token; a user who is already a member keeps their current role.
+ */
+export async function acceptInvitation(
+  invitationId: string,
+  token: string,
+  user: { id: string; email: string }
+): Promise<MembershipDoc | null> {
+  const invitation = await takeInvitation(invitationId, user.email, token);
+  if (!invitation) return null;
+  return (
+    (await addMember(invitation.orgId, user.id, invitation.role)) ??
+    (await getMembership(invitation.orgId, user.id))
+  );
+}
+
+export async function declineInvitation(invitationId: string, token: string, email: string): Promise<boolean> {
+  return (await takeInvitation(invitationId, email, token)) !== null;
+}
+
+/**
+ * The organization a user's legacy keys act in. Users created before
+ * organizations existed get a personal one on first use.
+ */
+export async function getDefaultOrgId(userId: string, email: string): Promise<string> {
+  const database = await getDb();
+  const user = await database.collection('users').findOne({ _id: new ObjectId(userId) });
+  if (typeof user?.defaultOrgId === 'string') return user.defaultOrgId;
+  const org = await createOrganization(personalOrgName(email), userId);
+  const orgId = org._id.toString();
+  await database
+    .collection('users')
+    .updateOne({ _id: new ObjectId(userId) }, { $set: { defaultOrgId: orgId, updatedAt: new Date() } });
+  return orgId;
+}
+
+export function personalOrgName(email: string): string {
+  return `${email}'s workspace`;
+}
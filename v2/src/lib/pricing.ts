@@ -0,0 +1,42 @@
+/**
+ * List prices (USD) used to estimate usage cost. Unknown providers or models
+ * are priced at zero; fake and self-hosted providers are free.
+ */
+
+const STT_PER_MINUTE: Record<string, number> = {
+  openai: 0.006,
+};
+
+const LLM_PER_MILLION_TOKENS: Record<string, { input: number; output: number }> = {
+  'openai:gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'openai:gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai:gpt-4o': { input: 2.5, output: 10 },
+  'openai:gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'openai:gpt-4.1': { input: 2, output: 8 },
+};
+
+const TTS_PER_MILLION_CHARS: Record<string, number> = {
+  'openai:tts-1': 15,
+  'openai:tts-1-hd': 30,
+};
+
+export const PRICING_CURRENCY = 'USD';
+
+export function sttCost(provider: string, seconds: number): number {
+  return ((STT_PER_MINUTE[provider] ?? 0) * seconds) / 60;
+}
+
+export function llmCost(
+  provider: string,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const price = LLM_PER_MILLION_TOKENS[`${provider}:${model}`];
+  if (!price) return 0;
+  return (price.input * promptTokens + price.output * completionTokens) / 1_000_000;
+}
+
+export function ttsCost(provider: string, model: string, characters: number): number {
+  return ((TTS_PER_MILLION_CHARS[`${provider}:${model}`] ?? 0) * characters) / 1_000_000;
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { assertPublicHost, isPrivateAddress, isPrivateHostname } from './private-network';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fe80::1',
+    'fd00::1',
+    '::ffff:127.0.0.1',
+    '::ffff:a9fe:a9fe',
+  ])('flags %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '1.1.1.1', '100.128.0.1', '2606:4700:4700::1111'])('allows %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it('treats non-addresses as private', () => {
+    expect(isPrivateAddress('example.com')).toBe(true);
+  });
+});
+
+describe('isPrivateHostname', () => {
+  it('flags localhost names and private literals', () => {
+    expect(isPrivateHostname('localhost')).toBe(true);
+    expect(isPrivateHostname('api.localhost.')).toBe(true);
+    expect(isPrivateHostname('[::1]')).toBe(true);
+    expect(isPrivateHostname('[::ffff:7f00:1]')).toBe(true);
+  });
+
+  it('leaves DNS names to be resolved', () => {
+    expect(isPrivateHostname('example.com')).toBe(false);
+  });
+});
+
+describe('assertPublicHost', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('refuses private literals before resolving anything', async () => {
+    await expect(assertPublicHost('169.254.169.254')).rejects.toMatchObject({ code: 'EPRIVATEADDRESS' });
+  });
+
+  it('allows anything when private URLs are enabled', async () => {
+    vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_URLS', 'true');
+    await expect(assertPublicHost('127.0.0.1')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+/**
+ * Keeps server-side requests to user-supplied URLs (webhooks) off loopback,
+ * private, link-local and other non-public addresses. Hostnames are checked
+ * after DNS resolution, when connecting, so a public name pointing at
+ * 127.0.0.1 or a cloud metadata address is refused too.
+ */
+
+// One list per family: a single BlockList also matches IPv4 addresses against IPv4-mapped IPv6 rules
+const BLOCKED_IPV4 = new BlockList();
+const BLOCKED_IPV6 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_IPV4.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  // Unspecified, loopback and IPv4-compatible
+  ['::', 96],
+  // IPv4-mapped (::ffff:7f00:1 is 127.0.0.1)
+  ['::ffff:0:0', 96],
+  // NAT64 and 6to4, which embed IPv4 addresses
+  ['64:ff9b::', 96],
+  ['2002::', 16],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_IPV6.addSubnet(network, prefix, 'ipv6');
+}
+
+export function privateUrlsAllowed(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+}
+
+/** True for IP addresses that are not publicly routable, and for anything that is not an IP. */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) return true;
+  return family === 6 ? BLOCKED_IPV6.check(address, 'ipv6') : BLOCKED_IPV4.check(address, 'ipv4');
+}
+
+/**
+ * A URL hostname that is private without resolving it: `localhost` names and
+ * private IP literals. (`URL` keeps IPv6 literals in brackets.)
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost')) return true;
+  return isIP(host) ? isPrivateAddress(host) : false;
+}
+
+function privateAddressError(hostname: string): Error {
+  return Object.assign(new Error(`${hostname} resolves to a private or loopback address`), {
+    code: 'EPRIVATEADDRESS',
+  });
+}
+
+/** Resolve `hostname` and fail when any of its addresses is private. */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  if (privateUrlsAllowed()) return;
+  if (isPrivateHostname(hostname)) throw privateAddressError(hostname);
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) return;
+  const addresses = await dns.promises.lookup(host, { all: true });
+  if (addresses.some((a) => isPrivateAddress(a.address))) throw privateAddressError(hostname);
+}
+
+// Checks the addresses actually connected to, so DNS changes after assertPublicHost do not slip through
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, '', 0);
+      return;
+    }
+    if (!privateUrlsAllowed() && addresses.some((a) => isPrivateAddress(a.address))) {
+      callback(privateAddressError(hostname), '', 0);
+      return;
+    }
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/** Agents for axios (`httpAgent` / `httpsAgent`) that only connect to public addresses. */
+export const publicHttpAgent = new http.Agent({ lookup: publicLookup });
+export const publicHttpsAgent = new https.Agent({ lookup: publicLookup });
@@ -0,0 +1,199 @@
+import { preparedAudioDuration } from '../audio';
+import { normalizeLanguage } from '../languages';
+import { createHash } from 'crypto';
+import type {
+  EmbeddingProvider,
+  LlmCompletion,
+  LlmProvider,
+  LlmRequest,
+  SttProvider,
+  Transcription,
+  TtsProvider,
+} from './types';
+
+/**
+ * Deterministic offline providers for dev and CI: no network, no API key.
+ * Same input always gives the same output.
+ */
+
+/**
+ * One segment spanning the audio, with words spread evenly over it.
+ * `FAKE_STT_AVG_LOGPROB` (default -0.1) sets its confidence.
+ */
+function fakeTranscription(text: string, language: string, seconds: number): Transcription {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const step = tokens.length ? seconds / tokens.length : 0;
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return {
+    text,
+    language,
+    segments: [
+      {
+        text,
+        start: 0,
+        end: round(seconds),
+        avgLogprob: Number(process.env.FAKE_STT_AVG_LOGPROB) || -0.1,
+        noSpeechProb: 0.01,
+      },
+    ],
+    words: tokens.map((word, i) => ({ word, start: round(i * step), end: round((i + 1) * step) })),
+  };
+}
+
+export function createFakeSttProvider(): SttProvider {
+  return {
+    name: 'fake',
+    async transcribe(audioFilePath, { language } = {}) {
+      const detected = language ?? normalizeLanguage(process.env.FAKE_LANGUAGE) ?? 'en';
+      const seconds = await preparedAudioDuration(audioFilePath);
+      const text = process.env.FAKE_TRANSCRIPT || `This is a test recording of ${seconds.toFixed(1)} seconds.`;
+      return fakeTranscription(text, detected, seconds);
+    },
+  };
+}
+
+/**
+ * Echo the last user message. When tools are offered and the user mentions
+ * an invoice or bill number, call the matching lookup tool first, then
+ * answer with its result, so the tool loop can be exercised offline.
+ */
+function fakeReply({ messages, tools }: LlmRequest): Omit<LlmCompletion, 'usage'> {
+  const lastUserIndex = messages.map((m) => m.role).lastIndexOf('user');
+  const lastUser = messages[lastUserIndex];
+  const userText = lastUser?.role === 'user' ? lastUser.content : '';
+  const toolResults = messages
+    .slice(lastUserIndex + 1)
+    .flatMap((m) => (m.role === 'tool' ? [m.content] : []));
+
+  if (toolResults.length) {
+    return { text: `Here is what I found: ${toolResults.join(' ')}`, toolCalls: [] };
+  }
+
+  const toolNames = new Set((tools ?? []).map((t) => t.name));
+  const invoice = userText.match(/\binvoice\s+(?:number\s+)?#?([A-Z0-9-]+)/i);
+  if (invoice && toolNames.has('lookup_invoice')) {
+    return {
+      text: '',
+      toolCalls: [
+        {
+          id: `fake_call_${lastUserIndex}`,
+          name: 'lookup_invoice',
+          arguments: JSON.stringify({ invoiceNumber: invoice[1] }),
+        },
+      ],
+    };
+  }
+  const bill = userText.match(/\bbill\s+(?:number\s+)?#?([A-Z0-9-]+)/i);
+  if (bill && toolNames.has('get_bill_payment_status')) {
+    return {
+      text: '',
+      toolCalls: [
+        {
+          id: `fake_call_${lastUserIndex}`,
+          name: 'get_bill_payment_status',
+          arguments: JSON.stringify({ billNumber: bill[1] }),
+        },
+      ],
+    };
+  }
+
+  const turns = messages.filter((m) => m.role === 'user').length;
+  return { text: `You said: "${userText}". This is fake reply number ${turns}.`, toolCalls: [] };
+}
+
+function fakeCompletion(request: LlmRequest): LlmCompletion {
+  const result = fakeReply(request);
+  // Rough 4-characters-per-token estimate so usage limits can be exercised
+  const promptChars = request.messages.reduce((n, m) => n + (m.content?.length ?? 0), 0);
+  const completionChars = result.text.length + JSON.stringify(result.toolCalls).length;
+  return {
+    ...result,
+    usage: {
+      promptTokens: Math.ceil(promptChars / 4),
+      completionTokens: Math.ceil(completionChars / 4),
+    },
+  };
+}
+
+export function createFakeLlmProvider(): LlmProvider {
+  return {
+    name: 'fake',
+    async complete(request) {
+      return fakeCompletion(request);
+    },
+    async *stream(request) {
+      const { text, toolCalls, usage } = fakeCompletion(request);
+      for (const word of text.split(/(?<=\s)/)) {
+        if (word) yield { type: 'text', text: word };
+      }
+      if (toolCalls.length) yield { type: 'tool_calls', toolCalls };
+      yield { type: 'usage', usage };
+    },
+  };
+}
+
+const FAKE_SAMPLE_RATE = 16_000;
+
+/** Silent 16-bit mono PCM WAV, 50 ms per character at speed 1 (capped at 10 s). */
+function silentWav(text: string, speed = 1): Buffer {
+  const seconds = Math.min(10, Math.max(0.2, (text.length * 0.05) / speed));
+  const dataSize = Math.round(seconds * FAKE_SAMPLE_RATE) * 2;
+  const wav = Buffer.alloc(44 + dataSize);
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + dataSize, 4);
+  wav.write('WAVE', 8);
+  wav.write('fmt ', 12);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // mono
+  wav.writeUInt32LE(FAKE_SAMPLE_RATE, 24);
+  wav.writeUInt32LE(FAKE_SAMPLE_RATE * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36);
+  wav.writeUInt32LE(dataSize, 40);
+  return wav;
+}
+
+export function createFakeTtsProvider(): TtsProvider {
+  return {
+    name: 'fake',
+    formats: ['wav'],
+    maxTextLength: 4096,
+    async synthesize(text, { speed } = {}) {
+      return { audio: silentWav(text, speed), contentType: 'audio/wav', model: 'fake' };
+    },
+  };
+}
+
+const HASH_EMBEDDING_DIMENSIONS = 256;
+
+function hashBucket(feature: string): { index: number; sign: number } {
+  const digest = createHash('md5').update(feature).digest();
+  return { index: digest.readUInt16BE(0) % HASH_EMBEDDING_DIMENSIONS, sign: digest[2] & 1 ? 1 : -1 };
+}
+
+/**
+ * Local embeddings by feature hashing: words and word pairs are hashed into a
+ * fixed-size, normalized vector. No semantics, but texts sharing words score
+ * as similar, which is enough for offline retrieval and tests.
+ */
+export function createHashEmbeddingProvider(): EmbeddingProvider {
+  return {
+    name: 'hash',
+    model: `hash-${HASH_EMBEDDING_DIMENSIONS}`,
+    async embed(texts) {
+      return texts.map((text) => {
+        const vector = new Array<number>(HASH_EMBEDDING_DIMENSIONS).fill(0);
+        const words = text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) ?? [];
+        const features = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+        for (const feature of features) {
+          const { index, sign } = hashBucket(feature);
+          vector[index] += sign;
+        }
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+        return vector.map((v) => v / norm);
+      });
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import {
+  createOpenAiEmbeddingProvider,
+  createOpenAiLlmProvider,
+  createOpenAiSttProvider,
+  createOpenAiTtsProvider,
+  createWhisperSttProvider,
+} from './openai';
+import {
+  createFakeLlmProvider,
+  createFakeSttProvider,
+  createFakeTtsProvider,
+  createHashEmbeddingProvider,
+} from './fake';
+import type { EmbeddingProvider, LlmProvider, SttProvider, TtsProvider } from './types';
+
+export type {
+  EmbeddingProvider,
+  LlmCompletion,
+  LlmMessage,
+  LlmProvider,
+  LlmRequest,
+  LlmStreamEvent,
+  SpeechAudio,
+  SpeechFormat,
+  SttOptions,
+  SttProvider,
+  TokenUsage,
+  ToolCall,
+  ToolSpec,
+  Transcription,
+  TranscriptSegment,
+  TranscriptWord,
+  TtsOptions,
+  TtsProvider,
+} from './types';
+
+/**
+ * Provider registry. Each capability is chosen by env:
+ * `STT_PROVIDER`, `LLM_PROVIDER`, `TTS_PROVIDER`, `EMBEDDING_PROVIDER` (falling back to
+ * `DEFAULT_PROVIDER`, then `openai`). Additional backends (Azure, Deepgram,
+ * ElevenLabs, ...) plug in with the register* functions below.
+ */
+
+type Factory<T> = () => T;
+
+const sttFactories = new Map<string, Factory<SttProvider>>();
+const llmFactories = new Map<string, Factory<LlmProvider>>();
+const ttsFactories = new Map<string, Factory<TtsProvider>>();
+const embeddingFactories = new Map<string, Factory<EmbeddingProvider>>();
+type AnyProvider = SttProvider | LlmProvider | TtsProvider | EmbeddingProvider;
+const instances = new Map<string, AnyProvider>();
+
+export function registerSttProvider(name: string, factory: Factory<SttProvider>): void {
+  sttFactories.set(name, factory);
+}
+
+export function registerLlmProvider(name: string, factory: Factory<LlmProvider>): void {
+  llmFactories.set(name, factory);
+}
+
+export function registerTtsProvider(name: string, factory: Factory<TtsProvider>): void {
+  ttsFactories.set(name, factory);
+}
+
+export function registerEmbeddingProvider(name: string, factory: Factory<EmbeddingProvider>): void {
+  embeddingFactories.set(name, factory);
+}
+
+registerSttProvider('openai', createOpenAiSttProvider);
+registerSttProvider('whisper-http', () => {
+  const url = process.env.WHISPER_URL;
+  if (!url) throw new Error('WHISPER_URL is not set');
+  return createWhisperSttProvider({
+    name: 'whisper-http',
+    url,
+    apiKey: process.env.WHISPER_API_KEY,
+    model: process.env.WHISPER_MODEL,
+  });
+});
+registerSttProvider('fake', createFakeSttProvider);
+registerLlmProvider('openai', createOpenAiLlmProvider);
+registerLlmProvider('fake', createFakeLlmProvider);
+registerTtsProvider('openai', createOpenAiTtsProvider);
+registerTtsProvider('fake', createFakeTtsProvider);
+registerEmbeddingProvider('openai', createOpenAiEmbeddingProvider);
+registerEmbeddingProvider('hash', createHashEmbeddingProvider);
+registerEmbeddingProvider('fake', createHashEmbeddingProvider);
+
+function resolve<T extends AnyProvider>(
+  kind: 'stt' | 'llm' | 'tts' | 'embedding',
+  factories: Map<string, Factory<T>>,
+  configured: string | undefined
+): T {
+  const name = configured || process.env.DEFAULT_PROVIDER || 'openai';
+  const cacheKey = `${kind}:${name}`;
+  const cached = instances.get(cacheKey);
+  if (cached) return cached as T;
+  const factory = factories.get(name);
+  if (!factory) {
+    throw new Error(
+      `Unknown ${kind.toUpperCase()} provider "${name}". Available: ${Array.from(factories.keys()).join(', ')}`
+    );
+  }
+  const provider = factory();
+  instances.set(cacheKey, provider);
+  return provider;
+}
+
+export function getSttProvider(): SttProvider {
+  return resolve('stt', sttFactories, process.env.STT_PROVIDER);
+}
+
+export function getLlmProvider(): LlmProvider {
+  return resolve('llm', llmFactories, process.env.LLM_PROVIDER);
+}
+
+export function getTtsProvider(): TtsProvider {
+  return resolve('tts', ttsFactories, process.env.TTS_PROVIDER);
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return resolve('embedding', embeddingFactories, process.env.EMBEDDING_PROVIDER);
+}
@@ -0,0 +1,294 @@
+import fs from 'fs';
+import path from 'path';
+import FormData from 'form-data';
+import axios from 'axios';
+import OpenAI from 'openai';
+import { normalizeLanguage } from '../languages';
+import type {
+  EmbeddingProvider,
+  LlmMessage,
+  LlmProvider,
+  SttProvider,
+  ToolCall,
+  ToolSpec,
+  TranscriptWord,
+  TtsProvider,
+} from './types';
+
+const OPENAI_WHISPER_URL = 'https://api.openai.com/v1/audio/transcriptions';
+
+interface WhisperWord {
+  word?: string;
+  start?: number;
+  end?: number;
+  probability?: number;
+}
+
+interface WhisperVerboseResponse {
+  text?: string;
+  language?: string;
+  segments?: {
+    text?: string;
+    start?: number;
+    end?: number;
+    avg_logprob?: number;
+    no_speech_prob?: number;
+    /** Self-hosted servers (faster-whisper) nest words in segments */
+    words?: WhisperWord[];
+  }[];
+  words?: WhisperWord[];
+}
+
+function toTranscriptWords(words: WhisperWord[] | undefined): TranscriptWord[] {
+  return (words ?? []).flatMap((w) =>
+    typeof w.word === 'string' && typeof w.start === 'number' && typeof w.end === 'number'
+      ? [
+          {
+            word: w.word.trim(),
+            start: w.start,
+            end: w.end,
+            ...(typeof w.probability === 'number' ? { probability: w.probability } : {}),
+          },
+        ]
+      : []
+  );
+}
+
+let client: OpenAI | null = null;
+
+// Created on first use so importing this module never requires OPENAI_API_KEY
+function getClient(): OpenAI {
+  if (!client) client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return client;
+}
+
+/**
+ * Whisper-compatible transcription over HTTP. Used for OpenAI and for
+ * self-hosted servers that expose the same `/v1/audio/transcriptions` API.
+ *
+ * Calls the API using axios + form-data (Node https stack).
+ * Avoids 421 Misdirected Request that can occur with Node fetch/Undici (HTTP/1.1).
+ */
+export function createWhisperSttProvider(options: {
+  name: string;
+  url: string;
+  apiKey?: string;
+  model?: string;
+}): SttProvider {
+  return {
+    name: options.name,
+    async transcribe(audioFilePath, { language } = {}) {
+      const form = new FormData();
+      form.append('file', fs.createReadStream(audioFilePath), {
+        filename: path.basename(audioFilePath) || 'audio.wav',
+        contentType: 'audio/wav',
+      });
+      form.append('model', options.model ?? 'whisper-1');
+      // verbose_json also reports the detected language, segments and word timings
+      form.append('response_format', 'verbose_json');
+      form.append('timestamp_granularities[]', 'segment');
+      form.append('timestamp_granularities[]', 'word');
+      if (language) form.append('language', language);
+
+      const response = await axios.post<WhisperVerboseResponse>(options.url, form, {
+        headers: {
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+          ...form.getHeaders(),
+        },
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity,
+        timeout: 120_000,
+        validateStatus: () => true,
+      });
+
+      if (response.status !== 200) {
+        const msg =
+          response.data && typeof response.data === 'object' && 'error' in response.data
+            ? (response.data as { error?: { message?: string } }).error?.message
+            : response.statusText;
+        throw Object.assign(new Error(msg || `Whisper API error: ${response.status}`), {
+          response: { status: response.status },
+        });
+      }
+
+      const text = response.data?.text;
+      const segments = response.data?.segments ?? [];
+      return {
+        text: typeof text === 'string' ? text : '',
+        language: normalizeLanguage(response.data?.language) ?? language ?? null,
+        segments: segments.map((s) => ({
+          text: (s.text ?? '').trim(),
+          start: s.start ?? 0,
+          end: s.end ?? 0,
+          avgLogprob: s.avg_logprob ?? 0,
+          noSpeechProb: s.no_speech_prob ?? 0,
+        })),
+        words: response.data?.words
+          ? toTranscriptWords(response.data.words)
+          : segments.flatMap((s) => toTranscriptWords(s.words)),
+      };
+    },
+  };
+}
+
+export function createOpenAiSttProvider(): SttProvider {
+  return createWhisperSttProvider({
+    name: 'openai',
+    url: OPENAI_WHISPER_URL,
+    apiKey: process.env.OPENAI_API_KEY,
+  });
+}
+
+function toOpenAiMessages(messages: LlmMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map((m): OpenAI.Chat.ChatCompletionMessageParam => {
+    if (m.role === 'tool') {
+      return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+    }
+    if ('toolCalls' in m) {
+      return {
+        role: 'assistant',
+        content: m.content,
+        tool_calls: m.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return { role: m.role, content: m.content };
+  });
+}
+
+function toOpenAiTools(tools: ToolSpec[] | undefined): OpenAI.Chat.ChatCompletionTool[] | undefined {
+  if (!tools?.length) return undefined;
+  return tools.map((tool) => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+export function createOpenAiLlmProvider(): LlmProvider {
+  return {
+    name: 'openai',
+    async complete({ messages, model, maxTokens, temperature, tools }) {
+      const response = await getClient().chat.completions.create({
+        model,
+        messages: toOpenAiMessages(messages),
+        max_tokens: maxTokens,
+        temperature,
+        tools: toOpenAiTools(tools),
+      });
+      const message = response.choices[0]?.message;
+      return {
+        text: message?.content ?? '',
+        toolCalls: (message?.tool_calls ?? []).map((call) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments,
+        })),
+        usage: {
+          promptTokens: response.usage?.prompt_tokens ?? 0,
+          completionTokens: response.usage?.completion_tokens ?? 0,
+        },
+      };
+    },
+    async *stream({ messages, model, maxTokens, temperature, tools }) {
+      const stream = await getClient().chat.completions.create({
+        model,
+        messages: toOpenAiMessages(messages),
+        max_tokens: maxTokens,
+        temperature,
+        tools: toOpenAiTools(tools),
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      // Tool call names and arguments arrive in fragments, keyed by index
+      const toolCalls: ToolCall[] = [];
+      for await (const chunk of stream) {
+        if (chunk.usage) {
+          yield {
+            type: 'usage',
+            usage: {
+              promptTokens: chunk.usage.prompt_tokens,
+              completionTokens: chunk.usage.completion_tokens,
+            },
+          };
+        }
+        const delta = chunk.choices[0]?.delta;
+        if (delta?.content) yield { type: 'text', text: delta.content };
+        for (const fragment of delta?.tool_calls ?? []) {
+          const call = (toolCalls[fragment.index] ??= { id: '', name: '', arguments: '' });
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+        }
+      }
+      if (toolCalls.length) yield { type: 'tool_calls', toolCalls: toolCalls.filter(Boolean) };
+    },
+  };
+}
+
+export const OPENAI_TTS_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'] as const;
+
+type OpenAiVoice = (typeof OPENAI_TTS_VOICES)[number];
+
+const OPENAI_TTS_MAX_LENGTH = 4096;
+
+const OPENAI_TTS_CONTENT_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  opus: 'audio/ogg',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+  pcm: 'audio/pcm',
+};
+
+export function createOpenAiTtsProvider(): TtsProvider {
+  return {
+    name: 'openai',
+    formats: ['mp3', 'opus', 'aac', 'flac', 'wav', 'pcm'],
+    maxTextLength: OPENAI_TTS_MAX_LENGTH,
+    async synthesize(text, { voice = 'alloy', model: requestedModel, hd, speed, format = 'mp3' } = {}) {
+      const model = requestedModel ?? (hd ? 'tts-1-hd' : 'tts-1');
+      if (text.length > OPENAI_TTS_MAX_LENGTH) {
+        throw new Error(`Text exceeds ${OPENAI_TTS_MAX_LENGTH} character limit`);
+      }
+      const contentType = OPENAI_TTS_CONTENT_TYPES[format];
+      if (!contentType) throw new Error(`Unsupported OpenAI speech format: ${format}`);
+      if (!(OPENAI_TTS_VOICES as readonly string[]).includes(voice)) {
+        throw new Error(`Unsupported OpenAI voice: ${voice}`);
+      }
+      const response = await getClient().audio.speech.create({
+        model,
+        voice: voice as OpenAiVoice,
+        input: text,
+        response_format: format as 'mp3' | 'opus' | 'aac' | 'flac' | 'wav' | 'pcm',
+        ...(speed !== undefined ? { speed } : {}),
+      });
+      const arrayBuffer = await response.arrayBuffer();
+      return { audio: Buffer.from(arrayBuffer), contentType, model };
+    },
+  };
+}
+
+// The embeddings API accepts up to 2048 inputs per request
+const EMBEDDING_BATCH_SIZE = 256;
+
+export function createOpenAiEmbeddingProvider(): EmbeddingProvider {
+  const model = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+  return {
+    name: 'openai',
+    model,
+    async embed(texts) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const response = await getClient().embeddings.create({
+          model,
+          input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+        });
+        vectors.push(...response.data.sort((a, b) => a.index - b.index).map((d) => d.embedding));
+      }
+      return vectors;
+    },
+  };
+}
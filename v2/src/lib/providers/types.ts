@@ -0,0 +1,135 @@
+import type { ChatMessage } from '../llm';
+
+export interface SttOptions {
+  /** ISO 639-1 code of the spoken language; detected when unset */
+  language?: string;
+}
+
+export interface TranscriptWord {
+  word: string;
+  /** Seconds from the start of the audio */
+  start: number;
+  end: number;
+  /** 0–1; only some providers report it */
+  probability?: number;
+}
+
+export interface TranscriptSegment {
+  text: string;
+  start: number;
+  end: number;
+  /** Mean token log-probability; below about -1 the text is often wrong */
+  avgLogprob: number;
+  /** Probability that the segment is silence or noise rather than speech */
+  noSpeechProb: number;
+}
+
+export interface Transcription {
+  text: string;
+  /** ISO 639-1 code of the spoken language, when the provider reports it */
+  language: string | null;
+  /** Empty when the provider does not report them */
+  segments: TranscriptSegment[];
+  words: TranscriptWord[];
+}
+
+export interface SttProvider {
+  name: string;
+  /** Transcribe a 16 kHz mono WAV file (see prepareAudioForWhisper) */
+  transcribe(audioFilePath: string, options?: SttOptions): Promise<Transcription>;
+}
+
+/** A function the model may call; `parameters` is a JSON Schema object. */
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments, exactly as produced by the model */
+  arguments: string;
+}
+
+export type LlmMessage =
+  | ChatMessage
+  | { role: 'assistant'; content: string | null; toolCalls: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  tools?: ToolSpec[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  toolCalls: ToolCall[];
+  usage: TokenUsage;
+}
+
+export type LlmStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_calls'; toolCalls: ToolCall[] }
+  | { type: 'usage'; usage: TokenUsage };
+
+export interface LlmProvider {
+  name: string;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+  /** Yields text deltas as they are generated, then any tool calls and the token usage */
+  stream(request: LlmRequest): AsyncIterable<LlmStreamEvent>;
+}
+
+export interface SpeechAudio {
+  audio: Buffer;
+  contentType: string;
+  /** Model that produced the audio, for cost accounting */
+  model: string;
+}
+
+/** `mulaw` is raw 8-bit G.711 μ-law and `pcm` raw 16-bit little-endian, both mono. */
+export type SpeechFormat = 'mp3' | 'opus' | 'aac' | 'flac' | 'wav' | 'pcm' | 'mulaw';
+
+export interface TtsOptions {
+  voice?: string;
+  /** Voice per language (ISO 639-1 code → voice), used over `voice` for that language */
+  voices?: Record<string, string>;
+  /** ISO 639-1 code of the text's language, when known */
+  language?: string;
+  model?: string;
+  /** Use the provider's higher-quality model when `model` is not set */
+  hd?: boolean;
+  /** Playback speed multiplier, 1 = normal */
+  speed?: number;
+  /** Output format; default the provider's preferred (OpenAI: mp3) */
+  format?: SpeechFormat;
+  /** Output sample rate in Hz; default the provider's own */
+  sampleRate?: number;
+}
+
+export interface TtsProvider {
+  name: string;
+  /** Formats `synthesize` can return directly, preferred first; others are transcoded */
+  formats: readonly SpeechFormat[];
+  /** Longest text accepted in one call; longer replies are split into sentences */
+  maxTextLength: number;
+  /** `options.format` is always one of `formats`; `options.sampleRate` is handled by the caller */
+  synthesize(text: string, options?: TtsOptions): Promise<SpeechAudio>;
+}
+
+export interface EmbeddingProvider {
+  name: string;
+  /** Identifies the vector space; vectors from different models are not comparable */
+  model: string;
+  /** One vector per input, in order */
+  embed(texts: string[]): Promise<number[][]>;
+}
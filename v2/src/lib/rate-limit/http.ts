@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { describeLimit, retryAfterSeconds, type RateLimitResult } from './index';
+
+export function applyRateLimitHeaders<T extends NextResponse>(
+  res: T,
+  result: RateLimitResult | null
+): T {
+  if (!result) return res;
+  res.headers.set('X-RateLimit-Limit', String(result.limit));
+  res.headers.set('X-RateLimit-Remaining', String(result.remaining));
+  res.headers.set('X-RateLimit-Reset', String(Math.ceil(result.resetAt.getTime() / 1000)));
+  return res;
+}
+
+export function rateLimitExceeded(result: RateLimitResult): NextResponse {
+  const retryAfter = retryAfterSeconds(result);
+  const res = NextResponse.json(
+    {
+      error: 'RATE_LIMIT_EXCEEDED',
+      message: describeLimit(result),
+      metric: result.metric,
+      limit: result.limit,
+      retryAfter,
+    },
+    { status: 429 }
+  );
+  res.headers.set('Retry-After', String(retryAfter));
+  return applyRateLimitHeaders(res, result);
+}
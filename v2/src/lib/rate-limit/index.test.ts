@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AuthUser } from '../auth';
+import { consumeAudioSeconds, enforceRequestLimits } from '.';
+
+function testUser(id: string): AuthUser {
+  return { id, email: `${id}@example.com`, keyId: `key-${id}`, scopes: ['*'], orgId: `org-${id}`, orgRole: 'owner' };
+}
+
+describe('rate limit windows', () => {
+  beforeAll(() => {
+    vi.stubEnv('RATE_LIMIT_STORE', 'memory');
+    vi.stubEnv('RATE_LIMIT_KEY_REQUESTS_PER_MINUTE', '2');
+    vi.stubEnv('RATE_LIMIT_USER_REQUESTS_PER_MINUTE', '0');
+    vi.stubEnv('RATE_LIMIT_USER_AUDIO_SECONDS_PER_DAY', '60');
+    vi.stubEnv('RATE_LIMIT_USER_LLM_TOKENS_PER_MONTH', '0');
+    vi.useFakeTimers();
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('refuses requests over the per-minute limit until the next minute', async () => {
+    vi.setSystemTime(new Date('2026-03-10T12:00:15Z'));
+    const user = testUser('minute');
+    expect(await enforceRequestLimits(user)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await enforceRequestLimits(user)).toMatchObject({ allowed: true, remaining: 0 });
+    const refused = await enforceRequestLimits(user);
+    expect(refused).toMatchObject({ allowed: false, subject: 'key', period: 'minute', limit: 2 });
+    expect(refused?.resetAt).toEqual(new Date('2026-03-10T12:01:00Z'));
+
+    vi.setSystemTime(new Date('2026-03-10T12:01:00Z'));
+    expect(await enforceRequestLimits(user)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('counts each API key separately', async () => {
+    vi.setSystemTime(new Date('2026-03-10T13:00:00Z'));
+    const user = testUser('keys');
+    await enforceRequestLimits(user);
+    await enforceRequestLimits(user);
+    expect(await enforceRequestLimits(user)).toMatchObject({ allowed: false });
+    expect(await enforceRequestLimits({ ...user, keyId: 'other-key' })).toMatchObject({ allowed: true });
+  });
+
+  it('keeps daily audio within the UTC day', async () => {
+    vi.setSystemTime(new Date('2026-03-10T23:59:00Z'));
+    const user = testUser('audio');
+    expect(await consumeAudioSeconds(user, 50)).toBeNull();
+    expect(await consumeAudioSeconds(user, 20)).toMatchObject({ allowed: false, metric: 'audio_seconds' });
+    // The refused 20 seconds were not counted
+    expect(await consumeAudioSeconds(user, 10)).toBeNull();
+
+    vi.setSystemTime(new Date('2026-03-11T00:00:01Z'));
+    expect(await consumeAudioSeconds(user, 60)).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+import type { AuthUser } from '../auth';
+import { createMemoryStore, createMongoStore, type RateLimitStore } from './stores';
+
+export type { RateLimitStore } from './stores';
+
+export type RateLimitMetric = 'requests' | 'audio_seconds' | 'llm_tokens';
+type Subject = 'org' | 'user' | 'key';
+type Period = 'minute' | 'day' | 'month';
+
+interface RateLimitRule {
+  subject: Subject;
+  metric: RateLimitMetric;
+  period: Period;
+  limit: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  metric: RateLimitMetric;
+  subject: Subject;
+  period: Period;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+// [subject, metric, period, env var, default]; a limit of 0 (or unset with
+// no default) disables the rule. Org limits cover all members together.
+const RULE_CONFIG: [Subject, RateLimitMetric, Period, string, number][] = [
+  ['key', 'requests', 'minute', 'RATE_LIMIT_KEY_REQUESTS_PER_MINUTE', 20],
+  ['user', 'requests', 'minute', 'RATE_LIMIT_USER_REQUESTS_PER_MINUTE', 60],
+  ['org', 'requests', 'minute', 'RATE_LIMIT_ORG_REQUESTS_PER_MINUTE', 0],
+  ['key', 'audio_seconds', 'day', 'RATE_LIMIT_KEY_AUDIO_SECONDS_PER_DAY', 0],
+  ['user', 'audio_seconds', 'day', 'RATE_LIMIT_USER_AUDIO_SECONDS_PER_DAY', 3600],
+  ['org', 'audio_seconds', 'day', 'RATE_LIMIT_ORG_AUDIO_SECONDS_PER_DAY', 0],
+  ['key', 'llm_tokens', 'month', 'RATE_LIMIT_KEY_LLM_TOKENS_PER_MONTH', 0],
+  ['user', 'llm_tokens', 'month', 'RATE_LIMIT_USER_LLM_TOKENS_PER_MONTH', 2_000_000],
+  ['org', 'llm_tokens', 'month', 'RATE_LIMIT_ORG_LLM_TOKENS_PER_MONTH', 0],
+];
+
+const SUBJECT_LABELS: Record<Subject, string> = {
+  key: 'API key',
+  user: 'user',
+  org: 'organization',
+};
+
+/** Who a count is charged to; background work with no API key skips the per-key rules. */
+type LimitSubject = Pick<AuthUser, 'id' | 'orgId'> & { keyId?: string };
+
+// server.ts (the WebSocket) and the Next.js route bundle load separate copies
+// of this module in one process; keeping the store on globalThis makes them
+// share one set of counters, which matters for the memory store
+const globalStore = globalThis as typeof globalThis & { __rateLimitStore?: RateLimitStore };
+
+function getStore(): RateLimitStore {
+  if (!globalStore.__rateLimitStore) {
+    globalStore.__rateLimitStore =
+      process.env.RATE_LIMIT_STORE === 'memory' ? createMemoryStore() : createMongoStore();
+  }
+  return globalStore.__rateLimitStore;
+}
+
+function getRules(metric: RateLimitMetric): RateLimitRule[] {
+  return RULE_CONFIG.filter(([, m]) => m === metric)
+    .map(([subject, , period, envVar, fallback]) => {
+      const raw = process.env[envVar];
+      const parsed = raw ? Number(raw) : fallback;
+      return { subject, metric, period, limit: Number.isFinite(parsed) ? parsed : fallback };
+    })
+    .filter((rule) => rule.limit > 0);
+}
+
+/** Fixed windows in UTC: the current minute, day or calendar month. */
+function currentWindow(period: Period, now = new Date()): { id: string; resetAt: Date } {
+  if (period === 'minute') {
+    const minute = Math.floor(now.getTime() / 60_000);
+    return { id: `m${minute}`, resetAt: new Date((minute + 1) * 60_000) };
+  }
+  if (period === 'day') {
+    const start = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+    return {
+      id: `d${new Date(start).toISOString().slice(0, 10)}`,
+      resetAt: new Date(start + 24 * 60 * 60 * 1000),
+    };
+  }
+  const start = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+  return {
+    id: `M${new Date(start).toISOString().slice(0, 7)}`,
+    resetAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+function counterKey(rule: RateLimitRule, user: LimitSubject, windowId: string): string {
+  const subjectId =
+    rule.subject === 'org' ? user.orgId : rule.subject === 'user' ? user.id : user.keyId;
+  return `${rule.subject}:${subjectId}:${rule.metric}:${windowId}`;
+}
+
+function toResult(rule: RateLimitRule, used: number, resetAt: Date, allowed: boolean): RateLimitResult {
+  return {
+    allowed,
+    metric: rule.metric,
+    subject: rule.subject,
+    period: rule.period,
+    limit: rule.limit,
+    remaining: Math.max(0, rule.limit - used),
+    resetAt,
+  };
+}
+
+/**
+ * Add `amount` to every rule for `metric`. With `enforce`, an amount that
+ * would exceed any limit is rejected and nothing is counted.
+ */
+async function consume(
+  user: LimitSubject,
+  metric: RateLimitMetric,
+  amount: number,
+  enforce: boolean
+): Promise<RateLimitResult[]> {
+  const counters = getStore();
+  const applied: { key: string; resetAt: Date }[] = [];
+  const results: RateLimitResult[] = [];
+
+  for (const rule of getRules(metric)) {
+    if (rule.subject === 'key' && !user.keyId) continue;
+    const { id, resetAt } = currentWindow(rule.period);
+    const key = counterKey(rule, user, id);
+    const used = await counters.increment(key, amount, resetAt);
+    applied.push({ key, resetAt });
+    if (enforce && used > rule.limit) {
+      await Promise.all(applied.map((a) => counters.increment(a.key, -amount, a.resetAt)));
+      return [toResult(rule, used - amount, resetAt, false)];
+    }
+    results.push(toResult(rule, used, resetAt, true));
+  }
+  return results;
+}
+
+/** Whether the budget for `metric` is already used up, without counting anything. */
+async function checkExhausted(user: AuthUser, metric: RateLimitMetric): Promise<RateLimitResult | null> {
+  for (const rule of getRules(metric)) {
+    const { id, resetAt } = currentWindow(rule.period);
+    const used = await getStore().get(counterKey(rule, user, id));
+    if (used >= rule.limit) return toResult(rule, used, resetAt, false);
+  }
+  return null;
+}
+
+function tightest(results: RateLimitResult[]): RateLimitResult | null {
+  return results.reduce<RateLimitResult | null>(
+    (best, r) => (!best || r.remaining < best.remaining ? r : best),
+    null
+  );
+}
+
+/**
+ * Count one request against the per-minute limits and refuse it up front if
+ * the daily audio or monthly token budget is already spent. Returns the
+ * decisive result (a rejection, or the request limit closest to its cap),
+ * or null when no limits are configured.
+ */
+export async function enforceRequestLimits(user: AuthUser): Promise<RateLimitResult | null> {
+  for (const metric of ['audio_seconds', 'llm_tokens'] as const) {
+    const exhausted = await checkExhausted(user, metric);
+    if (exhausted) return exhausted;
+  }
+  return tightest(await consume(user, 'requests', 1, true));
+}
+
+/** Count audio against the daily budget; returns a rejection if it does not fit. */
+export async function consumeAudioSeconds(
+  user: AuthUser,
+  seconds: number
+): Promise<RateLimitResult | null> {
+  const results = await consume(user, 'audio_seconds', seconds, true);
+  return results.find((r) => !r.allowed) ?? null;
+}
+
+/** Give back audio counted for work that was then dropped (e.g. a job that was never queued). */
+export async function refundAudioSeconds(user: AuthUser, seconds: number): Promise<void> {
+  if (seconds > 0) await consume(user, 'audio_seconds', -seconds, false);
+}
+
+/** Whether `seconds` more audio would fit the daily budget, without counting it. */
+export async function checkAudioSeconds(
+  user: AuthUser,
+  seconds: number
+): Promise<RateLimitResult | null> {
+  for (const rule of getRules('audio_seconds')) {
+    const { id, resetAt } = currentWindow(rule.period);
+    const used = await getStore().get(counterKey(rule, user, id));
+    if (used + seconds > rule.limit) return toResult(rule, used, resetAt, false);
+  }
+  return null;
+}
+
+/** Record tokens after the fact; they count against the next request's check. */
+export async function recordLlmTokens(user: LimitSubject, tokens: number): Promise<void> {
+  if (tokens > 0) await consume(user, 'llm_tokens', tokens, false);
+}
+
+export function describeLimit(result: RateLimitResult): string {
+  const what =
+    result.metric === 'requests'
+      ? 'requests'
+      : result.metric === 'audio_seconds'
+        ? 'seconds of audio'
+        : 'LLM tokens';
+  return `Rate limit exceeded: ${result.limit} ${what} per ${result.period} for this ${SUBJECT_LABELS[result.subject]}`;
+}
+
+export function retryAfterSeconds(result: RateLimitResult): number {
+  return Math.max(1, Math.ceil((result.resetAt.getTime() - Date.now()) / 1000));
+}
@@ -0,0 +1,63 @@
+import { getDb } from '../db';
+
+/**
+ * Counter storage for rate limits. Keys already include their window, so a
+ * counter only has to live until `expiresAt`.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<number>;
+  /** Add `amount` (may be negative) and return the new value */
+  increment(key: string, amount: number, expiresAt: Date): Promise<number>;
+}
+
+/** Single-node store for dev; counters are lost on restart. */
+export function createMemoryStore(): RateLimitStore {
+  const counters = new Map<string, { value: number; expiresAt: number }>();
+
+  function sweep(now: number) {
+    counters.forEach((counter, key) => {
+      if (counter.expiresAt <= now) counters.delete(key);
+    });
+  }
+
+  return {
+    async get(key) {
+      const counter = counters.get(key);
+      return counter && counter.expiresAt > Date.now() ? counter.value : 0;
+    },
+    async increment(key, amount, expiresAt) {
+      const now = Date.now();
+      if (counters.size > 10_000) sweep(now);
+      const existing = counters.get(key);
+      const value = (existing && existing.expiresAt > now ? existing.value : 0) + amount;
+      counters.set(key, { value, expiresAt: expiresAt.getTime() });
+      return value;
+    },
+  };
+}
+
+interface CounterDoc {
+  _id: string;
+  value: number;
+  expiresAt: Date;
+}
+
+/** Shared store in the `rate_limits` collection (TTL index on `expiresAt`). */
+export function createMongoStore(): RateLimitStore {
+  return {
+    async get(key) {
+      const database = await getDb();
+      const doc = await database.collection<CounterDoc>('rate_limits').findOne({ _id: key });
+      return doc && doc.expiresAt > new Date() ? doc.value : 0;
+    },
+    async increment(key, amount, expiresAt) {
+      const database = await getDb();
+      const doc = await database.collection<CounterDoc>('rate_limits').findOneAndUpdate(
+        { _id: key },
+        { $inc: { value: amount }, $setOnInsert: { expiresAt } },
+        { upsert: true, returnDocument: 'after' }
+      );
+      return doc?.value ?? amount;
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { splitSentences } from './sentences';
+
+describe('splitSentences', () => {
+  it('returns complete sentences and keeps the unfinished rest', () => {
+    expect(splitSentences('Invoice INV-1001 is paid. The next one is due')).toEqual({
+      sentences: ['Invoice INV-1001 is paid.'],
+      rest: 'The next one is due',
+    });
+  });
+
+  it('waits for whitespace after a terminator, which may be a decimal point', () => {
+    expect(splitSentences('The total is 12.').sentences).toEqual([]);
+    expect(splitSentences('The total is 12.50 dollars. Anything else?').sentences).toEqual([
+      'The total is 12.50 dollars.',
+    ]);
+  });
+
+  it('flushes the rest when final', () => {
+    expect(splitSentences('Thanks for calling', { final: true })).toEqual({
+      sentences: ['Thanks for calling'],
+      rest: '',
+    });
+  });
+
+  it('ends sentences at CJK terminators without trailing whitespace', () => {
+    const { sentences, rest } = splitSentences('您好。我可以帮您查询发票。请告诉我发票号码');
+    expect(sentences.join('')).toBe('您好。我可以帮您查询发票。');
+    expect(rest).toBe('请告诉我发票号码');
+  });
+
+  it('handles Japanese full-width punctuation', () => {
+    const { sentences } = splitSentences('請求書は支払済みです！ほかにご質問は？', { final: true });
+    expect(sentences.join('')).toBe('請求書は支払済みです！ほかにご質問は？');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Sentence splitting for streamed LLM output, so TTS can start on the first
+ * sentence while the rest of the reply is still being generated.
+ */
+
+const SENTENCE_END = /[^.!?。！？]*([.!?。！？]+)["')\]」』”’]*(\s+|$)?/g;
+// Chinese and Japanese full stops are never decimals or abbreviations, and no space follows them
+const CJK_TERMINATOR = /[。！？]/;
+// Kana, CJK ideographs and Hangul: one character carries about as much speech as a short word
+const CJK_CHARACTER = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g;
+
+function spokenLength(text: string): number {
+  return text.length + (text.match(CJK_CHARACTER)?.length ?? 0);
+}
+
+/**
+ * Split buffered text into complete sentences and the unfinished remainder.
+ * A sentence only counts as complete once whitespace follows its terminator
+ * (so "3.5" or "e.g." mid-stream is not cut), unless `final` is set or the
+ * terminator is a CJK one (。！？). Sentences shorter than `minLength`, with
+ * CJK characters counted twice, are merged into the next one.
+ */
+export function splitSentences(
+  text: string,
+  { final = false, minLength = 20 }: { final?: boolean; minLength?: number } = {}
+): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  let pending = '';
+  let consumed = 0;
+
+  for (const match of Array.from(text.matchAll(SENTENCE_END))) {
+    const end = (match.index ?? 0) + match[0].length;
+    const complete = CJK_TERMINATOR.test(match[1]) || Boolean(match[2]) || (final && match[2] === '');
+    if (!complete) continue;
+    pending += text.slice(consumed, end);
+    consumed = end;
+    if (spokenLength(pending.trim()) >= minLength) {
+      sentences.push(pending.trim());
+      pending = '';
+    }
+  }
+
+  let rest = pending + text.slice(consumed);
+  if (final && rest.trim()) {
+    sentences.push(rest.trim());
+    rest = '';
+  }
+  return { sentences, rest };
+}
@@ -0,0 +1,73 @@
+/**
+ * Browser-side voice activity detection for hands-free mode. Watches the
+ * microphone level with the Web Audio API and reports when the user starts
+ * and stops talking; the same energy-over-noise-floor idea as vad.ts, live.
+ */
+
+const FRAME_MS = 30;
+// Frames this much louder than the background noise count as speech
+const NOISE_MARGIN_DB = 12;
+const MIN_THRESHOLD_DB = -50;
+const INITIAL_NOISE_FLOOR_DB = -65;
+// Loud frames in a row before speech starts; shorter bursts are clicks and bumps
+const START_FRAMES = 3;
+// Silence that ends an utterance
+const END_SILENCE_MS = 800;
+
+export interface SpeechDetectorHandlers {
+  onSpeechStart: () => void;
+  onSpeechEnd: () => void;
+}
+
+export interface SpeechDetector {
+  stop: () => void;
+}
+
+export function createSpeechDetector(stream: MediaStream, handlers: SpeechDetectorHandlers): SpeechDetector {
+  const audioContext = new AudioContext();
+  const source = audioContext.createMediaStreamSource(stream);
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  let noiseFloor = INITIAL_NOISE_FLOOR_DB;
+  let loudFrames = 0;
+  let speaking = false;
+  let silentMs = 0;
+
+  const timer = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const level = 10 * Math.log10(sum / samples.length + 1e-10);
+    const loud = level >= Math.max(noiseFloor + NOISE_MARGIN_DB, MIN_THRESHOLD_DB);
+    // The floor follows the background: down at once, up slowly and only between words
+    if (level < noiseFloor) noiseFloor = level;
+    else if (!loud) noiseFloor += (level - noiseFloor) * 0.05;
+
+    if (!speaking) {
+      loudFrames = loud ? loudFrames + 1 : 0;
+      if (loudFrames >= START_FRAMES) {
+        speaking = true;
+        silentMs = 0;
+        handlers.onSpeechStart();
+      }
+      return;
+    }
+    silentMs = loud ? 0 : silentMs + FRAME_MS;
+    if (silentMs >= END_SILENCE_MS) {
+      speaking = false;
+      loudFrames = 0;
+      handlers.onSpeechEnd();
+    }
+  }, FRAME_MS);
+
+  return {
+    stop: () => {
+      clearInterval(timer);
+      source.disconnect();
+      void audioContext.close();
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { createLocalAudioStorage } from './local';
+
+/**
+ * Where recorded and synthesized audio is kept. Keys are relative paths such
+ * as `<orgId>/<sessionId>/<assetId>.mp3`.
+ */
+export interface AudioStorage {
+  name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Null when the object does not exist (e.g. already deleted) */
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+const backends = new Map<string, () => AudioStorage>();
+let active: AudioStorage | null = null;
+
+/** S3-compatible and other backends plug in here. */
+export function registerAudioStorage(name: string, factory: () => AudioStorage): void {
+  backends.set(name, factory);
+}
+
+registerAudioStorage('local', createLocalAudioStorage);
+
+/** Backend chosen by `AUDIO_STORAGE`; null when audio persistence is off (the default). */
+export function getAudioStorage(): AudioStorage | null {
+  const name = process.env.AUDIO_STORAGE;
+  if (!name || name === 'none') return null;
+  if (active?.name === name) return active;
+  const factory = backends.get(name);
+  if (!factory) throw new Error(`Unknown audio storage "${name}"`);
+  active = factory();
+  return active;
+}
@@ -0,0 +1,36 @@
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import type { AudioStorage } from './index';
+
+/** Files under `AUDIO_STORAGE_DIR` (default `./data/audio`). */
+export function createLocalAudioStorage(): AudioStorage {
+  const root = path.resolve(process.env.AUDIO_STORAGE_DIR || 'data/audio');
+
+  function resolveKey(key: string): string {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+    return filePath;
+  }
+
+  return {
+    name: 'local',
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+    async get(key) {
+      try {
+        return await readFile(resolveKey(key));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+    async delete(key) {
+      await unlink(resolveKey(key)).catch((err: NodeJS.ErrnoException) => {
+        if (err.code !== 'ENOENT') throw err;
+      });
+    },
+  };
+}
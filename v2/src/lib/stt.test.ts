@@ -0,0 +1,86 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createFakeSttProvider } from './providers/fake';
+import { assessTranscription } from './stt';
+
+let dir: string;
+let wavPath: string;
+
+// The fake provider only reads the file size: 2 s of 16 kHz mono 16-bit WAV
+beforeAll(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'stt-test-'));
+  wavPath = path.join(dir, 'audio.wav');
+  await fs.promises.writeFile(wavPath, Buffer.alloc(44 + 2 * 32_000));
+});
+
+afterAll(async () => {
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function transcribe(text: string, avgLogprob?: number) {
+  vi.stubEnv('FAKE_TRANSCRIPT', text);
+  if (avgLogprob !== undefined) vi.stubEnv('FAKE_STT_AVG_LOGPROB', String(avgLogprob));
+  return createFakeSttProvider().transcribe(wavPath);
+}
+
+describe('assessTranscription', () => {
+  it('trusts a confident transcription', async () => {
+    const details = assessTranscription(await transcribe('book a table for two'));
+
+    expect(details.confidence).toBe(0.905);
+    expect(details.avgLogprob).toBe(-0.1);
+    expect(details.lowConfidence).toBe(false);
+    expect(details.words).toHaveLength(5);
+    expect(details.words.some((w) => w.uncertain)).toBe(false);
+  });
+
+  it('flags a low-confidence transcription and all its words', async () => {
+    const details = assessTranscription(await transcribe('book a table for two', -1.5));
+
+    expect(details.confidence).toBe(0.223);
+    expect(details.lowConfidence).toBe(true);
+    expect(details.words.every((w) => w.uncertain)).toBe(true);
+  });
+
+  it('follows STT_MIN_AVG_LOGPROB', async () => {
+    vi.stubEnv('STT_MIN_AVG_LOGPROB', '-2');
+    expect(assessTranscription(await transcribe('book a table for two', -1.5)).lowConfidence).toBe(false);
+  });
+
+  it('does not ask to confirm a transcription without words', async () => {
+    const details = assessTranscription(await transcribe(' ', -1.5));
+
+    expect(details.words).toEqual([]);
+    expect(details.confidence).toBe(0.223);
+    expect(details.lowConfidence).toBe(false);
+  });
+
+  it('reports no confidence when the provider gives no segments', async () => {
+    const details = assessTranscription({ ...(await transcribe('hello there')), segments: [] });
+
+    expect(details).toMatchObject({ avgLogprob: null, noSpeechProb: null, confidence: null, lowConfidence: false });
+    expect(details.words.map((w) => w.uncertain)).toEqual([false, false]);
+  });
+
+  it('prefers the word probabilities the provider scored', async () => {
+    const transcription = await transcribe('table for two', -1.5);
+    const probabilities = [0.9, 0.3, undefined];
+    const details = assessTranscription({
+      ...transcription,
+      words: transcription.words.map((w, i) => ({ ...w, probability: probabilities[i] })),
+    });
+
+    // Scored words are judged on their own; the unscored one falls back to its doubtful segment
+    expect(details.words.map((w) => [w.word, w.uncertain])).toEqual([
+      ['table', false],
+      ['for', true],
+      ['two', true],
+    ]);
+  });
+});
@@ -1,43 +1,82 @@
-import fs from 'fs';
-import path from 'path';
-import FormData from 'form-data';
-import axios from 'axios';
+import {
+  getSttProvider,
+  type SttOptions,
+  type Transcription,
+  type TranscriptSegment,
+  type TranscriptWord,
+} from './providers';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const WHISPER_URL = 'https://api.openai.com/v1/audio/transcriptions';
+export type { SttOptions, Transcription, TranscriptSegment, TranscriptWord } from './providers';
+
+const DEFAULT_MIN_AVG_LOGPROB = -1;
+const DEFAULT_MAX_NO_SPEECH_PROB = 0.6;
+// Words the provider scores below this are uncertain
+const MIN_WORD_PROBABILITY = 0.5;
+
+/** How sure the STT provider was; stored with the user's message. */
+export interface TranscriptDetails {
+  segments: TranscriptSegment[];
+  words: (TranscriptWord & { uncertain: boolean })[];
+  /** Duration-weighted mean over segments; null when the provider reports no segments */
+  avgLogprob: number | null;
+  noSpeechProb: number | null;
+  /** exp(avgLogprob), 0–1 */
+  confidence: number | null;
+  /** The agent should confirm what was said rather than answer */
+  lowConfidence: boolean;
+}
 
 /**
- * Call Whisper API using axios + form-data (Node https stack).
- * Avoids 421 Misdirected Request that can occur with Node fetch/Undici (HTTP/1.1).
+ * Transcribe a prepared (16 kHz mono WAV) audio file with the configured
+ * STT provider (`STT_PROVIDER`, default OpenAI Whisper).
  */
-export async function transcribeAudio(audioFilePath: string): Promise<string> {
-  const form = new FormData();
-  form.append('file', fs.createReadStream(audioFilePath), {
-    filename: path.basename(audioFilePath) || 'audio.wav',
-    contentType: 'audio/wav',
-  });
-  form.append('model', 'whisper-1');
-  form.append('response_format', 'json');
-
-  const response = await axios.post<{ text?: string }>(WHISPER_URL, form, {
-    headers: {
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-      ...form.getHeaders(),
-    },
-    maxBodyLength: Infinity,
-    maxContentLength: Infinity,
-    timeout: 120_000,
-    validateStatus: () => true,
-  });
+export async function transcribeAudio(
+  audioFilePath: string,
+  options: SttOptions = {}
+): Promise<Transcription> {
+  return getSttProvider().transcribe(audioFilePath, options);
+}
+
+function threshold(name: string, fallback: number): number {
+  const value = process.env[name] ? Number(process.env[name]) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function weightedMean(segments: TranscriptSegment[], value: (s: TranscriptSegment) => number): number {
+  const weights = segments.map((s) => Math.max(s.end - s.start, 0.01));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return segments.reduce((sum, s, i) => sum + value(s) * weights[i], 0) / total;
+}
 
-  if (response.status !== 200) {
-    const msg =
-      response.data && typeof response.data === 'object' && 'error' in response.data
-        ? (response.data as { error?: { message?: string } }).error?.message
-        : response.statusText;
-    throw new Error(msg || `Whisper API error: ${response.status}`);
+/**
+ * Score a transcription. It is low-confidence when its mean log-probability is
+ * below `STT_MIN_AVG_LOGPROB` (default -1) or its no-speech probability above
+ * `STT_MAX_NO_SPEECH_PROB` (default 0.6). Words are uncertain when the
+ * provider scores them low, or else when their segment fails those limits.
+ */
+export function assessTranscription({ text, segments, words }: Transcription): TranscriptDetails {
+  const minLogprob = threshold('STT_MIN_AVG_LOGPROB', DEFAULT_MIN_AVG_LOGPROB);
+  const maxNoSpeech = threshold('STT_MAX_NO_SPEECH_PROB', DEFAULT_MAX_NO_SPEECH_PROB);
+  const doubtful = (s: TranscriptSegment) => s.avgLogprob < minLogprob || s.noSpeechProb > maxNoSpeech;
+
+  const scored = words.map((word) => {
+    if (word.probability !== undefined) return { ...word, uncertain: word.probability < MIN_WORD_PROBABILITY };
+    const segment = segments.find((s) => word.start >= s.start && word.start < s.end) ?? null;
+    return { ...word, uncertain: segment ? doubtful(segment) : false };
+  });
+  if (!segments.length) {
+    return { segments, words: scored, avgLogprob: null, noSpeechProb: null, confidence: null, lowConfidence: false };
   }
 
-  const text = response.data?.text;
-  return typeof text === 'string' ? text : '';
+  const avgLogprob = weightedMean(segments, (s) => s.avgLogprob);
+  const noSpeechProb = weightedMean(segments, (s) => s.noSpeechProb);
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+  return {
+    segments,
+    words: scored,
+    avgLogprob: round(avgLogprob),
+    noSpeechProb: round(noSpeechProb),
+    confidence: round(Math.exp(avgLogprob)),
+    lowConfidence: Boolean(text.trim()) && (avgLogprob < minLogprob || noSpeechProb > maxNoSpeech),
+  };
 }
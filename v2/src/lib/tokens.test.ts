@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { HistoryMessage } from './llm';
+import { countFitting, countMessageTokens, countTokens } from './tokens';
+
+function message(content: string): HistoryMessage {
+  return { role: 'user', content };
+}
+
+describe('countTokens', () => {
+  it('uses the model tokenizer when known', () => {
+    expect(countTokens('hello world', 'gpt-4o-mini')).toBe(2);
+  });
+
+  it('estimates four characters per token for unknown models', () => {
+    expect(countTokens('a'.repeat(10), 'some-local-model')).toBe(3);
+  });
+});
+
+describe('countMessageTokens', () => {
+  it('adds per-message overhead and replayed tool calls', () => {
+    const plain = message('a'.repeat(40));
+    expect(countMessageTokens(plain, 'unknown')).toBe(4 + 10);
+    const withTool: HistoryMessage = {
+      ...plain,
+      toolCalls: [{ id: 'call_1', name: 'lookup_invoice', arguments: {}, durationMs: 5 }],
+    };
+    expect(countMessageTokens(withTool, 'unknown')).toBeGreaterThan(countMessageTokens(plain, 'unknown') + 8);
+  });
+});
+
+describe('countFitting', () => {
+  // 4 overhead + 10 content tokens each with the character estimate
+  const messages = ['first', 'second', 'third'].map((label) => message(label.padEnd(40, '.')));
+
+  it('counts the newest messages that fit the budget', () => {
+    expect(countFitting(messages, 28, 'unknown')).toBe(2);
+    expect(countFitting(messages, 27, 'unknown')).toBe(1);
+  });
+
+  it('fits everything in a large budget and nothing in a tiny one', () => {
+    expect(countFitting(messages, 1000, 'unknown')).toBe(3);
+    expect(countFitting(messages, 5, 'unknown')).toBe(0);
+    expect(countFitting([], 0, 'unknown')).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  getEncoding,
+  getEncodingNameForModel,
+  type Tiktoken,
+  type TiktokenEncoding,
+  type TiktokenModel,
+} from 'js-tiktoken';
+import type { HistoryMessage } from './llm';
+
+// OpenAI chat format: each message costs a few tokens on top of its content
+const TOKENS_PER_MESSAGE = 4;
+// For models without a known tokenizer (other providers, the fake provider)
+const CHARS_PER_TOKEN = 4;
+
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+function encodingFor(model: string): TiktokenEncoding | null {
+  try {
+    return getEncodingNameForModel(model as TiktokenModel);
+  } catch {
+    // Dated or fine-tuned variants of known families (e.g. "ft:gpt-4o-mini:...")
+    const name = model.replace(/^ft:/, '');
+    if (/^(gpt-4o|gpt-4\.1|o\d)/.test(name)) return 'o200k_base';
+    if (/^(gpt-4|gpt-3\.5)/.test(name)) return 'cl100k_base';
+    return null;
+  }
+}
+
+/** Tokens in `text` for `model`; an estimate when its tokenizer is unknown. */
+export function countTokens(text: string, model: string): number {
+  const encoding = encodingFor(model);
+  if (!encoding) return Math.ceil(text.length / CHARS_PER_TOKEN);
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = getEncoding(encoding);
+    encoders.set(encoding, encoder);
+  }
+  return encoder.encode(text).length;
+}
+
+/** A history message as sent to the model, including replayed tool calls. */
+export function countMessageTokens(message: HistoryMessage, model: string): number {
+  let tokens = TOKENS_PER_MESSAGE + countTokens(message.content, model);
+  for (const call of message.toolCalls ?? []) {
+    tokens += 2 * TOKENS_PER_MESSAGE + countTokens(JSON.stringify(call), model);
+  }
+  return tokens;
+}
+
+/** How many of the newest `messages` fit in `budget` tokens. */
+export function countFitting(messages: HistoryMessage[], budget: number, model: string): number {
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    used += countMessageTokens(messages[i], model);
+    if (used > budget) return messages.length - 1 - i;
+  }
+  return messages.length;
+}
@@ -0,0 +1,82 @@
+import { getLedgerBackend } from './ledger';
+import { registerTool, requireString } from './registry';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+registerTool({
+  name: 'lookup_invoice',
+  description:
+    'Look up a customer invoice by its invoice number. Returns amount, amount paid, due date and status.',
+  parameters: {
+    type: 'object',
+    properties: {
+      invoiceNumber: { type: 'string', description: 'Invoice number, e.g. INV-1001' },
+    },
+    required: ['invoiceNumber'],
+  },
+  parseArgs: (raw) => ({ invoiceNumber: requireString(raw, 'invoiceNumber') }),
+  async handler({ invoiceNumber }, { orgId }) {
+    const invoice = await getLedgerBackend().findInvoice(orgId, invoiceNumber);
+    if (!invoice) return { found: false, invoiceNumber };
+    return {
+      found: true,
+      ...invoice,
+      amountDue: invoice.amount - invoice.amountPaid,
+    };
+  },
+});
+
+registerTool({
+  name: 'list_overdue_receivables',
+  description:
+    'List unpaid invoices past their due date for a customer, oldest first, with the total overdue amount.',
+  parameters: {
+    type: 'object',
+    properties: {
+      customerName: { type: 'string', description: 'Customer name or part of it' },
+    },
+    required: ['customerName'],
+  },
+  parseArgs: (raw) => ({ customerName: requireString(raw, 'customerName') }),
+  async handler({ customerName }, { orgId }) {
+    const now = new Date();
+    const invoices = await getLedgerBackend().listOverdueReceivables(orgId, customerName, now);
+    const totals: Record<string, number> = {};
+    for (const invoice of invoices) {
+      totals[invoice.currency] =
+        (totals[invoice.currency] ?? 0) + invoice.amount - invoice.amountPaid;
+    }
+    return {
+      customerName,
+      count: invoices.length,
+      totalOverdueByCurrency: totals,
+      invoices: invoices.map((invoice) => ({
+        invoiceNumber: invoice.invoiceNumber,
+        customerName: invoice.customerName,
+        amountDue: invoice.amount - invoice.amountPaid,
+        currency: invoice.currency,
+        dueDate: invoice.dueDate,
+        daysOverdue: Math.floor((now.getTime() - new Date(invoice.dueDate).getTime()) / DAY_MS),
+      })),
+    };
+  },
+});
+
+registerTool({
+  name: 'get_bill_payment_status',
+  description:
+    'Get the payment status of a vendor bill by bill number: approval state, scheduled or actual payment date and reference.',
+  parameters: {
+    type: 'object',
+    properties: {
+      billNumber: { type: 'string', description: 'Bill number, e.g. BILL-2001' },
+    },
+    required: ['billNumber'],
+  },
+  parseArgs: (raw) => ({ billNumber: requireString(raw, 'billNumber') }),
+  async handler({ billNumber }, { orgId }) {
+    const bill = await getLedgerBackend().findBill(orgId, billNumber);
+    if (!bill) return { found: false, billNumber };
+    return { found: true, ...bill };
+  },
+});
@@ -0,0 +1,19 @@
+import './finance';
+
+export {
+  executeToolCall,
+  getToolSpecs,
+  registerTool,
+  requireString,
+  toolResultContent,
+  type ToolCallRecord,
+  type ToolContext,
+  type ToolDefinition,
+} from './registry';
+export {
+  getLedgerBackend,
+  registerLedgerBackend,
+  type Bill,
+  type Invoice,
+  type LedgerBackend,
+} from './ledger';
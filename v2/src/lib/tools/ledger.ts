@@ -0,0 +1,57 @@
+import { createMongoLedgerBackend } from './mongo-ledger';
+
+export type InvoiceStatus = 'open' | 'partially_paid' | 'paid' | 'void';
+export type BillStatus = 'pending_approval' | 'approved' | 'scheduled' | 'paid' | 'rejected';
+
+export interface Invoice {
+  invoiceNumber: string;
+  customerName: string;
+  amount: number;
+  amountPaid: number;
+  currency: string;
+  issueDate: Date;
+  dueDate: Date;
+  status: InvoiceStatus;
+}
+
+export interface Bill {
+  billNumber: string;
+  vendorName: string;
+  amount: number;
+  currency: string;
+  dueDate: Date;
+  status: BillStatus;
+  paymentDate?: Date;
+  paymentReference?: string;
+}
+
+/**
+ * Source of finance data for the agent's tools. The MongoDB mock ledger is
+ * the default; the Peakflo API plugs in with registerLedgerBackend. Every
+ * lookup is scoped to the calling organization.
+ */
+export interface LedgerBackend {
+  name: string;
+  findInvoice(orgId: string, invoiceNumber: string): Promise<Invoice | null>;
+  listOverdueReceivables(orgId: string, customerName: string, asOf: Date): Promise<Invoice[]>;
+  findBill(orgId: string, billNumber: string): Promise<Bill | null>;
+}
+
+const backends = new Map<string, () => LedgerBackend>();
+let active: LedgerBackend | null = null;
+
+export function registerLedgerBackend(name: string, factory: () => LedgerBackend): void {
+  backends.set(name, factory);
+}
+
+registerLedgerBackend('mongo', createMongoLedgerBackend);
+
+/** Backend chosen by `LEDGER_BACKEND` (default `mongo`). */
+export function getLedgerBackend(): LedgerBackend {
+  if (active) return active;
+  const name = process.env.LEDGER_BACKEND || 'mongo';
+  const factory = backends.get(name);
+  if (!factory) throw new Error(`Unknown ledger backend "${name}"`);
+  active = factory();
+  return active;
+}
@@ -0,0 +1,48 @@
+import { getDb } from '../db';
+import type { Bill, Invoice, LedgerBackend } from './ledger';
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Mock ledger stored in the `ledger_invoices` and `ledger_bills` collections
+ * (seed with `npm run seed:ledger`), keyed by `orgId`. Lookups are
+ * case-insensitive.
+ */
+export function createMongoLedgerBackend(): LedgerBackend {
+  return {
+    name: 'mongo',
+    async findInvoice(orgId, invoiceNumber) {
+      const database = await getDb();
+      return database.collection<Invoice>('ledger_invoices').findOne(
+        { orgId, invoiceNumber: { $regex: `^${escapeRegex(invoiceNumber)}$`, $options: 'i' } },
+        { projection: { _id: 0 } }
+      );
+    },
+    async listOverdueReceivables(orgId, customerName, asOf) {
+      const database = await getDb();
+      return database
+        .collection<Invoice>('ledger_invoices')
+        .find(
+          {
+            orgId,
+            customerName: { $regex: escapeRegex(customerName), $options: 'i' },
+            status: { $in: ['open', 'partially_paid'] },
+            dueDate: { $lt: asOf },
+          },
+          { projection: { _id: 0 } }
+        )
+        .sort({ dueDate: 1 })
+        .limit(50)
+        .toArray();
+    },
+    async findBill(orgId, billNumber) {
+      const database = await getDb();
+      return database.collection<Bill>('ledger_bills').findOne(
+        { orgId, billNumber: { $regex: `^${escapeRegex(billNumber)}$`, $options: 'i' } },
+        { projection: { _id: 0 } }
+      );
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import type { ToolCall, ToolSpec } from '../providers';
+
+export interface ToolContext {
+  userId: string;
+  /** Organization the turn runs in; tools only see this org's data */
+  orgId: string;
+  sessionId: string;
+}
+
+export interface ToolDefinition<TArgs> {
+  name: string;
+  description: string;
+  /** JSON Schema for the arguments, sent to the model */
+  parameters: Record<string, unknown>;
+  /** Validate the model's decoded arguments; throw to reject them */
+  parseArgs: (raw: Record<string, unknown>) => TArgs;
+  handler: (args: TArgs, context: ToolContext) => Promise<unknown>;
+}
+
+/** What the agent looked up during a turn; stored on the assistant message. */
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+const tools = new Map<string, ToolDefinition<unknown>>();
+
+export function registerTool<TArgs>(tool: ToolDefinition<TArgs>): void {
+  // Each tool's parseArgs produces exactly what its handler expects
+  tools.set(tool.name, tool as unknown as ToolDefinition<unknown>);
+}
+
+export function getToolSpecs(): ToolSpec[] {
+  return Array.from(tools.values()).map(({ name, description, parameters }) => ({
+    name,
+    description,
+    parameters,
+  }));
+}
+
+export function requireString(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`"${key}" must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+/**
+ * Run one tool call from the model. Failures are captured on the record
+ * (and reported back to the model) rather than thrown, so one bad lookup
+ * does not fail the whole turn.
+ */
+export async function executeToolCall(
+  call: ToolCall,
+  context: ToolContext
+): Promise<ToolCallRecord> {
+  const startedAt = Date.now();
+  let args: Record<string, unknown> = {};
+  try {
+    args = call.arguments ? JSON.parse(call.arguments) : {};
+    const tool = tools.get(call.name);
+    if (!tool) throw new Error(`Unknown tool: ${call.name}`);
+    const result = await tool.handler(tool.parseArgs(args), context);
+    return { id: call.id, name: call.name, arguments: args, result, durationMs: Date.now() - startedAt };
+  } catch (err) {
+    return {
+      id: call.id,
+      name: call.name,
+      arguments: args,
+      error: err instanceof Error ? err.message : 'Tool call failed',
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+/** The tool message content the model sees for a completed call. */
+export function toolResultContent(record: ToolCallRecord): string {
+  return JSON.stringify(record.error ? { error: record.error } : record.result ?? null);
+}
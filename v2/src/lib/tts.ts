@@ -1,16 +1,186 @@
-import OpenAI from 'openai';
+import {
+  getTtsProvider,
+  type SpeechAudio,
+  type SpeechFormat,
+  type TtsOptions,
+  type TtsProvider,
+} from './providers';
+import { OPUS_SAMPLE_RATES, SPEECH_CONTENT_TYPES, transcodeAudio } from './audio';
+import { splitSentences } from './sentences';
+import { isLanguageCode } from './languages';
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+export type { SpeechAudio, SpeechFormat, TtsOptions } from './providers';
 
-export async function synthesizeSpeech(text: string): Promise<Buffer> {
-  if (text.length > 4096) {
-    throw new Error('Text exceeds 4096 character limit');
+export const SPEECH_FORMATS: readonly SpeechFormat[] = ['mp3', 'opus', 'aac', 'flac', 'wav', 'pcm', 'mulaw'];
+export const SPEECH_SAMPLE_RATES = [8000, 16000, 22050, 24000, 44100, 48000];
+// μ-law is for telephony, which is 8 kHz
+const MULAW_SAMPLE_RATE = 8000;
+// Formats whose clips can be joined by appending bytes
+const APPENDABLE_FORMATS: readonly SpeechFormat[] = ['mp3', 'pcm', 'mulaw'];
+const MAX_VOICE_LENGTH = 50;
+const MAX_LANGUAGE_VOICES = 50;
+
+export function validateTtsOptions(
+  value: unknown,
+  prefix = 'tts.'
+): { valid: true; options: TtsOptions } | { valid: false; error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { valid: false, error: 'tts must be an object' };
+  }
+  const { voice, voices, model, hd, speed, format, sampleRate } = value as Record<string, unknown>;
+  const options: TtsOptions = {};
+  if (voice !== undefined) {
+    if (typeof voice !== 'string' || !voice || voice.length > MAX_VOICE_LENGTH) {
+      return { valid: false, error: `${prefix}voice must be a voice name` };
+    }
+    options.voice = voice;
+  }
+  if (voices !== undefined) {
+    const entries = voices && typeof voices === 'object' && !Array.isArray(voices) ? Object.entries(voices) : null;
+    if (
+      !entries ||
+      entries.length > MAX_LANGUAGE_VOICES ||
+      !entries.every(
+        ([language, name]) =>
+          isLanguageCode(language) && typeof name === 'string' && name && name.length <= MAX_VOICE_LENGTH
+      )
+    ) {
+      return {
+        valid: false,
+        error: `${prefix}voices must map ISO 639-1 language codes to voice names, e.g. { "vi": "nova" }`,
+      };
+    }
+    options.voices = Object.fromEntries(entries) as Record<string, string>;
+  }
+  if (model !== undefined) {
+    if (typeof model !== 'string' || !model || model.length > 100) {
+      return { valid: false, error: `${prefix}model must be a model name` };
+    }
+    options.model = model;
+  }
+  if (hd !== undefined) {
+    if (typeof hd !== 'boolean') return { valid: false, error: `${prefix}hd must be a boolean` };
+    options.hd = hd;
+  }
+  if (speed !== undefined) {
+    if (typeof speed !== 'number' || speed < 0.25 || speed > 4) {
+      return { valid: false, error: `${prefix}speed must be a number between 0.25 and 4` };
+    }
+    options.speed = speed;
+  }
+  if (format !== undefined) {
+    if (typeof format !== 'string' || !SPEECH_FORMATS.includes(format as SpeechFormat)) {
+      return { valid: false, error: `${prefix}format must be one of ${SPEECH_FORMATS.join(', ')}` };
+    }
+    options.format = format as SpeechFormat;
+  }
+  if (sampleRate !== undefined) {
+    if (typeof sampleRate !== 'number' || !SPEECH_SAMPLE_RATES.includes(sampleRate)) {
+      return {
+        valid: false,
+        error: `${prefix}sampleRate must be one of ${SPEECH_SAMPLE_RATES.join(', ')}`,
+      };
+    }
+    options.sampleRate = sampleRate;
+  }
+  if (options.format === 'opus' && options.sampleRate && !OPUS_SAMPLE_RATES.includes(options.sampleRate)) {
+    return {
+      valid: false,
+      error: `${prefix}sampleRate for opus must be one of ${OPUS_SAMPLE_RATES.join(', ')}`,
+    };
+  }
+  return { valid: true, options };
+}
+
+/**
+ * Per-request TTS options from query parameters: `format`, `sampleRate`,
+ * `voice`, `speed` and `hd=true`. They override the agent profile's.
+ */
+export function ttsOptionsFromQuery(
+  params: URLSearchParams
+): { valid: true; options: TtsOptions } | { valid: false; error: string } {
+  const value: Record<string, unknown> = {};
+  for (const key of ['format', 'voice']) {
+    const param = params.get(key);
+    if (param !== null) value[key] = param;
   }
-  const response = await openai.audio.speech.create({
-    model: 'tts-1',
-    voice: 'alloy',
-    input: text,
-  });
-  const arrayBuffer = await response.arrayBuffer();
-  return Buffer.from(arrayBuffer);
+  for (const key of ['sampleRate', 'speed']) {
+    const param = params.get(key);
+    if (param !== null) value[key] = param.trim() ? Number(param) : NaN;
+  }
+  const hd = params.get('hd');
+  if (hd !== null) value.hd = hd === 'true' ? true : hd === 'false' ? false : hd;
+  return validateTtsOptions(value, '');
+}
+
+/** Cut text into pieces of at most `maxLength` characters, at sentence (or else word) boundaries. */
+export function splitForSpeech(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) return [text];
+  const pieces: string[] = [];
+  let current = '';
+  const add = (part: string) => {
+    if (current && current.length + 1 + part.length > maxLength) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${part}` : part;
+  };
+  for (const sentence of splitSentences(text, { final: true, minLength: 1 }).sentences) {
+    let rest = sentence;
+    while (rest.length > maxLength) {
+      const space = rest.lastIndexOf(' ', maxLength);
+      const cut = space > 0 ? space : maxLength;
+      add(rest.slice(0, cut));
+      rest = rest.slice(cut).trimStart();
+    }
+    if (rest) add(rest);
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+async function synthesizePieces(
+  provider: TtsProvider,
+  pieces: string[],
+  options: TtsOptions
+): Promise<SpeechAudio[]> {
+  return Promise.all(pieces.map((piece) => provider.synthesize(piece, options)));
+}
+
+/**
+ * Voice, model and speed default to the provider's own (OpenAI: `alloy`,
+ * `tts-1`, 1.0, mp3); `voices[language]` wins over `voice`. Text longer than
+ * the provider accepts is synthesized sentence by sentence and joined.
+ * Formats or sample rates the provider cannot produce are transcoded with
+ * ffmpeg.
+ */
+export async function synthesizeSpeech(text: string, requested: TtsOptions = {}): Promise<SpeechAudio> {
+  const { voices, ...options } = requested;
+  const languageVoice = options.language ? voices?.[options.language] : undefined;
+  if (languageVoice) options.voice = languageVoice;
+  const provider = getTtsProvider();
+  const format = options.format ?? provider.formats[0];
+  const sampleRate = options.sampleRate ?? (format === 'mulaw' ? MULAW_SAMPLE_RATE : undefined);
+  const pieces = splitForSpeech(text, provider.maxTextLength);
+
+  if (
+    provider.formats.includes(format) &&
+    !sampleRate &&
+    (pieces.length === 1 || APPENDABLE_FORMATS.includes(format))
+  ) {
+    const clips = await synthesizePieces(provider, pieces, { ...options, format });
+    return {
+      audio: Buffer.concat(clips.map((clip) => clip.audio)),
+      contentType: clips[0].contentType,
+      model: clips[0].model,
+    };
+  }
+
+  const source: SpeechFormat = provider.formats.includes('wav') ? 'wav' : provider.formats[0];
+  const clips = await synthesizePieces(provider, pieces, { ...options, format: source });
+  const audio = await transcodeAudio(
+    clips.map((clip) => clip.audio),
+    { format, sampleRate }
+  );
+  return { audio, contentType: SPEECH_CONTENT_TYPES[format], model: clips[0].model };
 }
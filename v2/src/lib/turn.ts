@@ -0,0 +1,381 @@
+import type { AuthUser } from './auth';
+import {
+  getSessionLanguage,
+  getSessionProfileId,
+  saveMessage,
+  setSessionTitleIfMissing,
+  touchSession,
+} from './conversation';
+import { loadContext, updateRollingSummary } from './context';
+import {
+  generateResponse,
+  generateTitle,
+  streamResponse,
+  type AgentConfig,
+  type ConversationContext,
+  type LlmSpend,
+  type MessageInterruption,
+} from './llm';
+import { synthesizeSpeech, type SpeechAudio, type TtsOptions } from './tts';
+import { joinAudio } from './audio';
+import { splitSentences } from './sentences';
+import type { TranscriptDetails } from './stt';
+import { resolveAgent, type ResolvedAgent } from './agent-profiles';
+import { retryWithBackoff } from './errors';
+import { recordLlmTokens } from './rate-limit';
+import {
+  recordBackgroundUsage,
+  recordFailedTurnUsage,
+  recordTurnUsage,
+  type TurnUsage,
+  type UsageChannel,
+} from './usage';
+import type { ToolCallRecord, ToolContext } from './tools';
+import { saveAudioAsset } from './audio-assets';
+import { toCitation, type Citation } from './knowledge';
+import { emitWebhookEvent } from './webhooks';
+
+export interface TurnInput {
+  user: AuthUser;
+  sessionId: string;
+  /** What the user said (a transcript) or typed */
+  userText: string;
+  channel: UsageChannel;
+  /** Whether to synthesize the reply */
+  speak: boolean;
+  /** Overrides the agent profile's TTS options (format, voice, ...) */
+  tts?: TtsOptions;
+  /** Language the user spoke (locked or detected); the session's lock when unset */
+  language?: string | null;
+  /** Resolved by the caller when it was already needed (e.g. for STT language) */
+  agent?: ResolvedAgent;
+  /** Timings and confidence of a spoken `userText`; low confidence makes the agent confirm it */
+  transcript?: TranscriptDetails;
+  /** The user's recording, kept when audio persistence is on */
+  inputAudio?: { data: Buffer; contentType: string };
+  audioSeconds?: number;
+  sttSeconds?: number;
+  /** Called once the turn's messages are stored, before usage is recorded */
+  onSaved?: (ids: { userMessageId: string; assistantMessageId: string }) => Promise<void>;
+  /** Sends the reply while it is generated, spoken sentence by sentence (WebSocket) */
+  stream?: TurnStream;
+}
+
+/** Where a streamed turn sends its reply as it is produced. */
+export interface TurnStream {
+  onDelta(text: string): void;
+  onToolCall(call: ToolCallRecord): void;
+  /** One sentence of reply audio; sentences are synthesized in parallel but delivered in order */
+  onAudio(chunk: { seq: number; text: string; speech: SpeechAudio }): void;
+  /**
+   * Set once the user talks over the reply: nothing more is sent or
+   * synthesized, and the reply is still generated and stored in full
+   */
+  interruption(): MessageInterruption | null;
+}
+
+export interface TurnResult {
+  userMessageId: string;
+  assistantMessageId: string;
+  text: string;
+  toolCalls: ToolCallRecord[];
+  /** Knowledge-base excerpts given to the model for this reply */
+  citations: Citation[];
+  speech: SpeechAudio | null;
+  /** ISO 639-1 code of the turn's language, when known */
+  language: string | null;
+  /** The reply asks the user to confirm a low-confidence transcript */
+  clarification: boolean;
+  /** Stored with the reply when the user talked over a streamed turn */
+  interruption: MessageInterruption | null;
+  /** Stored reply audio, when audio persistence is on */
+  outputAssetId: string | null;
+  /** Milliseconds spent in each stage */
+  timings: { contextMs: number; llmMs: number; ttsMs: number };
+}
+
+/** Distinct words speech recognition was unsure of, in order. */
+export function uncertainWords(transcript: TranscriptDetails | undefined): string[] {
+  return Array.from(new Set((transcript?.words ?? []).filter((w) => w.uncertain).map((w) => w.word)));
+}
+
+/** What a turn has paid for so far; filled in as each step finishes. */
+interface TurnSpend {
+  llm: LlmSpend;
+  tts: { model: string; characters: number };
+}
+
+/** The reply and its audio, with the milliseconds spent generating and speaking it. */
+interface Reply {
+  text: string;
+  toolCalls: ToolCallRecord[];
+  speech: SpeechAudio | null;
+  llmMs: number;
+  ttsMs: number;
+}
+
+function turnUsage(input: TurnInput, spent: TurnSpend): TurnUsage {
+  return {
+    sessionId: input.sessionId,
+    channel: input.channel,
+    audioSeconds: input.audioSeconds ?? 0,
+    sttSeconds: input.sttSeconds ?? 0,
+    llm: spent.llm,
+    tts: spent.tts,
+  };
+}
+
+/**
+ * Everything after the user's words are known, shared by voice and text
+ * turns: context, LLM (with tools), optional TTS, persistence and usage.
+ * Rate limits are the caller's job, except for LLM tokens, counted here.
+ * A turn that fails still records the STT, LLM and TTS work it paid for.
+ */
+export async function completeTurn(input: TurnInput): Promise<TurnResult> {
+  const { user } = input;
+  const spent: TurnSpend = {
+    llm: { provider: '', model: '', promptTokens: 0, completionTokens: 0 },
+    tts: { model: '', characters: 0 },
+  };
+  let answer: { result: TurnResult; agent: ResolvedAgent; firstExchange: boolean };
+  try {
+    answer = await answerTurn(input, spent);
+  } catch (err) {
+    await recordFailedTurnUsage(user, turnUsage(input, spent)).catch((usageErr) =>
+      console.error(`[${input.channel}] Usage not recorded:`, usageErr)
+    );
+    throw err;
+  }
+  const { result, agent, firstExchange } = answer;
+  await recordTurnUsage(user, turnUsage(input, spent)).catch((err) =>
+    console.error(`[${input.channel}] Usage not recorded:`, err)
+  );
+  if (firstExchange) {
+    void autoTitleSession(user, input.sessionId, input.userText, result.text, agent.llm);
+  }
+  void updateRollingSummary(user, input.sessionId, agent.llm);
+  emitTurnCompleted(user, {
+    sessionId: input.sessionId,
+    channel: input.channel,
+    userMessageId: result.userMessageId,
+    messageId: result.assistantMessageId,
+    userText: input.userText,
+    reply: result.text,
+    language: result.language,
+  });
+  return result;
+}
+
+async function answerTurn(
+  input: TurnInput,
+  spent: TurnSpend
+): Promise<{ result: TurnResult; agent: ResolvedAgent; firstExchange: boolean }> {
+  const { user, sessionId, userText } = input;
+  const agent =
+    input.agent ?? (await resolveAgent(user.orgId, await getSessionProfileId(sessionId)));
+
+  const language = input.language ?? (await getSessionLanguage(sessionId));
+
+  const started = Date.now();
+  const context = await loadContext(user, sessionId, userText, agent.llm, language);
+  const clarification = Boolean(input.transcript?.lowConfidence);
+  if (clarification) context.uncertainWords = uncertainWords(input.transcript);
+  const contextMs = Date.now() - started;
+  const toolContext = { userId: user.id, orgId: user.orgId, sessionId };
+  const ttsOptions = { ...agent.tts, ...input.tts, ...(language ? { language } : {}) };
+  let reply: Reply;
+  try {
+    reply = input.stream
+      ? await streamReply(input, input.stream, context, toolContext, agent, ttsOptions, spent)
+      : await generateReply(input, context, toolContext, agent, ttsOptions, spent);
+  } finally {
+    // Includes model calls from failed attempts
+    await recordLlmTokens(user, spent.llm.promptTokens + spent.llm.completionTokens);
+  }
+  const { text, toolCalls, speech, llmMs, ttsMs } = reply;
+
+  const [inputAssetId, outputAssetId] = await Promise.all([
+    input.inputAudio ? saveAudioAsset(user, sessionId, 'input', input.inputAudio) : null,
+    speech ? saveAudioAsset(user, sessionId, 'output', { data: speech.audio, contentType: speech.contentType }) : null,
+  ]);
+  const userMessageId = await saveMessage(sessionId, 'user', userText, {
+    audioAssetId: inputAssetId,
+    language,
+    transcript: input.transcript,
+  });
+  const citations = context.knowledge.map(toCitation);
+  const interruption = input.stream?.interruption() ?? null;
+  const assistantMessageId = await saveMessage(sessionId, 'assistant', text, {
+    toolCalls,
+    audioAssetId: outputAssetId,
+    citations,
+    language,
+    clarification,
+    interruption,
+  });
+  // Text turns and queued jobs do not go through getOrCreateSession
+  await touchSession(sessionId);
+  await input.onSaved?.({ userMessageId, assistantMessageId });
+
+  return {
+    result: {
+      userMessageId,
+      assistantMessageId,
+      text,
+      toolCalls,
+      citations,
+      speech,
+      language,
+      clarification,
+      interruption,
+      outputAssetId,
+      timings: { contextMs, llmMs, ttsMs },
+    },
+    agent,
+    firstExchange: !context.messages.length && !context.summary,
+  };
+}
+
+async function generateReply(
+  input: TurnInput,
+  context: ConversationContext,
+  toolContext: ToolContext,
+  agent: ResolvedAgent,
+  ttsOptions: TtsOptions,
+  spent: TurnSpend
+): Promise<Reply> {
+  let started = Date.now();
+  const { text, toolCalls } = await retryWithBackoff(
+    () => generateResponse(input.userText, context, toolContext, agent.llm, spent.llm),
+    2
+  );
+  const llmMs = Date.now() - started;
+  console.log(`[${input.channel}] LLM done`);
+
+  let speech: SpeechAudio | null = null;
+  started = Date.now();
+  if (input.speak) {
+    speech = await retryWithBackoff(() => synthesizeSpeech(text, ttsOptions), 2);
+    spent.tts = { model: speech.model, characters: text.length };
+    console.log(`[${input.channel}] TTS done`);
+  }
+  return { text, toolCalls, speech, llmMs, ttsMs: Date.now() - started };
+}
+
+/**
+ * Send the reply to `stream` as the model produces it and speak it sentence
+ * by sentence, so the first audio plays before the reply is complete.
+ */
+async function streamReply(
+  input: TurnInput,
+  stream: TurnStream,
+  context: ConversationContext,
+  toolContext: ToolContext,
+  agent: ResolvedAgent,
+  ttsOptions: TtsOptions,
+  spent: TurnSpend
+): Promise<Reply> {
+  const started = Date.now();
+  let text = '';
+  let buffered = '';
+  let seq = 0;
+  const toolCalls: ToolCallRecord[] = [];
+  const parts: SpeechAudio[] = [];
+  let delivery: Promise<void> = Promise.resolve();
+
+  const speak = (sentence: string) => {
+    // Nothing more is synthesized once the user has talked over the reply
+    if (!input.speak || stream.interruption()) return;
+    const chunkSeq = seq++;
+    const speech = retryWithBackoff(() => synthesizeSpeech(sentence, ttsOptions), 2);
+    spent.tts.characters += sentence.length;
+    delivery = delivery.then(async () => {
+      const part = await speech;
+      spent.tts.model = part.model;
+      parts.push(part);
+      if (!stream.interruption()) stream.onAudio({ seq: chunkSeq, text: sentence, speech: part });
+    });
+    // Surface TTS failures through `delivery`, not as unhandled rejections
+    speech.catch(() => {});
+  };
+
+  for await (const event of streamResponse(input.userText, context, toolContext, agent.llm, spent.llm)) {
+    if (event.type === 'tool') {
+      toolCalls.push(event.call);
+      stream.onToolCall(event.call);
+      continue;
+    }
+    // Tokens are counted through spent.llm
+    if (event.type === 'usage') continue;
+    text += event.text;
+    buffered += event.text;
+    if (!stream.interruption()) stream.onDelta(event.text);
+    const { sentences, rest } = splitSentences(buffered);
+    buffered = rest;
+    sentences.forEach(speak);
+  }
+  splitSentences(buffered, { final: true }).sentences.forEach(speak);
+  const llmMs = Date.now() - started;
+  console.log(`[${input.channel}] LLM done`);
+
+  await delivery;
+  let speech: SpeechAudio | null = null;
+  if (parts.length) {
+    const { contentType, model } = parts[0];
+    speech = { audio: await joinAudio(parts.map((p) => p.audio), contentType), contentType, model };
+    console.log(`[${input.channel}] TTS done`);
+  }
+  return { text, toolCalls, speech, llmMs, ttsMs: Date.now() - started - llmMs };
+}
+
+/** `turn.completed` webhook for a turn answered on any channel. */
+export function emitTurnCompleted(
+  user: AuthUser,
+  turn: {
+    sessionId: string;
+    channel: UsageChannel;
+    userMessageId: string;
+    messageId: string;
+    userText: string;
+    reply: string;
+    language: string | null;
+  }
+): void {
+  emitWebhookEvent(user.orgId, 'turn.completed', { userId: user.id, ...turn });
+}
+
+/** `turn.failed` webhook for a turn that errored after it was accepted. */
+export function emitTurnFailed(
+  user: AuthUser,
+  sessionId: string | null,
+  channel: UsageChannel,
+  error: { code: string; message: string }
+): void {
+  emitWebhookEvent(user.orgId, 'turn.failed', { userId: user.id, sessionId, channel, error });
+}
+
+/**
+ * Title a session from its first exchange. Runs in the background: the turn
+ * has already been answered, and a user-set title is never overwritten.
+ */
+export async function autoTitleSession(
+  user: AuthUser,
+  sessionId: string,
+  userText: string,
+  replyText: string,
+  agent: AgentConfig
+): Promise<void> {
+  try {
+    const result = await generateTitle(userText, replyText, agent);
+    const { promptTokens, completionTokens } = result.usage;
+    await recordLlmTokens(user, promptTokens + completionTokens);
+    await recordBackgroundUsage(user, {
+      sessionId,
+      task: 'session_title',
+      llm: { provider: result.provider, model: result.model, promptTokens, completionTokens },
+    });
+    if (result.title) await setSessionTitleIfMissing(sessionId, result.title);
+  } catch (err) {
+    console.error('[session] Title not generated:', err instanceof Error ? err.message : err);
+  }
+}
@@ -0,0 +1,240 @@
+import { ObjectId } from 'mongodb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuthUser } from './auth';
+import { getUsageSummary, recordBackgroundUsage, recordFailedTurnUsage, recordTurnUsage } from './usage';
+
+type Doc = Record<string, unknown>;
+
+const usage = vi.hoisted(() => [] as Record<string, unknown>[]);
+
+// The `usage` collection in memory, with just the aggregation operators usage.ts uses
+vi.mock('./db', () => ({
+  getDb: async () => ({
+    collection: () => ({
+      insertOne: async (doc: Record<string, unknown>) => {
+        usage.push(doc);
+      },
+      aggregate: (pipeline: Record<string, unknown>[]) => ({ toArray: async () => aggregate(usage, pipeline) }),
+    }),
+  }),
+}));
+
+vi.mock('./providers', () => ({
+  getSttProvider: () => ({ name: 'openai' }),
+  getLlmProvider: () => ({ name: 'openai' }),
+  getTtsProvider: () => ({ name: 'openai' }),
+}));
+
+function evaluate(expr: unknown, doc: Doc): unknown {
+  if (typeof expr === 'string' && expr.startsWith('$')) {
+    return expr
+      .slice(1)
+      .split('.')
+      .reduce<unknown>((value, key) => (value as Doc | undefined)?.[key], doc);
+  }
+  if (!expr || typeof expr !== 'object' || Array.isArray(expr)) return expr;
+  const [[op, arg]] = Object.entries(expr);
+  const args = Array.isArray(arg) ? arg.map((a) => evaluate(a, doc)) : [];
+  switch (op) {
+    case '$cond':
+      return args[0] ? args[1] : args[2];
+    case '$eq':
+      return args[0] === args[1];
+    case '$ne':
+      return args[0] !== args[1];
+    case '$concat':
+      return args.join('');
+    case '$toString':
+      return String(evaluate(arg, doc));
+    case '$dateToString':
+      return (evaluate((arg as Doc).date, doc) as Date).toISOString().slice(0, 10);
+    default:
+      throw new Error(`Unsupported operator ${op}`);
+  }
+}
+
+function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    if (condition && typeof condition === 'object' && !Array.isArray(condition)) {
+      const { $gte, $lt } = condition as { $gte: Date; $lt: Date };
+      const value = doc[field] as Date;
+      return value >= $gte && value < $lt;
+    }
+    return doc[field] === condition;
+  });
+}
+
+function aggregate(docs: Doc[], pipeline: Doc[]): Doc[] {
+  return pipeline.reduce((rows, stage) => {
+    const [[name, spec]] = Object.entries(stage);
+    if (name === '$match') return rows.filter((row) => matches(row, spec as Doc));
+    if (name === '$unwind') {
+      const field = (spec as string).slice(1);
+      return rows.flatMap((row) => (row[field] as unknown[]).map((item) => ({ ...row, [field]: item })));
+    }
+    if (name === '$sort') return [...rows].sort((a, b) => String(a._id).localeCompare(String(b._id)));
+    if (name !== '$group') throw new Error(`Unsupported stage ${name}`);
+    const { _id, ...sums } = spec as Doc;
+    const groups = new Map<unknown, Doc>();
+    for (const row of rows) {
+      const key = evaluate(_id, row);
+      const group = groups.get(key) ?? { _id: key };
+      for (const [field, sum] of Object.entries(sums)) {
+        group[field] = ((group[field] as number) ?? 0) + Number(evaluate((sum as Doc).$sum, row) ?? 0);
+      }
+      groups.set(key, group);
+    }
+    return Array.from(groups.values());
+  }, docs);
+}
+
+const user: AuthUser = {
+  id: 'user-1',
+  email: 'ana@example.com',
+  keyId: 'key-1',
+  scopes: ['*'],
+  orgId: 'org-1',
+  orgRole: 'owner',
+};
+const sessionId = new ObjectId().toString();
+
+// 60 s of STT (0.006), 1000 + 500 gpt-4o-mini tokens (0.00045) and 1000 tts-1 characters (0.015)
+const turn = {
+  sessionId,
+  channel: 'voice' as const,
+  audioSeconds: 60,
+  sttSeconds: 60,
+  llm: { provider: 'openai', model: 'gpt-4o-mini', promptTokens: 1000, completionTokens: 500 },
+  tts: { model: 'tts-1', characters: 1000 },
+};
+
+async function recordTurnAt(at: string, owner: AuthUser = user): Promise<void> {
+  vi.setSystemTime(new Date(at));
+  await recordTurnUsage(owner, turn);
+}
+
+const march = { from: new Date('2026-03-01T00:00:00Z'), to: new Date('2026-04-01T00:00:00Z') };
+
+beforeEach(() => {
+  usage.length = 0;
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('recordTurnUsage', () => {
+  it('prices the STT, LLM and TTS work of a turn', async () => {
+    await recordTurnAt('2026-03-02T10:00:00Z');
+
+    expect(usage).toHaveLength(1);
+    expect(usage[0]).toMatchObject({
+      userId: 'user-1',
+      orgId: 'org-1',
+      keyId: 'key-1',
+      channel: 'voice',
+      promptTokens: 1000,
+      completionTokens: 500,
+      ttsCharacters: 1000,
+      components: [
+        { type: 'stt', provider: 'openai', cost: 0.006 },
+        { type: 'llm', provider: 'openai', model: 'gpt-4o-mini', cost: 0.00045 },
+        { type: 'tts', provider: 'openai', model: 'tts-1', cost: 0.015 },
+      ],
+    });
+    expect(usage[0].estimatedCost).toBeCloseTo(0.02145, 10);
+    expect(usage[0]).not.toHaveProperty('failed');
+  });
+});
+
+describe('recordFailedTurnUsage', () => {
+  it('records what a failed turn had already spent', async () => {
+    await recordFailedTurnUsage(user, { sessionId, channel: 'stream', audioSeconds: 30, sttSeconds: 30 });
+
+    expect(usage).toHaveLength(1);
+    expect(usage[0]).toMatchObject({
+      channel: 'stream',
+      failed: true,
+      sttSeconds: 30,
+      promptTokens: 0,
+      completionTokens: 0,
+      ttsCharacters: 0,
+      estimatedCost: 0.003,
+    });
+  });
+
+  it('records nothing when nothing was spent', async () => {
+    await recordFailedTurnUsage(user, { sessionId, channel: 'text' });
+    expect(usage).toHaveLength(0);
+  });
+});
+
+describe('getUsageSummary', () => {
+  it('groups turns by UTC day within the period', async () => {
+    await recordTurnAt('2026-02-28T23:59:59Z');
+    await recordTurnAt('2026-03-02T10:00:00Z');
+    await recordTurnAt('2026-03-02T23:30:00Z');
+    await recordTurnAt('2026-03-05T08:00:00Z');
+    await recordTurnAt('2026-04-01T00:00:00Z');
+
+    const summary = await getUsageSummary({ userId: 'user-1' }, { ...march, groupBy: 'day' });
+
+    expect(summary.groups.map(({ key, turns }) => ({ key, turns }))).toEqual([
+      { key: '2026-03-02', turns: 2 },
+      { key: '2026-03-05', turns: 1 },
+    ]);
+    expect(summary.totals).toMatchObject({ turns: 3, audioSeconds: 180, promptTokens: 3000, estimatedCost: 0.06435 });
+    expect(summary.currency).toBe('USD');
+  });
+
+  it('counts only the owner asked for', async () => {
+    await recordTurnAt('2026-03-02T10:00:00Z');
+    await recordTurnAt('2026-03-02T11:00:00Z', { ...user, id: 'user-2' });
+    await recordTurnAt('2026-03-02T12:00:00Z', { ...user, id: 'user-3', orgId: 'org-2' });
+
+    const mine = await getUsageSummary({ userId: 'user-1' }, { ...march, groupBy: 'day' });
+    const org = await getUsageSummary({ orgId: 'org-1' }, { ...march, groupBy: 'user' });
+
+    expect(mine.totals.turns).toBe(1);
+    expect(org.groups.map(({ key, turns }) => ({ key, turns }))).toEqual([
+      { key: 'user-1', turns: 1 },
+      { key: 'user-2', turns: 1 },
+    ]);
+  });
+
+  it('splits each turn into its provider components', async () => {
+    await recordTurnAt('2026-03-02T10:00:00Z');
+    await recordBackgroundUsage(user, {
+      sessionId,
+      task: 'session_summary',
+      llm: { provider: 'openai', model: 'gpt-4o-mini', promptTokens: 2000, completionTokens: 0 },
+    });
+
+    const summary = await getUsageSummary({ userId: 'user-1' }, { ...march, groupBy: 'provider' });
+    const byKey = Object.fromEntries(summary.groups.map((group) => [group.key, group]));
+
+    expect(Object.keys(byKey)).toEqual(['llm:openai', 'stt:openai', 'tts:openai']);
+    expect(byKey['stt:openai']).toMatchObject({ turns: 1, sttSeconds: 60, promptTokens: 0, estimatedCost: 0.006 });
+    // Background work adds tokens and cost but is not a turn
+    expect(byKey['llm:openai']).toMatchObject({
+      turns: 1,
+      sttSeconds: 0,
+      promptTokens: 3000,
+      completionTokens: 500,
+      ttsCharacters: 0,
+      estimatedCost: 0.00075,
+    });
+    expect(byKey['tts:openai']).toMatchObject({ turns: 1, ttsCharacters: 1000, estimatedCost: 0.015 });
+    expect(summary.totals).toMatchObject({ turns: 1, promptTokens: 3000 });
+  });
+
+  it('counts failed turns with what they spent', async () => {
+    await recordTurnAt('2026-03-02T10:00:00Z');
+    await recordFailedTurnUsage(user, { sessionId, channel: 'voice', audioSeconds: 30, sttSeconds: 30 });
+
+    const summary = await getUsageSummary({ userId: 'user-1' }, { ...march, groupBy: 'day' });
+
+    expect(summary.totals).toMatchObject({ turns: 2, audioSeconds: 90, sttSeconds: 90, estimatedCost: 0.02445 });
+  });
+});
@@ -0,0 +1,221 @@
+import { ObjectId } from 'mongodb';
+import { getDb } from './db';
+import type { AuthUser } from './auth';
+import { getLlmProvider, getSttProvider, getTtsProvider } from './providers';
+import { PRICING_CURRENCY, llmCost, sttCost, ttsCost } from './pricing';
+
+export type UsageChannel = 'voice' | 'stream' | 'text' | 'job';
+/** LLM work done outside a turn, after the session is idle */
+export type BackgroundTask = 'memory_extraction' | 'session_summary' | 'session_title';
+export type UsageGroupBy = 'day' | 'session' | 'provider' | 'user';
+
+interface UsageComponent {
+  type: 'stt' | 'llm' | 'tts';
+  provider: string;
+  model?: string;
+  cost: number;
+}
+
+export interface TurnUsage {
+  sessionId: string;
+  channel: UsageChannel;
+  /** Length of the uploaded audio (0 for text turns) */
+  audioSeconds: number;
+  /** Audio actually sent to STT (includes partial transcripts when streaming) */
+  sttSeconds: number;
+  llm: { provider: string; model: string; promptTokens: number; completionTokens: number };
+  tts: { model: string; characters: number };
+  /** The turn failed or was abandoned; only what it had already spent is counted */
+  failed?: boolean;
+}
+
+/** Record one conversation turn in the `usage` collection with its estimated cost. */
+export async function recordTurnUsage(user: AuthUser, turn: TurnUsage): Promise<void> {
+  const sttProvider = getSttProvider().name;
+  const ttsProvider = getTtsProvider().name;
+  const components: UsageComponent[] = [
+    { type: 'stt', provider: sttProvider, cost: sttCost(sttProvider, turn.sttSeconds) },
+    {
+      type: 'llm',
+      provider: turn.llm.provider,
+      model: turn.llm.model,
+      cost: llmCost(turn.llm.provider, turn.llm.model, turn.llm.promptTokens, turn.llm.completionTokens),
+    },
+    {
+      type: 'tts',
+      provider: ttsProvider,
+      model: turn.tts.model,
+      cost: ttsCost(ttsProvider, turn.tts.model, turn.tts.characters),
+    },
+  ];
+
+  const database = await getDb();
+  await database.collection('usage').insertOne({
+    userId: user.id,
+    orgId: user.orgId,
+    keyId: user.keyId,
+    sessionId: new ObjectId(turn.sessionId),
+    channel: turn.channel,
+    audioSeconds: turn.audioSeconds,
+    sttSeconds: turn.sttSeconds,
+    promptTokens: turn.llm.promptTokens,
+    completionTokens: turn.llm.completionTokens,
+    ttsCharacters: turn.tts.characters,
+    ...(turn.failed ? { failed: true } : {}),
+    components,
+    estimatedCost: components.reduce((sum, c) => sum + c.cost, 0),
+    currency: PRICING_CURRENCY,
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * Record the STT, LLM and TTS work a failed or abandoned turn had already
+ * paid for, with `failed: true`. Nothing is recorded when nothing was spent.
+ */
+export async function recordFailedTurnUsage(
+  user: AuthUser,
+  turn: Pick<TurnUsage, 'sessionId' | 'channel'> & Partial<Omit<TurnUsage, 'failed'>>
+): Promise<void> {
+  // The provider is only known once a model call was made
+  const llm = turn.llm?.provider
+    ? turn.llm
+    : { provider: getLlmProvider().name, model: '', promptTokens: 0, completionTokens: 0 };
+  const tts = turn.tts ?? { model: '', characters: 0 };
+  const sttSeconds = turn.sttSeconds ?? 0;
+  if (!sttSeconds && !llm.promptTokens && !llm.completionTokens && !tts.characters) return;
+  await recordTurnUsage(user, {
+    sessionId: turn.sessionId,
+    channel: turn.channel,
+    audioSeconds: turn.audioSeconds ?? 0,
+    sttSeconds,
+    llm,
+    tts,
+    failed: true,
+  });
+}
+
+/**
+ * Record one background LLM call (e.g. memory extraction) in the `usage`
+ * collection, with channel `background` and no API key. It adds to token and
+ * cost totals but is not counted as a turn.
+ */
+export async function recordBackgroundUsage(
+  owner: { id: string; orgId: string },
+  entry: {
+    sessionId: string;
+    task: BackgroundTask;
+    llm: { provider: string; model: string; promptTokens: number; completionTokens: number };
+  }
+): Promise<void> {
+  const { llm } = entry;
+  const cost = llmCost(llm.provider, llm.model, llm.promptTokens, llm.completionTokens);
+  const database = await getDb();
+  await database.collection('usage').insertOne({
+    userId: owner.id,
+    orgId: owner.orgId,
+    keyId: null,
+    sessionId: new ObjectId(entry.sessionId),
+    channel: 'background',
+    task: entry.task,
+    audioSeconds: 0,
+    sttSeconds: 0,
+    promptTokens: llm.promptTokens,
+    completionTokens: llm.completionTokens,
+    ttsCharacters: 0,
+    components: [{ type: 'llm', provider: llm.provider, model: llm.model, cost }],
+    estimatedCost: cost,
+    currency: PRICING_CURRENCY,
+    createdAt: new Date(),
+  });
+}
+
+export interface UsageGroup {
+  key: string;
+  turns: number;
+  audioSeconds: number;
+  sttSeconds: number;
+  promptTokens: number;
+  completionTokens: number;
+  ttsCharacters: number;
+  estimatedCost: number;
+}
+
+const IS_TURN = { $ne: ['$channel', 'background'] };
+
+const TURN_TOTALS = {
+  turns: { $sum: { $cond: [IS_TURN, 1, 0] } },
+  audioSeconds: { $sum: '$audioSeconds' },
+  sttSeconds: { $sum: '$sttSeconds' },
+  promptTokens: { $sum: '$promptTokens' },
+  completionTokens: { $sum: '$completionTokens' },
+  ttsCharacters: { $sum: '$ttsCharacters' },
+  estimatedCost: { $sum: '$estimatedCost' },
+};
+
+// Per provider, each turn is split into its STT, LLM and TTS components and
+// only the quantities and cost belonging to that component are counted
+const PROVIDER_PIPELINE = [
+  { $unwind: '$components' },
+  {
+    $group: {
+      _id: { $concat: ['$components.type', ':', '$components.provider'] },
+      turns: { $sum: { $cond: [IS_TURN, 1, 0] } },
+      audioSeconds: { $sum: { $cond: [{ $eq: ['$components.type', 'stt'] }, '$audioSeconds', 0] } },
+      sttSeconds: { $sum: { $cond: [{ $eq: ['$components.type', 'stt'] }, '$sttSeconds', 0] } },
+      promptTokens: { $sum: { $cond: [{ $eq: ['$components.type', 'llm'] }, '$promptTokens', 0] } },
+      completionTokens: {
+        $sum: { $cond: [{ $eq: ['$components.type', 'llm'] }, '$completionTokens', 0] },
+      },
+      ttsCharacters: { $sum: { $cond: [{ $eq: ['$components.type', 'tts'] }, '$ttsCharacters', 0] } },
+      estimatedCost: { $sum: '$components.cost' },
+    },
+  },
+];
+
+function groupKey(groupBy: UsageGroupBy): unknown {
+  if (groupBy === 'session') return { $toString: '$sessionId' };
+  if (groupBy === 'user') return '$userId';
+  return { $dateToString: { format: '%Y-%m-%d', date: '$createdAt', timezone: 'UTC' } };
+}
+
+/**
+ * Aggregate usage between `from` (inclusive) and `to` (exclusive), for one
+ * user or for a whole organization (billing).
+ */
+export async function getUsageSummary(
+  owner: { userId: string } | { orgId: string },
+  { from, to, groupBy }: { from: Date; to: Date; groupBy: UsageGroupBy }
+): Promise<{ totals: Omit<UsageGroup, 'key'>; groups: UsageGroup[]; currency: string }> {
+  const database = await getDb();
+  const match = { $match: { ...owner, createdAt: { $gte: from, $lt: to } } };
+
+  const grouping =
+    groupBy === 'provider'
+      ? PROVIDER_PIPELINE
+      : [{ $group: { _id: groupKey(groupBy), ...TURN_TOTALS } }];
+  const rows = await database
+    .collection('usage')
+    .aggregate([match, ...grouping, { $sort: { _id: 1 } }])
+    .toArray();
+  const [totalsRow] = await database
+    .collection('usage')
+    .aggregate([match, { $group: { _id: null, ...TURN_TOTALS } }])
+    .toArray();
+
+  const toGroup = (row: Record<string, unknown>): Omit<UsageGroup, 'key'> => ({
+    turns: (row.turns as number) ?? 0,
+    audioSeconds: (row.audioSeconds as number) ?? 0,
+    sttSeconds: (row.sttSeconds as number) ?? 0,
+    promptTokens: (row.promptTokens as number) ?? 0,
+    completionTokens: (row.completionTokens as number) ?? 0,
+    ttsCharacters: (row.ttsCharacters as number) ?? 0,
+    estimatedCost: Math.round(((row.estimatedCost as number) ?? 0) * 1e6) / 1e6,
+  });
+
+  return {
+    totals: toGroup(totalsRow ?? {}),
+    groups: rows.map((row) => ({ key: String(row._id), ...toGroup(row) })),
+    currency: PRICING_CURRENCY,
+  };
+}
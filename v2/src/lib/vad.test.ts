@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { detectVoiceActivity } from './vad';
+
+const SAMPLE_RATE = 16_000;
+
+// Silence with loud tones over the given [start, end] second ranges
+function recording(seconds: number, tones: [number, number][]): Int16Array {
+  const samples = new Int16Array(Math.round(seconds * SAMPLE_RATE));
+  for (const [start, end] of tones) {
+    for (let i = Math.round(start * SAMPLE_RATE); i < Math.round(end * SAMPLE_RATE); i++) {
+      samples[i] = Math.round(8000 * Math.sin(i / 5));
+    }
+  }
+  return samples;
+}
+
+describe('detectVoiceActivity', () => {
+  it('finds no speech in silence', () => {
+    const activity = detectVoiceActivity(recording(1, []), SAMPLE_RATE);
+    expect(activity.regions).toEqual([]);
+    expect(activity.speechSeconds).toBe(0);
+    expect(activity.durationSeconds).toBe(1);
+  });
+
+  it('locates speech so leading and trailing silence can be trimmed', () => {
+    const { regions, speechSeconds } = detectVoiceActivity(recording(3, [[1, 2]]), SAMPLE_RATE);
+    expect(regions).toHaveLength(1);
+    expect(regions[0].start).toBeCloseTo(0.99, 1);
+    expect(regions[0].end).toBeCloseTo(2.01, 1);
+    expect(speechSeconds).toBeCloseTo(1, 1);
+  });
+
+  it('ignores bursts shorter than a syllable', () => {
+    const { regions } = detectVoiceActivity(recording(2, [[0.5, 0.53]]), SAMPLE_RATE);
+    expect(regions).toEqual([]);
+  });
+
+  it('keeps short pauses inside one region but not in speechSeconds', () => {
+    const { regions, speechSeconds } = detectVoiceActivity(
+      recording(2, [
+        [0.3, 0.6],
+        [0.8, 1.1],
+      ]),
+      SAMPLE_RATE
+    );
+    expect(regions).toHaveLength(1);
+    expect(regions[0].end - regions[0].start).toBeCloseTo(0.8, 1);
+    expect(speechSeconds).toBeCloseTo(0.6, 1);
+  });
+
+  it('splits regions at long pauses', () => {
+    const { regions } = detectVoiceActivity(
+      recording(3, [
+        [0.3, 0.8],
+        [2, 2.5],
+      ]),
+      SAMPLE_RATE
+    );
+    expect(regions).toHaveLength(2);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Energy-based voice activity detection over 16-bit mono PCM. Runs offline
+ * and needs no model: frames louder than the recording's own noise floor
+ * (within fixed limits) count as speech once they last long enough.
+ */
+
+const FRAME_MS = 30;
+// Frames at least this much louder than the quietest tenth of the recording are speech
+const NOISE_MARGIN_DB = 10;
+// ...but never below MIN (hiss) or required above MAX (quiet talkers)
+const MIN_THRESHOLD_DB = -55;
+const MAX_THRESHOLD_DB = -40;
+// Shorter bursts are clicks and bumps
+const MIN_SPEECH_MS = 90;
+// Pauses shorter than this stay inside one speech region
+const MAX_PAUSE_MS = 300;
+
+export interface SpeechRegion {
+  /** Seconds from the start of the audio */
+  start: number;
+  end: number;
+}
+
+export interface VoiceActivity {
+  durationSeconds: number;
+  /** Voiced time only: the pauses merged into `regions` are not counted */
+  speechSeconds: number;
+  regions: SpeechRegion[];
+  thresholdDb: number;
+}
+
+function frameDb(samples: Int16Array, from: number, to: number): number {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  const meanSquare = sum / Math.max(1, to - from) / (32768 * 32768);
+  return 10 * Math.log10(meanSquare + 1e-10);
+}
+
+export function detectVoiceActivity(samples: Int16Array, sampleRate: number): VoiceActivity {
+  const frameSize = Math.round((sampleRate * FRAME_MS) / 1000);
+  const durationSeconds = samples.length / sampleRate;
+  const levels: number[] = [];
+  for (let from = 0; from < samples.length; from += frameSize) {
+    levels.push(frameDb(samples, from, Math.min(from + frameSize, samples.length)));
+  }
+  if (!levels.length) return { durationSeconds, speechSeconds: 0, regions: [], thresholdDb: MIN_THRESHOLD_DB };
+
+  const sorted = levels.slice().sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  const thresholdDb = Math.min(Math.max(noiseFloor + NOISE_MARGIN_DB, MIN_THRESHOLD_DB), MAX_THRESHOLD_DB);
+
+  const minFrames = Math.ceil(MIN_SPEECH_MS / FRAME_MS);
+  const maxPauseFrames = Math.floor(MAX_PAUSE_MS / FRAME_MS);
+  const runs: [number, number][] = [];
+  let runStart = -1;
+  for (let i = 0; i <= levels.length; i++) {
+    const loud = i < levels.length && levels[i] >= thresholdDb;
+    if (loud && runStart < 0) runStart = i;
+    if (!loud && runStart >= 0) {
+      if (i - runStart >= minFrames) runs.push([runStart, i]);
+      runStart = -1;
+    }
+  }
+
+  const merged: [number, number][] = [];
+  for (const run of runs) {
+    const last = merged[merged.length - 1];
+    if (last && run[0] - last[1] <= maxPauseFrames) last[1] = run[1];
+    else merged.push([run[0], run[1]]);
+  }
+
+  const frameSeconds = frameSize / sampleRate;
+  const regions = merged.map(([start, end]) => ({
+    start: start * frameSeconds,
+    end: Math.min(end * frameSeconds, durationSeconds),
+  }));
+  const speechSeconds = runs.reduce(
+    (sum, [start, end]) => sum + Math.min(end * frameSeconds, durationSeconds) - start * frameSeconds,
+    0
+  );
+  return { durationSeconds, speechSeconds, regions, thresholdDb };
+}
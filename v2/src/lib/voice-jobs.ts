@@ -0,0 +1,518 @@
+import { writeFile, unlink } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+import { GridFSBucket, ObjectId } from 'mongodb';
+import { getDb } from './db';
+import { hasScope, reauthorizeUser, type AuthUser } from './auth';
+import { getMessage, getSessionLanguage, getSessionProfileId } from './conversation';
+import { hasSpeech, isAudioError, prepareAudioForWhisper, type AudioLimits } from './audio';
+import { assessTranscription, transcribeAudio, type SttOptions, type TranscriptDetails } from './stt';
+import { getAudioAsset } from './audio-assets';
+import { resolveAgent } from './agent-profiles';
+import { retryWithBackoff } from './errors';
+import { completeTurn, emitTurnFailed } from './turn';
+import { recordFailedTurnUsage } from './usage';
+import type { TtsOptions } from './tts';
+import type { ToolCallRecord } from './tools';
+import type { Citation } from './knowledge';
+import {
+  createWebhookPayload,
+  nextWebhookAttempt,
+  sendWebhook,
+  WEBHOOK_LEASE_MS,
+  type WebhookDelivery,
+  type WebhookPayload,
+} from './webhooks';
+
+/**
+ * Asynchronous voice turns for long recordings (voicemail, batch uploads).
+ * Uploads are queued in `voice_jobs` with their audio in GridFS, and a worker
+ * in the server process runs them through the same STT, LLM and TTS path as
+ * `POST /api/v1/voice/conversation`. Clients poll the job or get a signed
+ * webhook when it finishes.
+ */
+
+const AUDIO_BUCKET = 'voice_job_audio';
+const POLL_INTERVAL_MS = 2000;
+// A job still "processing" after this is assumed lost (e.g. a restart) and picked up again
+const LEASE_MS = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 30_000;
+// Jobs take longer recordings than sync turns; 10 minutes of 16 kHz WAV still fits a 25 MB STT upload
+const DEFAULT_JOB_MAX_AUDIO_MB = 100;
+const DEFAULT_JOB_MAX_AUDIO_SECONDS = 600;
+
+/** Upload limits for jobs (`VOICE_JOB_MAX_AUDIO_SIZE_MB`, `VOICE_JOB_MAX_AUDIO_DURATION_SECONDS`). */
+export function jobAudioLimits(): AudioLimits {
+  return {
+    maxBytes: (Number(process.env.VOICE_JOB_MAX_AUDIO_SIZE_MB) || DEFAULT_JOB_MAX_AUDIO_MB) * 1024 * 1024,
+    maxSeconds: Number(process.env.VOICE_JOB_MAX_AUDIO_DURATION_SECONDS) || DEFAULT_JOB_MAX_AUDIO_SECONDS,
+  };
+}
+
+export type VoiceJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface VoiceJobResult {
+  transcript: string;
+  transcriptDetails: TranscriptDetails;
+  language: string | null;
+  userMessageId: string;
+  messageId: string;
+  reply: string;
+  toolCalls: ToolCallRecord[];
+  citations: Citation[];
+  clarification: boolean;
+  /** The reply as speech, when requested: a stored file's URL, or base64 */
+  audio: { contentType: string; url: string } | { contentType: string; data: string } | null;
+  input: { durationSeconds: number; speechSeconds: number; trimmedSeconds: number };
+}
+
+/** What a transcription cost and found, kept so a retry does not pay for STT again */
+export interface VoiceJobTranscription {
+  text: string;
+  language: string | null;
+  details: TranscriptDetails;
+  speechSeconds: number;
+  trimmedSeconds: number;
+  sttSeconds: number;
+}
+
+export interface VoiceJobDoc {
+  _id: ObjectId;
+  /** The submitting key's identity, checked again on every run; the turn runs (and is billed) as it */
+  user: AuthUser;
+  sessionId: string;
+  status: VoiceJobStatus;
+  audio: { fileId: ObjectId; contentType: string; durationSeconds: number; size: number };
+  /** Options for speaking the reply; null when no speech was requested */
+  tts: TtsOptions | null;
+  attempts: number;
+  runAt: Date;
+  lockedUntil: Date | null;
+  /** Steps already done, so a retried or re-claimed job does not repeat them */
+  progress: {
+    transcription: VoiceJobTranscription | null;
+    /** Set as soon as the turn's messages are saved */
+    messages: { userMessageId: string; assistantMessageId: string } | null;
+  };
+  /** Stored before the job is finished; a job re-claimed with a result only finishes */
+  result: VoiceJobResult | null;
+  error: { code: string; message: string } | null;
+  webhook: {
+    url: string;
+    secret: string;
+    /** Built when the job finishes, and re-sent as is on retries */
+    payload: WebhookPayload | null;
+    delivery: WebhookDelivery | null;
+    /** When the next send is due; null once delivered or given up */
+    nextAttemptAt: Date | null;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+export interface VoiceJobInfo {
+  id: string;
+  status: VoiceJobStatus;
+  sessionId: string;
+  attempts: number;
+  result: VoiceJobResult | null;
+  error: { code: string; message: string } | null;
+  webhook: { url: string; delivery: WebhookDelivery | null } | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+export function toVoiceJobInfo(job: VoiceJobDoc): VoiceJobInfo {
+  return {
+    id: job._id.toString(),
+    status: job.status,
+    sessionId: job.sessionId,
+    attempts: job.attempts,
+    result: job.result,
+    error: job.error,
+    webhook: job.webhook ? { url: job.webhook.url, delivery: job.webhook.delivery } : null,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+  };
+}
+
+async function jobs() {
+  return (await getDb()).collection<VoiceJobDoc>('voice_jobs');
+}
+
+async function audioBucket(): Promise<GridFSBucket> {
+  return new GridFSBucket(await getDb(), { bucketName: AUDIO_BUCKET });
+}
+
+/** Queue a validated recording. The session must already be resolved. */
+export async function createVoiceJob(input: {
+  user: AuthUser;
+  sessionId: string;
+  audio: { data: Buffer; contentType: string; durationSeconds: number };
+  tts: TtsOptions | null;
+  webhook: { url: string; secret: string } | null;
+}): Promise<VoiceJobDoc> {
+  const _id = new ObjectId();
+  const fileId = new ObjectId();
+  const bucket = await audioBucket();
+  await pipeline(
+    Readable.from([input.audio.data]),
+    bucket.openUploadStreamWithId(fileId, `${_id}`, { metadata: { contentType: input.audio.contentType } })
+  );
+  const now = new Date();
+  const job: VoiceJobDoc = {
+    _id,
+    user: input.user,
+    sessionId: input.sessionId,
+    status: 'queued',
+    audio: {
+      fileId,
+      contentType: input.audio.contentType,
+      durationSeconds: input.audio.durationSeconds,
+      size: input.audio.data.length,
+    },
+    tts: input.tts,
+    attempts: 0,
+    runAt: now,
+    lockedUntil: null,
+    progress: { transcription: null, messages: null },
+    result: null,
+    error: null,
+    webhook: input.webhook ? { ...input.webhook, payload: null, delivery: null, nextAttemptAt: null } : null,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+  };
+  try {
+    await (await jobs()).insertOne(job);
+  } catch (err) {
+    await bucket.delete(fileId).catch(() => {});
+    throw err;
+  }
+  return job;
+}
+
+/** A job submitted by `userId`; null for unknown IDs and other users' jobs. */
+export async function getVoiceJob(userId: string, jobId: string): Promise<VoiceJobDoc | null> {
+  let oid: ObjectId;
+  try {
+    oid = new ObjectId(jobId);
+  } catch {
+    return null;
+  }
+  return (await jobs()).findOne({ _id: oid, 'user.id': userId });
+}
+
+async function readJobAudio(fileId: ObjectId): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const part of (await audioBucket()).openDownloadStream(fileId)) parts.push(part as Buffer);
+  return Buffer.concat(parts);
+}
+
+/** Take the next due job, or one whose worker stopped before finishing it. */
+async function claimNextJob(): Promise<VoiceJobDoc | null> {
+  const now = new Date();
+  return (await jobs()).findOneAndUpdate(
+    {
+      $or: [
+        { status: 'queued', runAt: { $lte: now } },
+        { status: 'processing', lockedUntil: { $lt: now } },
+      ],
+    },
+    {
+      $set: { status: 'processing', lockedUntil: new Date(now.getTime() + LEASE_MS), updatedAt: now },
+      $inc: { attempts: 1 },
+    },
+    { sort: { runAt: 1 }, returnDocument: 'after' }
+  );
+}
+
+function jobError(code: string, message: string): Error & { code: string } {
+  return Object.assign(new Error(message), { code });
+}
+
+// Codes that fail a job at once
+const PERMANENT_CODES = ['VALIDATION_ERROR', 'JOB_TIMEOUT', 'UNAUTHORIZED'];
+
+function errorCode(err: unknown): string {
+  if (isAudioError(err)) return err.code;
+  const code = (err as { code?: string }).code;
+  return code && PERMANENT_CODES.includes(code) ? code : 'INTERNAL_SERVER_ERROR';
+}
+
+// Bad audio and client errors fail the job at once; anything else (provider outages) is retried
+function isPermanent(err: unknown): boolean {
+  if (errorCode(err) !== 'INTERNAL_SERVER_ERROR') return true;
+  const failure = err as { response?: { status?: number }; status?: number };
+  const status = failure.response?.status ?? failure.status;
+  return status != null && status < 500 && status !== 429;
+}
+
+async function saveProgress(jobId: ObjectId, update: Record<string, unknown>): Promise<void> {
+  await (await jobs()).updateOne({ _id: jobId }, { $set: { ...update, updatedAt: new Date() } });
+}
+
+async function transcribeJob(
+  job: VoiceJobDoc,
+  user: AuthUser,
+  data: Buffer,
+  sttOptions: SttOptions
+): Promise<VoiceJobTranscription> {
+  const tmpPath = path.join(os.tmpdir(), `voice-job-${job._id}-${randomBytes(4).toString('hex')}`);
+  let preparedPath: string | null = null;
+  try {
+    await writeFile(tmpPath, data);
+    const prepared = await prepareAudioForWhisper(tmpPath);
+    preparedPath = prepared.path;
+    if (!hasSpeech(prepared)) throw jobError('VALIDATION_ERROR', 'No speech detected in audio');
+    const transcription = await retryWithBackoff(() => transcribeAudio(prepared.path, sttOptions), 2);
+    if (!transcription.text.trim()) {
+      // Transcribed, and paid for, even though no words came back
+      await recordFailedTurnUsage(user, {
+        sessionId: job.sessionId,
+        channel: 'job',
+        audioSeconds: job.audio.durationSeconds,
+        sttSeconds: prepared.durationSeconds,
+      }).catch((err) => console.error('[jobs] Usage not recorded:', err));
+      throw jobError('VALIDATION_ERROR', 'No speech detected in audio');
+    }
+    return {
+      text: transcription.text,
+      language: transcription.language,
+      details: assessTranscription(transcription),
+      speechSeconds: prepared.speechSeconds,
+      trimmedSeconds: prepared.trimmedSeconds,
+      sttSeconds: prepared.durationSeconds,
+    };
+  } finally {
+    await unlink(tmpPath).catch(() => {});
+    if (preparedPath) await unlink(preparedPath).catch(() => {});
+  }
+}
+
+function audioInput(job: VoiceJobDoc, transcription: VoiceJobTranscription): VoiceJobResult['input'] {
+  return {
+    durationSeconds: job.audio.durationSeconds,
+    speechSeconds: transcription.speechSeconds,
+    trimmedSeconds: transcription.trimmedSeconds,
+  };
+}
+
+function messageAudioUrl(job: VoiceJobDoc, messageId: string): string {
+  return `/api/v1/sessions/${job.sessionId}/messages/${messageId}/audio`;
+}
+
+/**
+ * The result of a turn whose messages were saved by an earlier run that did
+ * not get to store it. Speech that was not kept in audio storage is lost.
+ */
+async function savedTurnResult(
+  job: VoiceJobDoc,
+  transcription: VoiceJobTranscription,
+  ids: { userMessageId: string; assistantMessageId: string }
+): Promise<VoiceJobResult> {
+  const reply = await getMessage(job.sessionId, ids.assistantMessageId);
+  if (!reply) throw jobError('VALIDATION_ERROR', 'The turn was deleted before the job finished');
+  const asset = reply.audioAssetId ? await getAudioAsset(new ObjectId(reply.audioAssetId)) : null;
+  return {
+    transcript: transcription.text,
+    transcriptDetails: transcription.details,
+    language: reply.language ?? null,
+    userMessageId: ids.userMessageId,
+    messageId: ids.assistantMessageId,
+    reply: reply.content,
+    toolCalls: reply.toolCalls ?? [],
+    citations: reply.citations ?? [],
+    clarification: reply.clarification ?? false,
+    audio: asset ? { contentType: asset.contentType, url: messageAudioUrl(job, ids.assistantMessageId) } : null,
+    input: audioInput(job, transcription),
+  };
+}
+
+async function runJob(job: VoiceJobDoc, user: AuthUser): Promise<VoiceJobResult> {
+  const { transcription: savedTranscription, messages } = job.progress;
+  if (savedTranscription && messages) return savedTurnResult(job, savedTranscription, messages);
+
+  const agent = await resolveAgent(user.orgId, await getSessionProfileId(job.sessionId));
+  // A session's language lock overrides the profile's STT hint
+  const lockedLanguage = await getSessionLanguage(job.sessionId);
+  const sttOptions = lockedLanguage ? { ...agent.stt, language: lockedLanguage } : agent.stt;
+
+  const data = await readJobAudio(job.audio.fileId);
+  let transcription = savedTranscription;
+  if (!transcription) {
+    transcription = await transcribeJob(job, user, data, sttOptions);
+    await saveProgress(job._id, { 'progress.transcription': transcription });
+  }
+
+  const turn = await completeTurn({
+    user,
+    sessionId: job.sessionId,
+    userText: transcription.text,
+    channel: 'job',
+    speak: job.tts !== null,
+    tts: job.tts ?? undefined,
+    language: lockedLanguage ?? transcription.language,
+    transcript: transcription.details,
+    agent,
+    inputAudio: { data, contentType: job.audio.contentType },
+    // Audio and STT are billed by the run that transcribed, whether or not its turn succeeded
+    audioSeconds: savedTranscription ? 0 : job.audio.durationSeconds,
+    sttSeconds: savedTranscription ? 0 : transcription.sttSeconds,
+    onSaved: (ids) => saveProgress(job._id, { 'progress.messages': ids }),
+  });
+  const { speech } = turn;
+  return {
+    transcript: transcription.text,
+    transcriptDetails: transcription.details,
+    language: turn.language,
+    userMessageId: turn.userMessageId,
+    messageId: turn.assistantMessageId,
+    reply: turn.text,
+    toolCalls: turn.toolCalls,
+    citations: turn.citations,
+    clarification: turn.clarification,
+    audio: !speech
+      ? null
+      : turn.outputAssetId
+        ? { contentType: speech.contentType, url: messageAudioUrl(job, turn.assistantMessageId) }
+        : { contentType: speech.contentType, data: speech.audio.toString('base64') },
+    input: audioInput(job, transcription),
+  };
+}
+
+/** Mark the job done and queue its webhook, if any, for the webhook loop. */
+async function finishJob(job: VoiceJobDoc, update: Pick<VoiceJobDoc, 'status' | 'result' | 'error'>) {
+  const now = new Date();
+  const finished: VoiceJobDoc = { ...job, ...update, lockedUntil: null, updatedAt: now, completedAt: now };
+  await (await jobs()).updateOne(
+    { _id: job._id },
+    {
+      $set: {
+        ...update,
+        lockedUntil: null,
+        updatedAt: now,
+        completedAt: now,
+        ...(job.webhook
+          ? {
+              'webhook.payload': createWebhookPayload(`voice_job.${update.status}`, toVoiceJobInfo(finished)),
+              'webhook.nextAttemptAt': now,
+            }
+          : {}),
+      },
+    }
+  );
+  await (await audioBucket()).delete(job.audio.fileId).catch(() => {});
+}
+
+/** Run one claimed job to completion, a retry or failure. */
+export async function processVoiceJob(job: VoiceJobDoc): Promise<void> {
+  let user = job.user;
+  try {
+    if (job.attempts > MAX_ATTEMPTS) throw jobError('JOB_TIMEOUT', 'Job did not finish');
+    let result = job.result;
+    if (!result) {
+      // Keys revoked (or members removed) while the job waited stop it
+      const current = await reauthorizeUser(job.user);
+      if (!current || !hasScope(current, 'voice:converse')) {
+        throw jobError('UNAUTHORIZED', 'The API key that submitted this job is no longer valid');
+      }
+      user = current;
+      result = await runJob(job, user);
+      await saveProgress(job._id, { result });
+    }
+    await finishJob(job, { status: 'completed', result, error: null });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Voice job failed';
+    const error = { code: errorCode(err), message };
+    if (!isPermanent(err) && job.attempts < MAX_ATTEMPTS) {
+      const now = new Date();
+      console.warn(`[jobs] Job ${job._id} attempt ${job.attempts} failed, retrying:`, message);
+      await (await jobs()).updateOne(
+        { _id: job._id },
+        {
+          $set: {
+            status: 'queued',
+            error,
+            lockedUntil: null,
+            runAt: new Date(now.getTime() + RETRY_BASE_MS * 2 ** (job.attempts - 1)),
+            updatedAt: now,
+          },
+        }
+      );
+      return;
+    }
+    console.error(`[jobs] Job ${job._id} failed:`, message);
+    emitTurnFailed(user, job.sessionId, 'job', error);
+    await finishJob(job, { status: 'failed', result: null, error });
+  }
+}
+
+/** Take a finished job whose webhook is due, leasing it so no other worker sends it too. */
+async function claimDueWebhook(): Promise<VoiceJobDoc | null> {
+  const now = new Date();
+  return (await jobs()).findOneAndUpdate(
+    { 'webhook.nextAttemptAt': { $lte: now } },
+    { $set: { 'webhook.nextAttemptAt': new Date(now.getTime() + WEBHOOK_LEASE_MS) } },
+    { sort: { 'webhook.nextAttemptAt': 1 }, returnDocument: 'after' }
+  );
+}
+
+/** One send of a finished job's webhook; failures are rescheduled with backoff. */
+async function deliverJobWebhook(job: VoiceJobDoc): Promise<void> {
+  const webhook = job.webhook;
+  if (!webhook?.payload) return;
+  const sent = await sendWebhook(webhook.url, webhook.secret, webhook.payload, { maxRetries: 0 });
+  const attempts = (webhook.delivery?.attempts ?? 0) + sent.attempts;
+  const nextAttemptAt = nextWebhookAttempt(sent, attempts);
+  if (!sent.deliveredAt) {
+    console.warn(`[jobs] Webhook for job ${job._id} not delivered${nextAttemptAt ? ', will retry' : ''}: ${sent.error}`);
+  }
+  await saveProgress(job._id, { 'webhook.delivery': { ...sent, attempts }, 'webhook.nextAttemptAt': nextAttemptAt });
+}
+
+/**
+ * Run queued voice jobs one at a time in this process (see server.ts), and
+ * send finished jobs' webhooks in a separate loop.
+ */
+export function startVoiceJobWorker(): NodeJS.Timeout {
+  let running = false;
+  let sending = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      let job: VoiceJobDoc | null;
+      while ((job = await claimNextJob())) await processVoiceJob(job);
+    } catch (err) {
+      console.error('[jobs] Worker failed:', err instanceof Error ? err.message : err);
+    } finally {
+      running = false;
+    }
+  };
+  const sendWebhooks = async () => {
+    if (sending) return;
+    sending = true;
+    try {
+      let job: VoiceJobDoc | null;
+      while ((job = await claimDueWebhook())) await deliverJobWebhook(job);
+    } catch (err) {
+      console.error('[jobs] Webhook delivery failed:', err instanceof Error ? err.message : err);
+    } finally {
+      sending = false;
+    }
+  };
+  const timer = setInterval(() => {
+    void run();
+    void sendWebhooks();
+  }, POLL_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
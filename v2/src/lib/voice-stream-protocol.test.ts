@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { parseClientMessage, parseServerMessage } from './voice-stream-protocol';
+
+describe('parseClientMessage', () => {
+  it('returns message objects with a string type', () => {
+    expect(parseClientMessage('{"type":"start","apiKey":"sk_test"}')).toEqual({ type: 'start', apiKey: 'sk_test' });
+  });
+
+  it.each(['null', '[]', '"start"', '42', '{}', '{"type":1}', '{"type":null}', 'not json', ''])(
+    'rejects %j',
+    (raw) => {
+      expect(parseClientMessage(raw)).toBeNull();
+    }
+  );
+});
+
+describe('parseServerMessage', () => {
+  it('returns message objects with a string type', () => {
+    expect(parseServerMessage('{"type":"ready","sessionId":"abc"}')).toEqual({ type: 'ready', sessionId: 'abc' });
+  });
+
+  it('rejects a null frame', () => {
+    expect(parseServerMessage('null')).toBeNull();
+  });
+});
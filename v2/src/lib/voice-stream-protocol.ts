@@ -0,0 +1,86 @@
+/**
+ * Messages exchanged over the streaming voice WebSocket
+ * (`/api/v1/voice/stream`). Shared by the server handler and the browser client.
+ *
+ * Client → server: a JSON `start` message, then binary audio chunks
+ * (MediaRecorder output), then `stop` to end the utterance. `interrupt` tells
+ * the server the user talked over the reply (barge-in).
+ * Server → client: JSON events below. A connection can carry several turns.
+ */
+
+import type { Citation } from './knowledge';
+import type { TtsOptions } from './providers';
+import type { TranscriptDetails } from './stt';
+
+export const VOICE_STREAM_PATH = '/api/v1/voice/stream';
+
+export type VoiceStreamClientMessage =
+  /** `tts` overrides the agent profile's voice and output format for this connection */
+  | { type: 'start'; apiKey: string; sessionId?: string | null; tts?: TtsOptions }
+  | { type: 'stop' }
+  | { type: 'cancel' }
+  /**
+   * Stops the reply in progress (no more text or audio is sent), or else marks
+   * the last reply on this connection as interrupted. `heardText` is the part
+   * that was played.
+   */
+  | { type: 'interrupt'; heardText?: string | null };
+
+export type VoiceStreamServerMessage =
+  | { type: 'ready'; sessionId: string }
+  | { type: 'transcript.partial'; text: string }
+  /** `transcript` has segments, word timings and confidence */
+  | { type: 'transcript.final'; text: string; transcript: TranscriptDetails }
+  | { type: 'response.delta'; text: string }
+  /** The agent looked something up (e.g. an invoice) while answering */
+  | { type: 'tool.call'; name: string; error?: string }
+  | {
+      type: 'audio.chunk';
+      seq: number;
+      text: string;
+      contentType: string;
+      /** Base64-encoded audio for one sentence of the reply */
+      audio: string;
+    }
+  | {
+      type: 'done';
+      sessionId: string;
+      userMessageId: string;
+      messageId: string;
+      transcript: string;
+      response: string;
+      /** ISO 639-1 code of the language the user spoke, when known */
+      language: string | null;
+      /** Knowledge-base excerpts the reply was based on */
+      citations: Citation[];
+      /** The reply asks the user to confirm a low-confidence transcript */
+      clarification: boolean;
+      /** The client interrupted the reply before it was fully sent */
+      interrupted: boolean;
+    }
+  | { type: 'error'; error: string; message: string; retryAfter?: number };
+
+// A JSON object with a string `type`, or null for anything else a peer might send
+function parseTypedObject(raw: string): { type: string } | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  return typeof (value as { type?: unknown }).type === 'string' ? (value as { type: string }) : null;
+}
+
+/**
+ * A text frame from the client, or null when it is not a message object.
+ * Only the shape is checked; handlers validate each message's fields.
+ */
+export function parseClientMessage(raw: string): VoiceStreamClientMessage | null {
+  return parseTypedObject(raw) as VoiceStreamClientMessage | null;
+}
+
+/** A text frame from the server, or null when it is not a message object. */
+export function parseServerMessage(raw: string): VoiceStreamServerMessage | null {
+  return parseTypedObject(raw) as VoiceStreamServerMessage | null;
+}
@@ -0,0 +1,469 @@
+import { writeFile, unlink } from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { hasScope, validateApiKey, type AuthUser } from './auth';
+import {
+  getOrCreateSession,
+  getSessionLanguage,
+  getSessionProfileId,
+  markMessageInterrupted,
+  validateHeardText,
+} from './conversation';
+import {
+  audioError,
+  hasSpeech,
+  isAudioError,
+  maxAudioBytes,
+  prepareAudioForWhisper,
+  validateAudio,
+} from './audio';
+import {
+  assessTranscription,
+  transcribeAudio,
+  type SttOptions,
+  type TranscriptDetails,
+  type Transcription,
+} from './stt';
+import { validateTtsOptions, type TtsOptions } from './tts';
+import type { MessageInterruption } from './llm';
+import { resolveAgent, type ResolvedAgent } from './agent-profiles';
+import { retryWithBackoff } from './errors';
+import {
+  checkAudioSeconds,
+  consumeAudioSeconds,
+  describeLimit,
+  enforceRequestLimits,
+  retryAfterSeconds,
+  type RateLimitResult,
+} from './rate-limit';
+import { recordFailedTurnUsage } from './usage';
+import { completeTurn, emitTurnFailed } from './turn';
+import {
+  parseClientMessage,
+  type VoiceStreamClientMessage,
+  type VoiceStreamServerMessage,
+} from './voice-stream-protocol';
+
+// Largest single WebSocket frame; whole utterances are limited by maxAudioBytes()
+const MAX_STREAM_BYTES = 25 * 1024 * 1024;
+const PARTIAL_TRANSCRIPT_INTERVAL_MS = 2000;
+// Each partial transcribes the whole utterance so far, so their number and length are capped
+const MAX_PARTIALS_PER_UTTERANCE = 3;
+const MAX_PARTIAL_AUDIO_SECONDS = 30;
+
+function isConnectionError(err: unknown): boolean {
+  const msg = err instanceof Error ? err.message : String(err);
+  return (
+    /connection|ECONNREFUSED|ENOTFOUND|MongoServerSelectionError|MongoNetworkError/i.test(msg)
+  );
+}
+
+async function transcribeChunks(
+  chunks: Buffer[],
+  sttOptions: SttOptions,
+  /** Runs on the validated duration before STT (quota checks); throw to stop */
+  validate: (durationSeconds: number) => Promise<void>
+): Promise<{ transcription: Transcription; mimeType: string; audioSeconds: number; sttSeconds: number }> {
+  const tmpPath = path.join(
+    os.tmpdir(),
+    `voice-stream-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.webm`
+  );
+  await writeFile(tmpPath, Buffer.concat(chunks));
+  let preparedPath: string | null = null;
+  try {
+    const validation = await validateAudio(tmpPath);
+    if (!validation.valid) throw audioError(validation.code, validation.error);
+    const { mimeType, duration: audioSeconds } = validation;
+    await validate(audioSeconds);
+    const prepared = await prepareAudioForWhisper(tmpPath);
+    preparedPath = prepared.path;
+    const sttSeconds = prepared.durationSeconds;
+    // Speech-free audio is never sent to the provider; callers see an empty transcript
+    if (!hasSpeech(prepared)) {
+      return {
+        transcription: { text: '', language: null, segments: [], words: [] },
+        mimeType,
+        audioSeconds,
+        sttSeconds: 0,
+      };
+    }
+    const transcription = await retryWithBackoff(() => transcribeAudio(prepared.path, sttOptions), 2);
+    return { transcription, mimeType, audioSeconds, sttSeconds };
+  } finally {
+    await unlink(tmpPath).catch(() => {});
+    if (preparedPath) await unlink(preparedPath).catch(() => {});
+  }
+}
+
+function handleConnection(ws: WebSocket) {
+  let user: AuthUser | null = null;
+  let agent: ResolvedAgent | null = null;
+  let sessionId: string | null = null;
+  let ttsOverrides: TtsOptions = {};
+  let lockedLanguage: string | null = null;
+  let chunks: Buffer[] = [];
+  let byteLength = 0;
+  let busy = false;
+  let partialInFlight: Promise<void> | null = null;
+  let lastPartialAt = 0;
+  let partialCount = 0;
+  // STT seconds spent on partial transcripts since the last turn, billed with it
+  let partialSttSeconds = 0;
+  // Set when the client interrupts the reply in progress
+  let interruption: MessageInterruption | null = null;
+  let lastReplyId: string | null = null;
+
+  function send(message: VoiceStreamServerMessage) {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  }
+
+  function sendError(error: string, message: string) {
+    send({ type: 'error', error, message });
+  }
+
+  function sendRateLimited(result: RateLimitResult) {
+    send({
+      type: 'error',
+      error: 'RATE_LIMIT_EXCEEDED',
+      message: describeLimit(result),
+      retryAfter: retryAfterSeconds(result),
+    });
+  }
+
+  function resetBuffer() {
+    chunks = [];
+    byteLength = 0;
+    lastPartialAt = 0;
+    partialCount = 0;
+  }
+
+  async function start(apiKey: string, requestedSessionId: string | null) {
+    try {
+      user = await validateApiKey(apiKey);
+      if (!user) {
+        sendError('INVALID_API_KEY', 'Invalid API key');
+        ws.close(4401, 'Invalid API key');
+        return;
+      }
+      if (!hasScope(user, 'voice:converse')) {
+        sendError('INSUFFICIENT_SCOPE', 'This API key lacks the "voice:converse" scope');
+        ws.close(4403, 'Insufficient scope');
+        user = null;
+        return;
+      }
+      sessionId = await getOrCreateSession(user, requestedSessionId);
+      agent = await resolveAgent(user.orgId, await getSessionProfileId(sessionId));
+      lockedLanguage = await getSessionLanguage(sessionId);
+      send({ type: 'ready', sessionId });
+    } catch (err) {
+      if (isConnectionError(err)) {
+        sendError(
+          'SERVICE_UNAVAILABLE',
+          'Database connection failed. Check that MongoDB is running and MONGODB_URI is set in .env.local.'
+        );
+      } else {
+        sendError('INTERNAL_SERVER_ERROR', err instanceof Error ? err.message : 'Authentication failed');
+      }
+      ws.close(1011, 'Start failed');
+    }
+  }
+
+  // A session's language lock overrides the profile's STT hint
+  function sttOptions(): SttOptions {
+    const options = agent?.stt ?? {};
+    return lockedLanguage ? { ...options, language: lockedLanguage } : options;
+  }
+
+  function maybeSendPartial() {
+    if (partialInFlight || busy || !user) return;
+    if (partialCount >= MAX_PARTIALS_PER_UTTERANCE) return;
+    if (Date.now() - lastPartialAt < PARTIAL_TRANSCRIPT_INTERVAL_MS) return;
+    lastPartialAt = Date.now();
+    partialCount++;
+    const partialUser = user;
+    const snapshot = chunks.slice();
+    partialInFlight = transcribeChunks(snapshot, sttOptions(), async (duration) => {
+      if (duration > MAX_PARTIAL_AUDIO_SECONDS) throw Object.assign(new Error('Utterance too long'), { stop: true });
+      // Only the final utterance is charged to the audio quota; partials stop once it would not fit
+      const audioLimit = await checkAudioSeconds(partialUser, duration);
+      if (audioLimit) throw Object.assign(new Error('Audio quota reached'), { stop: true });
+    })
+      .then(({ transcription: { text }, sttSeconds }) => {
+        partialSttSeconds += sttSeconds;
+        if (text.trim() && !busy) send({ type: 'transcript.partial', text });
+      })
+      .catch((err) => {
+        // Partial results are best-effort; the final transcript reports real errors
+        if ((err as { stop?: boolean }).stop) {
+          partialCount = MAX_PARTIALS_PER_UTTERANCE;
+          return;
+        }
+        console.warn('[voice/stream] Partial transcript failed:', err instanceof Error ? err.message : err);
+      })
+      .finally(() => {
+        partialInFlight = null;
+      });
+  }
+
+  async function interrupt(heardText: unknown) {
+    const heard = validateHeardText(heardText);
+    if (!heard.valid) {
+      sendError('VALIDATION_ERROR', heard.error);
+      return;
+    }
+    // Until the reply is stored, the turn in progress picks the interruption up
+    if (busy && !lastReplyId) {
+      interruption ??= { heardText: heard.heardText, interruptedAt: new Date() };
+      return;
+    }
+    if (!sessionId || !lastReplyId) {
+      sendError('VALIDATION_ERROR', 'No reply to interrupt');
+      return;
+    }
+    try {
+      await markMessageInterrupted(sessionId, lastReplyId, heard.heardText);
+    } catch (err) {
+      console.error('[voice/stream] Interruption not saved:', err instanceof Error ? err.message : err);
+    }
+  }
+
+  async function finishTurn() {
+    if (!user || !sessionId || busy) return;
+    if (!chunks.length) {
+      sendError('VALIDATION_ERROR', 'Audio stream is empty');
+      return;
+    }
+    busy = true;
+    lastReplyId = null;
+    const turnChunks = chunks;
+    resetBuffer();
+    const activeSessionId = sessionId;
+    const activeUser = user;
+    // Paid for before the turn starts; completeTurn records usage from there on, even when it fails
+    let audioSeconds = 0;
+    let unrecordedSttSeconds = 0;
+    let turnStarted = false;
+
+    try {
+      const rateLimit = await enforceRequestLimits(activeUser);
+      if (rateLimit && !rateLimit.allowed) {
+        sendRateLimited(rateLimit);
+        return;
+      }
+      if (partialInFlight) await partialInFlight;
+      unrecordedSttSeconds = partialSttSeconds;
+      partialSttSeconds = 0;
+      // Re-read per turn so profile and organization changes apply mid-connection
+      const turnAgent = await resolveAgent(activeUser.orgId, await getSessionProfileId(activeSessionId));
+      agent = turnAgent;
+      lockedLanguage = await getSessionLanguage(activeSessionId);
+
+      let transcript: string;
+      let language: string | null;
+      let details: TranscriptDetails;
+      let mimeType: string;
+      try {
+        const result = await transcribeChunks(turnChunks, sttOptions(), async (duration) => {
+          const audioLimit = await consumeAudioSeconds(activeUser, duration);
+          if (audioLimit) throw Object.assign(new Error('Rate limited'), { rateLimit: audioLimit });
+          audioSeconds = duration;
+        });
+        transcript = result.transcription.text;
+        language = lockedLanguage ?? result.transcription.language;
+        details = assessTranscription(result.transcription);
+        mimeType = result.mimeType;
+        unrecordedSttSeconds += result.sttSeconds;
+      } catch (err) {
+        const audioLimit = (err as { rateLimit?: RateLimitResult }).rateLimit;
+        if (audioLimit) {
+          sendRateLimited(audioLimit);
+          return;
+        }
+        if (isAudioError(err)) {
+          sendError(err.code, err.message);
+          return;
+        }
+        throw err;
+      }
+      console.log('[voice/stream] STT done:', transcript?.slice(0, 60) + (transcript?.length > 60 ? '...' : ''));
+      if (!transcript?.trim()) {
+        sendError('VALIDATION_ERROR', 'No speech detected in audio');
+        return;
+      }
+      send({ type: 'transcript.final', text: transcript, transcript: details });
+
+      turnStarted = true;
+      const turn = await completeTurn({
+        user: activeUser,
+        sessionId: activeSessionId,
+        userText: transcript,
+        channel: 'stream',
+        speak: true,
+        tts: ttsOverrides,
+        language,
+        transcript: details,
+        agent: turnAgent,
+        inputAudio: { data: Buffer.concat(turnChunks), contentType: mimeType },
+        audioSeconds,
+        sttSeconds: unrecordedSttSeconds,
+        stream: {
+          onDelta: (text) => send({ type: 'response.delta', text }),
+          onToolCall: (call) => send({ type: 'tool.call', name: call.name, error: call.error }),
+          onAudio: ({ seq, text, speech }) =>
+            send({
+              type: 'audio.chunk',
+              seq,
+              text,
+              contentType: speech.contentType,
+              audio: speech.audio.toString('base64'),
+            }),
+          interruption: () => interruption,
+        },
+      });
+      lastReplyId = turn.assistantMessageId;
+      // The user talked over the reply while it was being stored
+      if (interruption && !turn.interruption) {
+        await markMessageInterrupted(activeSessionId, turn.assistantMessageId, interruption.heardText);
+      }
+      send({
+        type: 'done',
+        sessionId: activeSessionId,
+        userMessageId: turn.userMessageId,
+        messageId: turn.assistantMessageId,
+        transcript,
+        response: turn.text,
+        language: turn.language,
+        citations: turn.citations,
+        clarification: turn.clarification,
+        interrupted: interruption !== null,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Voice conversation failed';
+      const rateLimited =
+        message.includes('rate') || (error as { status?: number })?.status === 429;
+      console.error('[voice/stream] Error:', error instanceof Error ? error.stack : error);
+      const code = rateLimited ? 'RATE_LIMIT_EXCEEDED' : 'INTERNAL_SERVER_ERROR';
+      emitTurnFailed(activeUser, activeSessionId, 'stream', { code, message });
+      sendError(code, message);
+    } finally {
+      busy = false;
+      interruption = null;
+      // Audio that was transcribed but never became a turn is still paid for
+      if (!turnStarted) {
+        await recordFailedTurnUsage(activeUser, {
+          sessionId: activeSessionId,
+          channel: 'stream',
+          audioSeconds,
+          sttSeconds: unrecordedSttSeconds,
+        }).catch((err) => console.error('[voice/stream] Usage not recorded:', err));
+      }
+    }
+  }
+
+  // Partial transcripts of audio that never became a turn (cancelled, or the
+  // connection closed) were paid for all the same
+  async function recordAbandonedPartials() {
+    if (partialInFlight) await partialInFlight;
+    if (busy || !user || !sessionId || !partialSttSeconds) return;
+    const seconds = partialSttSeconds;
+    partialSttSeconds = 0;
+    await recordFailedTurnUsage(user, { sessionId, channel: 'stream', sttSeconds: seconds }).catch((err) =>
+      console.error('[voice/stream] Usage not recorded:', err)
+    );
+  }
+
+  function handleMessage(data: RawData, isBinary: boolean) {
+    if (isBinary) {
+      if (!user) {
+        sendError('UNAUTHORIZED', 'Send a start message before audio');
+        return;
+      }
+      const chunk = Buffer.isBuffer(data)
+        ? data
+        : Array.isArray(data)
+          ? Buffer.concat(data)
+          : Buffer.from(data);
+      byteLength += chunk.length;
+      const maxBytes = maxAudioBytes();
+      if (byteLength > maxBytes) {
+        resetBuffer();
+        sendError('TOO_LARGE', `Audio file too large (max ${maxBytes / 1024 / 1024}MB)`);
+        return;
+      }
+      chunks.push(chunk);
+      maybeSendPartial();
+      return;
+    }
+
+    const message: VoiceStreamClientMessage | null = parseClientMessage(data.toString());
+    if (!message) {
+      sendError('VALIDATION_ERROR', 'Invalid message');
+      return;
+    }
+
+    switch (message.type) {
+      case 'start':
+        if (!message.apiKey || typeof message.apiKey !== 'string') {
+          sendError('UNAUTHORIZED', 'API key is required');
+          return;
+        }
+        if (message.tts !== undefined) {
+          const tts = validateTtsOptions(message.tts);
+          if (!tts.valid) {
+            sendError('VALIDATION_ERROR', tts.error);
+            return;
+          }
+          ttsOverrides = tts.options;
+        }
+        if (message.sessionId != null && typeof message.sessionId !== 'string') {
+          sendError('VALIDATION_ERROR', 'sessionId must be a string');
+          return;
+        }
+        void start(message.apiKey, message.sessionId || null);
+        return;
+      case 'stop':
+        void finishTurn();
+        return;
+      case 'cancel':
+        resetBuffer();
+        void recordAbandonedPartials();
+        return;
+      case 'interrupt':
+        void interrupt(message.heardText);
+        return;
+      default:
+        sendError('VALIDATION_ERROR', 'Unknown message type');
+    }
+  }
+
+  ws.on('message', (data: RawData, isBinary: boolean) => {
+    // A throw here would escape the ws listener and take the whole server down
+    try {
+      handleMessage(data, isBinary);
+    } catch (err) {
+      console.error('[voice/stream] Message not handled:', err instanceof Error ? err.stack : err);
+      sendError('VALIDATION_ERROR', 'Invalid message');
+    }
+  });
+
+  ws.on('close', () => {
+    void recordAbandonedPartials();
+  });
+
+  // Oversized frames and invalid UTF-8 end up here; without a listener they crash the process
+  ws.on('error', (err) => {
+    console.warn('[voice/stream] Connection error:', err.message);
+    ws.terminate();
+  });
+}
+
+/**
+ * WebSocket server for the streaming voice pipeline. It is created in
+ * `noServer` mode; server.ts routes upgrade requests for VOICE_STREAM_PATH here.
+ */
+export function createVoiceStreamServer(): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_STREAM_BYTES });
+  wss.on('connection', handleConnection);
+  return wss;
+}
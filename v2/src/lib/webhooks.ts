@@ -0,0 +1,565 @@
+import { createHmac, randomBytes } from 'crypto';
+import axios from 'axios';
+import { ObjectId } from 'mongodb';
+import { getDb } from './db';
+import { retryWithBackoff } from './errors';
+import {
+  assertPublicHost,
+  isPrivateHostname,
+  privateUrlsAllowed,
+  publicHttpAgent,
+  publicHttpsAgent,
+} from './private-network';
+
+/**
+ * Outgoing webhooks: JSON POSTs signed with HMAC-SHA256 so receivers can
+ * check they came from us. The signature covers `<timestamp>.<body>`:
+ *
+ *   X-Webhook-Timestamp: 1718000000
+ *   X-Webhook-Signature: v1=<hex HMAC-SHA256(secret, "1718000000.<raw body>")>
+ *
+ * Receivers should reject timestamps more than a few minutes old.
+ *
+ * Organizations subscribe endpoints to conversation events; every send is
+ * recorded in `webhook_deliveries` and can be replayed from there. Failed
+ * sends are retried from that collection too, so a restart does not drop them.
+ */
+
+const DEFAULT_MAX_RETRIES = 4;
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_URL_LENGTH = 2048;
+const MIN_SECRET_LENGTH = 16;
+const MAX_SECRET_LENGTH = 200;
+const RETRY_BASE_MS = 10_000;
+const POLL_INTERVAL_MS = 2000;
+/** How long a claimed send is held before another worker may take it over */
+export const WEBHOOK_LEASE_MS = 60_000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * An http(s) URL a webhook can be sent to. Private and loopback addresses are
+ * refused unless `WEBHOOK_ALLOW_PRIVATE_URLS=true` (for local development);
+ * host names are checked again, resolved, on every send.
+ */
+export function validateWebhookUrl(value: unknown): { valid: true; url: string } | { valid: false; error: string } {
+  if (typeof value !== 'string' || !value || value.length > MAX_URL_LENGTH) {
+    return { valid: false, error: 'webhookUrl must be an http or https URL' };
+  }
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return { valid: false, error: 'webhookUrl must be an http or https URL' };
+  }
+  if ((url.protocol !== 'https:' && url.protocol !== 'http:') || url.username || url.password) {
+    return { valid: false, error: 'webhookUrl must be an http or https URL without credentials' };
+  }
+  if (isPrivateHostname(url.hostname) && !privateUrlsAllowed()) {
+    return { valid: false, error: 'webhookUrl must not point to a private or loopback address' };
+  }
+  return { valid: true, url: url.toString() };
+}
+
+export function validateWebhookSecret(value: unknown): { valid: true; secret: string } | { valid: false; error: string } {
+  if (typeof value !== 'string' || value.length < MIN_SECRET_LENGTH || value.length > MAX_SECRET_LENGTH) {
+    return {
+      valid: false,
+      error: `webhookSecret must be ${MIN_SECRET_LENGTH}-${MAX_SECRET_LENGTH} characters`,
+    };
+  }
+  return { valid: true, secret: value };
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `v1=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/** Outcome of sending one event, after retries. */
+export interface WebhookDelivery {
+  id: string;
+  attempts: number;
+  /** HTTP status of the last attempt; null when the endpoint could not be reached */
+  status: number | null;
+  error: string | null;
+  deliveredAt: Date | null;
+}
+
+export function webhookMaxRetries(): number {
+  const raw = process.env.WEBHOOK_MAX_RETRIES;
+  const retries = raw ? Number(raw) : DEFAULT_MAX_RETRIES;
+  return Number.isInteger(retries) && retries >= 0 ? retries : DEFAULT_MAX_RETRIES;
+}
+
+/** Whether a failed send may succeed later: the endpoint was unreachable or returned 5xx. */
+export function isRetryableDelivery(delivery: WebhookDelivery): boolean {
+  if (delivery.deliveredAt || !delivery.attempts) return false;
+  return delivery.status === null || delivery.status >= 500;
+}
+
+/**
+ * When a queued webhook should be sent again after `sent` failed, with
+ * `attempts` made so far: 10 s, 20 s, 40 s, ... later. Null when it was
+ * delivered, is not worth retrying or has used up `WEBHOOK_MAX_RETRIES`.
+ */
+export function nextWebhookAttempt(sent: WebhookDelivery, attempts: number): Date | null {
+  if (!isRetryableDelivery(sent) || attempts > webhookMaxRetries()) return null;
+  return new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1));
+}
+
+/** The JSON body of a webhook request. */
+export interface WebhookPayload {
+  id: string;
+  event: string;
+  createdAt: Date;
+  data: unknown;
+}
+
+export function createWebhookPayload(event: string, data: unknown): WebhookPayload {
+  return { id: `evt_${randomBytes(12).toString('hex')}`, event, createdAt: new Date(), data };
+}
+
+/**
+ * POST `payload` to `url`. Network errors and 5xx responses are retried with
+ * exponential backoff (`WEBHOOK_MAX_RETRIES`, default 4, unless `maxRetries`
+ * is given); other non-2xx responses are not. Never throws.
+ */
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  payload: WebhookPayload,
+  { maxRetries = webhookMaxRetries() }: { maxRetries?: number } = {}
+): Promise<WebhookDelivery> {
+  const { id, event } = payload;
+  const body = JSON.stringify(payload);
+  const delivery: WebhookDelivery = { id, attempts: 0, status: null, error: null, deliveredAt: null };
+
+  try {
+    await assertPublicHost(new URL(url).hostname);
+  } catch (err) {
+    // Not worth retrying: the host is refused or does not resolve
+    delivery.error = err instanceof Error ? err.message : String(err);
+    return delivery;
+  }
+
+  try {
+    await retryWithBackoff(async () => {
+      delivery.attempts++;
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await axios
+        .post(url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'voice-agent-webhooks/1',
+            'X-Webhook-Id': id,
+            'X-Webhook-Event': event,
+            'X-Webhook-Timestamp': String(timestamp),
+            'X-Webhook-Signature': signWebhookPayload(secret, timestamp, body),
+          },
+          timeout: REQUEST_TIMEOUT_MS,
+          maxRedirects: 0,
+          proxy: false,
+          httpAgent: publicHttpAgent,
+          httpsAgent: publicHttpsAgent,
+          validateStatus: () => true,
+        })
+        .catch((err: unknown) => {
+          delivery.status = null;
+          delivery.error = err instanceof Error ? err.message : String(err);
+          throw err;
+        });
+      delivery.status = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        delivery.error = `Endpoint responded with ${response.status}`;
+        throw Object.assign(new Error(delivery.error), { response: { status: response.status } });
+      }
+      delivery.error = null;
+    }, maxRetries);
+    delivery.deliveredAt = new Date();
+  } catch {
+    // Recorded in `delivery`
+  }
+  return delivery;
+}
+
+export const WEBHOOK_EVENTS = ['session.created', 'message.created', 'turn.completed', 'turn.failed'] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+const MAX_DESCRIPTION_LENGTH = 500;
+
+export interface WebhookEndpointDoc {
+  _id: ObjectId;
+  orgId: string;
+  createdBy: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  description: string;
+  /** Disabled endpoints keep their deliveries but receive no new events */
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** An endpoint as returned by the API; the secret is only shown on creation. */
+export interface WebhookEndpointInfo {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  description: string;
+  enabled: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type WebhookEndpointInput = Pick<WebhookEndpointDoc, 'url' | 'secret' | 'events' | 'description' | 'enabled'>;
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDeliveryDoc {
+  _id: ObjectId;
+  orgId: string;
+  endpointId: ObjectId;
+  event: WebhookEventType;
+  payload: WebhookPayload;
+  /** `pending` while the request (and its retries) is in flight */
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** HTTP status of the last attempt; null when the endpoint could not be reached */
+  responseStatus: number | null;
+  error: string | null;
+  /** When the next attempt is due; null once delivered or failed */
+  nextAttemptAt: Date | null;
+  /** The delivery this one re-sent */
+  replayOf: ObjectId | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export interface WebhookDeliveryInfo {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  event: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  replayOf: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export function toWebhookEndpointInfo(endpoint: WebhookEndpointDoc): WebhookEndpointInfo {
+  return {
+    id: endpoint._id.toString(),
+    url: endpoint.url,
+    events: endpoint.events,
+    description: endpoint.description,
+    enabled: endpoint.enabled,
+    createdBy: endpoint.createdBy,
+    createdAt: endpoint.createdAt,
+    updatedAt: endpoint.updatedAt,
+  };
+}
+
+export function toWebhookDeliveryInfo(delivery: WebhookDeliveryDoc): WebhookDeliveryInfo {
+  return {
+    id: delivery._id.toString(),
+    endpointId: delivery.endpointId.toString(),
+    eventId: delivery.payload.id,
+    event: delivery.event,
+    payload: delivery.payload,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus,
+    error: delivery.error,
+    replayOf: delivery.replayOf ? delivery.replayOf.toString() : null,
+    createdAt: delivery.createdAt,
+    completedAt: delivery.completedAt,
+  };
+}
+
+function isWebhookEvent(value: unknown): value is WebhookEventType {
+  return (WEBHOOK_EVENTS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Check an endpoint from a request body. With `partial` (PATCH), only the
+ * fields present are validated and returned.
+ */
+export function validateWebhookEndpoint(
+  body: unknown,
+  { partial = false } = {}
+): { valid: true; endpoint: Partial<WebhookEndpointInput> } | { valid: false; error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, error: 'Request body must be a JSON object' };
+  }
+  const { url, secret, events, description, enabled } = body as Record<string, unknown>;
+  const endpoint: Partial<WebhookEndpointInput> = {};
+
+  if (url !== undefined || !partial) {
+    const result = validateWebhookUrl(url);
+    if (!result.valid) return { valid: false, error: result.error.replace('webhookUrl', 'url') };
+    endpoint.url = result.url;
+  }
+  if (secret !== undefined) {
+    const result = validateWebhookSecret(secret);
+    if (!result.valid) return { valid: false, error: result.error.replace('webhookSecret', 'secret') };
+    endpoint.secret = result.secret;
+  }
+  if (events !== undefined || !partial) {
+    if (!Array.isArray(events) || !events.length || !events.every(isWebhookEvent)) {
+      return { valid: false, error: `events must be a non-empty array of: ${WEBHOOK_EVENTS.join(', ')}` };
+    }
+    endpoint.events = Array.from(new Set(events));
+  }
+  if (description !== undefined) {
+    if (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH) {
+      return { valid: false, error: `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` };
+    }
+    endpoint.description = description;
+  }
+  if (enabled !== undefined) {
+    if (typeof enabled !== 'boolean') return { valid: false, error: 'enabled must be a boolean' };
+    endpoint.enabled = enabled;
+  }
+  return { valid: true, endpoint };
+}
+
+function parseObjectId(id: string): ObjectId | null {
+  try {
+    return new ObjectId(id);
+  } catch {
+    return null;
+  }
+}
+
+async function endpointsCollection() {
+  return (await getDb()).collection<WebhookEndpointDoc>('webhook_endpoints');
+}
+
+async function deliveriesCollection() {
+  return (await getDb()).collection<WebhookDeliveryDoc>('webhook_deliveries');
+}
+
+/** Without `secret`, one is generated; the caller shows it once. */
+export async function createWebhookEndpoint(
+  orgId: string,
+  createdBy: string,
+  input: Partial<WebhookEndpointInput> & Pick<WebhookEndpointInput, 'url' | 'events'>
+): Promise<WebhookEndpointDoc> {
+  const now = new Date();
+  const endpoint: WebhookEndpointDoc = {
+    _id: new ObjectId(),
+    orgId,
+    createdBy,
+    url: input.url,
+    secret: input.secret ?? generateWebhookSecret(),
+    events: input.events,
+    description: input.description ?? '',
+    enabled: input.enabled ?? true,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await (await endpointsCollection()).insertOne(endpoint);
+  return endpoint;
+}
+
+export async function listWebhookEndpoints(orgId: string): Promise<WebhookEndpointInfo[]> {
+  const endpoints = await (await endpointsCollection()).find({ orgId }).sort({ createdAt: 1 }).toArray();
+  return endpoints.map(toWebhookEndpointInfo);
+}
+
+export async function getWebhookEndpoint(orgId: string, endpointId: string): Promise<WebhookEndpointDoc | null> {
+  const oid = parseObjectId(endpointId);
+  if (!oid) return null;
+  return (await endpointsCollection()).findOne({ _id: oid, orgId });
+}
+
+export async function updateWebhookEndpoint(
+  orgId: string,
+  endpointId: string,
+  update: Partial<WebhookEndpointInput>
+): Promise<WebhookEndpointDoc | null> {
+  const oid = parseObjectId(endpointId);
+  if (!oid) return null;
+  return (await endpointsCollection()).findOneAndUpdate(
+    { _id: oid, orgId },
+    { $set: { ...update, updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+}
+
+/** Deletes the endpoint's delivery log with it. */
+export async function deleteWebhookEndpoint(orgId: string, endpointId: string): Promise<boolean> {
+  const oid = parseObjectId(endpointId);
+  if (!oid) return false;
+  const result = await (await endpointsCollection()).deleteOne({ _id: oid, orgId });
+  if (!result.deletedCount) return false;
+  await (await deliveriesCollection()).deleteMany({ endpointId: oid });
+  return true;
+}
+
+/**
+ * An endpoint's deliveries, newest first, optionally only those with
+ * `status`. `before` is the last delivery ID of the previous page.
+ */
+export async function listWebhookDeliveries(
+  endpoint: WebhookEndpointDoc,
+  { limit = 20, before, status }: { limit?: number; before?: string; status?: WebhookDeliveryStatus } = {}
+): Promise<{ deliveries: WebhookDeliveryInfo[]; hasMore: boolean }> {
+  const filter: Record<string, unknown> = { endpointId: endpoint._id };
+  if (status) filter.status = status;
+  if (before) {
+    const cursorOid = parseObjectId(before);
+    if (!cursorOid) return { deliveries: [], hasMore: false };
+    filter._id = { $lt: cursorOid };
+  }
+  const rows = await (await deliveriesCollection())
+    .find(filter)
+    .sort({ _id: -1 })
+    .limit(limit + 1)
+    .toArray();
+  return { deliveries: rows.slice(0, limit).map(toWebhookDeliveryInfo), hasMore: rows.length > limit };
+}
+
+// One send of a recorded delivery; failures are rescheduled with backoff
+async function deliver(endpoint: WebhookEndpointDoc, delivery: WebhookDeliveryDoc): Promise<void> {
+  const sent = await sendWebhook(endpoint.url, endpoint.secret, delivery.payload, { maxRetries: 0 });
+  const attempts = delivery.attempts + sent.attempts;
+  const nextAttemptAt = nextWebhookAttempt(sent, attempts);
+  if (!sent.deliveredAt) {
+    console.warn(
+      `[webhooks] ${delivery.event} to ${endpoint.url} not delivered${nextAttemptAt ? ', will retry' : ''}: ${sent.error}`
+    );
+  }
+  await (await deliveriesCollection()).updateOne(
+    { _id: delivery._id },
+    {
+      $set: {
+        status: sent.deliveredAt ? 'delivered' : nextAttemptAt ? 'pending' : 'failed',
+        attempts,
+        responseStatus: sent.status,
+        error: sent.error,
+        nextAttemptAt,
+        completedAt: nextAttemptAt ? null : new Date(),
+      },
+    }
+  );
+}
+
+async function recordDelivery(
+  endpoint: WebhookEndpointDoc,
+  event: WebhookEventType,
+  payload: WebhookPayload,
+  replayOf: ObjectId | null = null
+): Promise<WebhookDeliveryDoc> {
+  const delivery: WebhookDeliveryDoc = {
+    _id: new ObjectId(),
+    orgId: endpoint.orgId,
+    endpointId: endpoint._id,
+    event,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    responseStatus: null,
+    error: null,
+    // Leased to the caller, which sends it right away; the worker takes over if this process stops first
+    nextAttemptAt: new Date(Date.now() + WEBHOOK_LEASE_MS),
+    replayOf,
+    createdAt: new Date(),
+    completedAt: null,
+  };
+  await (await deliveriesCollection()).insertOne(delivery);
+  return delivery;
+}
+
+async function dispatchEvent(orgId: string, event: WebhookEventType, data: unknown): Promise<void> {
+  const endpoints = await (await endpointsCollection()).find({ orgId, enabled: true, events: event }).toArray();
+  if (!endpoints.length) return;
+  const payload = createWebhookPayload(event, data);
+  await Promise.all(
+    endpoints.map(async (endpoint) => deliver(endpoint, await recordDelivery(endpoint, event, payload)))
+  );
+}
+
+/**
+ * Send `event` to the organization's enabled endpoints subscribed to it. Runs
+ * in the background so the request that caused it is not slowed down by
+ * slow or failing receivers.
+ */
+export function emitWebhookEvent(orgId: string | undefined, event: WebhookEventType, data: unknown): void {
+  if (!orgId) return;
+  void dispatchEvent(orgId, event, data).catch((err) =>
+    console.error(`[webhooks] ${event} not dispatched:`, err instanceof Error ? err.message : err)
+  );
+}
+
+/**
+ * Send a recorded delivery's payload again (same event ID, fresh signature)
+ * as a new delivery. Returns the new delivery, still pending, or null when
+ * the endpoint has no such delivery.
+ */
+export async function replayWebhookDelivery(
+  endpoint: WebhookEndpointDoc,
+  deliveryId: string
+): Promise<WebhookDeliveryDoc | null> {
+  const oid = parseObjectId(deliveryId);
+  if (!oid) return null;
+  const original = await (await deliveriesCollection()).findOne({ _id: oid, endpointId: endpoint._id });
+  if (!original) return null;
+  const delivery = await recordDelivery(endpoint, original.event, original.payload, original._id);
+  void deliver(endpoint, delivery).catch((err) =>
+    console.error('[webhooks] Replay not delivered:', err instanceof Error ? err.message : err)
+  );
+  return delivery;
+}
+
+/** Take a delivery whose next attempt is due, leasing it so no other worker sends it too. */
+async function claimDueDelivery(): Promise<WebhookDeliveryDoc | null> {
+  const now = new Date();
+  return (await deliveriesCollection()).findOneAndUpdate(
+    { nextAttemptAt: { $lte: now } },
+    { $set: { nextAttemptAt: new Date(now.getTime() + WEBHOOK_LEASE_MS) } },
+    { sort: { nextAttemptAt: 1 }, returnDocument: 'after' }
+  );
+}
+
+// A delivery whose endpoint was disabled since is not retried; it can still be replayed
+async function retryDelivery(delivery: WebhookDeliveryDoc): Promise<void> {
+  const endpoint = await (await endpointsCollection()).findOne({ _id: delivery.endpointId });
+  if (endpoint?.enabled) return deliver(endpoint, delivery);
+  await (await deliveriesCollection()).updateOne(
+    { _id: delivery._id },
+    { $set: { status: 'failed', error: 'Endpoint disabled', nextAttemptAt: null, completedAt: new Date() } }
+  );
+}
+
+/**
+ * Send due retries of event deliveries, and deliveries a stopped process left
+ * in flight, from `webhook_deliveries` in this process (see server.ts).
+ */
+export function startWebhookDeliveryWorker(): NodeJS.Timeout {
+  let sending = false;
+  const send = async () => {
+    if (sending) return;
+    sending = true;
+    try {
+      let delivery: WebhookDeliveryDoc | null;
+      while ((delivery = await claimDueDelivery())) await retryDelivery(delivery);
+    } catch (err) {
+      console.error('[webhooks] Retry failed:', err instanceof Error ? err.message : err);
+    } finally {
+      sending = false;
+    }
+  };
+  const timer = setInterval(() => void send(), POLL_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}